@@ -1,14 +1,42 @@
 import { Notice, Plugin, TFile } from 'obsidian';
 import type { App } from 'obsidian';
 
+import { AdapterCacheStorage, ResponseCache } from './src/api/cache';
 import { HltbClient } from './src/api/hltb';
 import { IgdbClient } from './src/api/igdb';
+import { IGDB_SCHEDULER_OPTIONS, RequestScheduler } from './src/api/scheduler';
 import { SteamGridDbClient } from './src/api/steamgriddb';
+import { canonicalPriority, translate, translatePriority } from './src/i18n';
+import { ArtworkStore, localizeLibraryArtwork } from './src/library/ArtworkStore';
+import { ensureEntityNotes, entitiesOf, linkGameData, linkLibraryEntities } from './src/library/entities';
+import type { EntityFolders } from './src/library/entities';
+import { availablePath, ensureFolder, parentFolder, toNotePath } from './src/library/folders';
+import { GameLibrary, type DuplicateMatch } from './src/library/GameLibrary';
+import { mergeIntoNote } from './src/library/merge';
+import { moveGameNotes } from './src/library/organize';
+import { migrateDashboardPriorities, migratePriorities } from './src/migrations/priorities';
+import { applyUpgrades, planUpgrades } from './src/migrations/schema';
+import {
+  HltbProvider,
+  IgdbProvider,
+  ProviderRegistry,
+  SteamGridDbProvider,
+} from './src/providers';
 import type { GameBacklogSettings, Platform, Priority } from './src/settings';
-import { GameBacklogSettingTab, DEFAULT_SETTINGS } from './src/settings';
-import { generateGameNote, generateFileName } from './src/templates/gameNote';
+import { GameBacklogSettingTab, DEFAULT_SETTINGS, PRIORITIES } from './src/settings';
+import { TemplateError } from './src/templates/engine';
+import {
+  DEFAULT_NOTE_NAMING,
+  generateGameNote,
+  generateNotePath,
+  PLANNING_FIELDS,
+  type NoteMedia,
+  type NoteNaming,
+} from './src/templates/gameNote';
 import { AddGameModal, type GameData } from './src/ui/AddGameModal';
-import { translate } from './src/i18n';
+import { BulkAddModal } from './src/ui/BulkAddModal';
+import { DuplicateGameModal, type DuplicateChoice } from './src/ui/DuplicateGameModal';
+import { UpgradeNotesModal } from './src/ui/UpgradeNotesModal';
 
 // Declare global console for ESLint
 declare const console: Console;
@@ -22,6 +50,11 @@ export default class GameBacklogPlugin extends Plugin {
   private igdbClient: IgdbClient;
   private hltbClient: HltbClient;
   private steamGridDbClient: SteamGridDbClient;
+  providers: ProviderRegistry;
+  cache: ResponseCache;
+  library: GameLibrary;
+  // Outlives client re-creation so rate limits hold across settings changes
+  private igdbScheduler = new RequestScheduler(IGDB_SCHEDULER_OPTIONS);
 
   /**
    * Initializes the plugin when loaded by Obsidian.
@@ -30,6 +63,18 @@ export default class GameBacklogPlugin extends Plugin {
   async onload() {
     await this.loadSettings();
 
+    // Load the response cache from the plugin folder
+    const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.cache = new ResponseCache(
+      new AdapterCacheStorage(this.app.vault.adapter, `${pluginDir}/cache.json`)
+    );
+    await this.cache.load();
+
+    // Index game notes and keep the index in sync with the vault
+    this.library = new GameLibrary(this.app);
+    this.library.attach(this);
+    this.excludeNoteTemplate();
+
     // Initialize API clients
     this.initializeClients();
 
@@ -42,6 +87,15 @@ export default class GameBacklogPlugin extends Plugin {
       },
     });
 
+    // Add command to add many games from a list of titles
+    this.addCommand({
+      id: 'bulk-add-games',
+      name: translate(this.settings.language, 'cmd_bulk_add'),
+      callback: () => {
+        this.openBulkAddModal();
+      },
+    });
+
     // Add command to open backlog dashboard
     this.addCommand({
       id: 'open-game-backlog',
@@ -57,36 +111,91 @@ export default class GameBacklogPlugin extends Plugin {
       name: translate(this.settings.language, 'cmd_update_status'),
       checkCallback: (checking: boolean) => {
         const file = this.app.workspace.getActiveFile();
-        if (file) {
-          const cache = this.app.metadataCache.getFileCache(file);
-          const tags = cache?.frontmatter?.tags;
-          if (Array.isArray(tags) && tags.includes('game')) {
-            if (!checking) {
-              void this.updateGameStatus(file.path);
-            }
-            return true;
+        if (file && this.library.get(file.path)) {
+          if (!checking) {
+            void this.updateGameStatus(file.path);
           }
+          return true;
         }
         return false;
       },
     });
 
+    // Add command to convert localized priorities to canonical keys
+    this.addCommand({
+      id: 'migrate-game-priorities',
+      name: translate(this.settings.language, 'cmd_migrate_priorities'),
+      callback: async () => {
+        const count = await migratePriorities(this.app, this.library);
+        new Notice(
+          translate(this.settings.language, 'migrated_priorities_notice').replace('{count}', String(count))
+        );
+        if (await migrateDashboardPriorities(this.app, this.dashboardPath())) {
+          new Notice(translate(this.settings.language, 'migrated_dashboard_notice'));
+        }
+      },
+    });
+
+    // Add command to bring old game notes up to the current frontmatter schema
+    this.addCommand({
+      id: 'upgrade-game-notes',
+      name: translate(this.settings.language, 'cmd_upgrade_notes'),
+      callback: () => {
+        this.upgradeGameNotes();
+      },
+    });
+
+    // Add command to download the remote images of existing game notes
+    this.addCommand({
+      id: 'localize-game-artwork',
+      name: translate(this.settings.language, 'cmd_localize_artwork'),
+      callback: async () => {
+        await this.localizeArtwork();
+      },
+    });
+
+    // Add command to move existing game notes to the configured folder and file names
+    this.addCommand({
+      id: 'move-game-notes',
+      name: translate(this.settings.language, 'cmd_move_notes'),
+      callback: async () => {
+        await this.moveNotes();
+      },
+    });
+
+    // Add command to turn genres, companies and franchises of existing notes into links
+    this.addCommand({
+      id: 'link-game-entities',
+      name: translate(this.settings.language, 'cmd_link_entities'),
+      callback: async () => {
+        await this.linkEntities();
+      },
+    });
+
     // Add settings tab
     this.addSettingTab(new GameBacklogSettingTab(this.app, this));
   }
 
   /**
-   * Initializes API clients with current settings.
+   * Initializes API clients with current settings and registers them as providers.
    */
   private initializeClients() {
     this.igdbClient = new IgdbClient(
       this.settings.twitchClientId,
-      this.settings.twitchClientSecret
+      this.settings.twitchClientSecret,
+      this.cache,
+      this.igdbScheduler
     );
-    this.hltbClient = new HltbClient();
+    this.hltbClient = new HltbClient(this.cache);
     this.steamGridDbClient = new SteamGridDbClient(
-      this.settings.steamGridDbApiKey
+      this.settings.steamGridDbApiKey,
+      this.cache
     );
+
+    this.providers = new ProviderRegistry();
+    this.providers.register(new IgdbProvider(this.igdbClient));
+    this.providers.register(new HltbProvider(this.hltbClient));
+    this.providers.register(new SteamGridDbProvider(this.steamGridDbClient));
   }
 
   /**
@@ -94,6 +203,9 @@ export default class GameBacklogPlugin extends Plugin {
    */
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Older versions stored the default priority as a localized label
+    this.settings.defaultPriority =
+      canonicalPriority(this.settings.defaultPriority) ?? DEFAULT_SETTINGS.defaultPriority;
   }
 
   /**
@@ -116,40 +228,78 @@ export default class GameBacklogPlugin extends Plugin {
 
     const modal = new AddGameModal(
       this.app,
-      this.igdbClient,
-      this.hltbClient,
-      this.steamGridDbClient,
+      this.providers,
       this.settings.defaultPlatform as Platform,
       this.settings.defaultPriority as Priority,
       async (data: GameData) => {
         await this.createGameNote(data);
-      }
-      ,
-      this.settings.language
+      },
+      this.settings.language,
+      this.settings.planningMetric
     );
     modal.open();
   }
 
+  /**
+   * Opens the Bulk Add modal for adding many games from a pasted list of titles.
+   */
+  private openBulkAddModal() {
+    if (!this.settings.twitchClientId || !this.settings.twitchClientSecret) {
+      new Notice(translate(this.settings.language, 'missing_twitch_keys'));
+      return;
+    }
+
+    new BulkAddModal(
+      this.app,
+      this.providers,
+      this.settings.defaultPlatform as Platform,
+      this.settings.defaultPriority as Priority,
+      async (data: GameData) => {
+        await this.writeGameNote(data);
+      },
+      this.settings.language,
+      this.settings.planningMetric
+    ).open();
+  }
+
   /**
    * Creates a new game note in the vault with the provided game data.
    * @param data - The game data to create a note for
    */
   private async createGameNote(data: GameData) {
-    const fileName = generateFileName(data.title);
-    const content = generateGameNote(data, this.settings.language);
+    // Let the user decide what to do with a game that may already have a note
+    const duplicates = this.library.findDuplicates(data.igdbId, data.title);
+    if (duplicates.length > 0) {
+      new DuplicateGameModal(
+        this.app,
+        data.title,
+        duplicates,
+        (choice, match) => void this.resolveDuplicate(choice, match, data),
+        this.settings.language
+      ).open();
+      return;
+    }
 
-    // Check if file already exists
-    const existingFile = this.app.vault.getAbstractFileByPath(fileName);
+    // Open the existing note instead of overwriting it
+    const existingFile = this.app.vault.getAbstractFileByPath(generateNotePath(data, this.noteNaming()));
     if (existingFile && existingFile instanceof TFile) {
       new Notice(translate(this.settings.language, 'note_exists_notice').replace('{title}', data.title));
-      // Open the existing file
       const leaf = this.app.workspace.getLeaf(false);
       await leaf.openFile(existingFile);
       return;
     }
 
+    await this.addGameNote(data);
+  }
+
+  /**
+   * Writes a game note and opens it, reporting failures to the user.
+   * @param data - The game data to create a note for
+   * @param separate - Whether to add the game next to an existing note for it
+   */
+  private async addGameNote(data: GameData, separate = false) {
     try {
-      const file = await this.app.vault.create(fileName, content);
+      const file = await this.writeGameNote(data, separate);
       new Notice(translate(this.settings.language, 'added_note_notice').replace('{title}', data.title));
 
       // Open the new note
@@ -157,20 +307,236 @@ export default class GameBacklogPlugin extends Plugin {
       await leaf.openFile(file);
     } catch (error) {
       console.error('Failed to create game note:', error);
-      new Notice(translate(this.settings.language, 'create_note_failed'));
+      new Notice(
+        error instanceof TemplateError
+          ? translate(this.settings.language, 'template_error_notice').replace('{error}', error.message)
+          : translate(this.settings.language, 'create_note_failed')
+      );
+    }
+  }
+
+  /**
+   * Applies the user's choice for a game that may already have a note.
+   * @param choice - Open the existing note, merge into it, or add a separate note
+   * @param match - The existing note
+   * @param data - The game data being added
+   */
+  private async resolveDuplicate(choice: DuplicateChoice, match: DuplicateMatch, data: GameData) {
+    if (choice === 'add') {
+      await this.addGameNote(data, true);
+      return;
+    }
+
+    const { file } = match.entry;
+    if (choice === 'merge') {
+      try {
+        const filled = await mergeIntoNote(this.app, file, await this.prepareGameData(data));
+        new Notice(
+          translate(this.settings.language, 'merged_note_notice')
+            .replace('{count}', String(filled.length))
+            .replace('{path}', file.path)
+        );
+      } catch (error) {
+        console.error('Failed to merge game data:', error);
+        new Notice(translate(this.settings.language, 'merge_note_failed'));
+      }
+    }
+    const leaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(file);
+  }
+
+  /**
+   * Writes a game note to the vault without opening it.
+   * @param data - The game data to create a note for
+   * @param separate - Whether to add the game next to an existing note for it,
+   *   as a separate playthrough, under a numbered file name
+   * @returns The created file
+   * @throws {Error} If a note for the game already exists or the file cannot be created
+   */
+  private async writeGameNote(data: GameData, separate = false): Promise<TFile> {
+    let fileName = generateNotePath(data, this.noteNaming());
+    if (separate) {
+      fileName = availablePath(this.app, fileName);
+    } else {
+      const [existing] = data.igdbId !== null ? this.library.byIgdbId(data.igdbId) : [];
+      if (existing) {
+        throw new Error(
+          translate(this.settings.language, 'duplicate_exists_notice')
+            .replace('{title}', data.title)
+            .replace('{path}', existing.file.path)
+        );
+      }
+      if (this.app.vault.getAbstractFileByPath(fileName)) {
+        throw new Error(translate(this.settings.language, 'note_exists_notice').replace('{title}', data.title));
+      }
     }
+    const template = await this.loadNoteTemplate();
+    const content = generateGameNote(
+      await this.prepareGameData(data),
+      this.settings.language,
+      template,
+      this.noteMedia()
+    );
+    await ensureFolder(this.app, parentFolder(fileName));
+    return await this.app.vault.create(fileName, content);
+  }
+
+  /**
+   * Gets where new game notes go and how they are named.
+   * @returns Naming settings
+   */
+  private noteNaming(): NoteNaming {
+    return {
+      folder: this.settings.notesFolder,
+      pattern: this.settings.fileNamePattern || DEFAULT_NOTE_NAMING.pattern,
+      emoji: this.settings.fileNameEmoji,
+    };
+  }
+
+  /**
+   * Gets the screenshots and trailers new game notes include.
+   * @returns Media settings
+   */
+  private noteMedia(): NoteMedia {
+    return {
+      screenshots: this.settings.showScreenshots ? this.settings.screenshotCount : 0,
+      screenshotSize: this.settings.screenshotSize,
+      trailers: this.settings.showTrailers,
+    };
+  }
+
+  /**
+   * Gets the vault path of the user's game note template.
+   * @returns Note path, or null for the built-in layout
+   */
+  private noteTemplatePath(): string | null {
+    return this.settings.noteTemplate ? toNotePath(this.settings.noteTemplate) : null;
+  }
+
+  /**
+   * Keeps the note template out of the game library. It carries the game tag
+   * so that new notes do, but is not a game itself.
+   */
+  excludeNoteTemplate(): void {
+    const path = this.noteTemplatePath();
+    this.library.exclude(path ? [path] : []);
+  }
+
+  /**
+   * Reads the user's game note template, if one is configured.
+   * @returns Template text, or null for the built-in layout
+   * @throws {TemplateError} If the template note does not exist
+   */
+  private async loadNoteTemplate(): Promise<string | null> {
+    const path = this.noteTemplatePath();
+    if (!path) return null;
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new TemplateError(translate(this.settings.language, 'template_missing').replace('{path}', path));
+    }
+    return await this.app.vault.read(file);
+  }
+
+  /**
+   * Gets the folders of genre, company and franchise notes.
+   * @returns Entity note folders
+   */
+  private entityFolders(): EntityFolders {
+    return {
+      genre: this.settings.genreFolder,
+      company: this.settings.companyFolder,
+      franchise: this.settings.franchiseFolder,
+    };
+  }
+
+  /**
+   * Downloads the game's artwork and screenshots into the vault and links its
+   * genres, companies and franchises to their notes, when the settings ask for it.
+   * @param data - The game data about to be saved
+   * @returns The game data, pointing at local images and entity notes where possible
+   */
+  private async prepareGameData(data: GameData): Promise<GameData> {
+    let prepared = data;
+    const store = new ArtworkStore(this.app, this.settings.artworkFolder);
+    if (this.settings.downloadArtwork) {
+      prepared = await store.localizeGameData(prepared);
+    }
+    const media = this.noteMedia();
+    if (this.settings.downloadScreenshots && media.screenshots > 0) {
+      prepared = await store.localizeScreenshots(prepared, media);
+    }
+    if (this.settings.linkEntities) {
+      const folders = this.entityFolders();
+      await ensureEntityNotes(this.app, entitiesOf(prepared), folders, this.settings.language);
+      prepared = linkGameData(prepared, folders);
+    }
+    return prepared;
+  }
+
+  /**
+   * Downloads the remote images of all game notes and points the notes at the local copies.
+   */
+  private async localizeArtwork() {
+    const lang = this.settings.language;
+    const store = new ArtworkStore(this.app, this.settings.artworkFolder);
+    const report = await localizeLibraryArtwork(store, this.library);
+    const key = report.failed.length ? 'localize_artwork_failed_notice' : 'localize_artwork_notice';
+    new Notice(
+      translate(lang, key)
+        .replace('{images}', String(report.images))
+        .replace('{count}', String(report.notes))
+        .replace('{failed}', String(report.failed.length))
+    );
+  }
+
+  /**
+   * Moves existing game notes to the configured folder and file names.
+   */
+  private async moveNotes() {
+    const lang = this.settings.language;
+    const report = await moveGameNotes(this.app, this.library, this.noteNaming());
+    const key = report.failed.length ? 'moved_notes_failed_notice' : 'moved_notes_notice';
+    new Notice(
+      translate(lang, key)
+        .replace('{count}', String(report.moved))
+        .replace('{failed}', String(report.failed.length))
+    );
+  }
+
+  /**
+   * Links the genres, companies and franchises of existing game notes to their notes.
+   */
+  private async linkEntities() {
+    const lang = this.settings.language;
+    const report = await linkLibraryEntities(this.app, this.library, this.entityFolders(), lang);
+    const key = report.failed.length ? 'linked_entities_failed_notice' : 'linked_entities_notice';
+    new Notice(
+      translate(lang, key)
+        .replace('{count}', String(report.notes))
+        .replace('{created}', String(report.created))
+        .replace('{failed}', String(report.failed.length))
+    );
+  }
+
+  /**
+   * Gets the vault path of the backlog dashboard.
+   * @returns Note path
+   */
+  private dashboardPath(): string {
+    return toNotePath(this.settings.dashboardPath || DEFAULT_SETTINGS.dashboardPath);
   }
 
   /**
    * Opens or creates the backlog dashboard file.
    */
   private async openBacklogDashboard() {
-    const dashboardPath = 'Video Game Backlog.md';
+    const dashboardPath = this.dashboardPath();
     let file = this.app.vault.getAbstractFileByPath(dashboardPath);
 
     if (!file) {
       // Create the dashboard if it doesn't exist
       const content = this.generateBacklogDashboard();
+      await ensureFolder(this.app, parentFolder(dashboardPath));
       file = await this.app.vault.create(dashboardPath, content);
       new Notice(translate(this.settings.language, 'dashboard_created_notice'));
     }
@@ -181,6 +547,18 @@ export default class GameBacklogPlugin extends Plugin {
     }
   }
 
+  /**
+   * Writes the planning time setting into the dashboard's frontmatter, which
+   * its hours-to-clear total reads, so the dashboard follows the setting.
+   */
+  async updateDashboardPlanningMetric(): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(this.dashboardPath());
+    if (!(file instanceof TFile)) return;
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      frontmatter.planning_metric = this.settings.planningMetric;
+    });
+  }
+
   /**
    * Generates the content for the backlog dashboard file.
    * @returns The markdown content for the dashboard
@@ -241,17 +619,22 @@ export default class GameBacklogPlugin extends Plugin {
     const completedExpr = toExpr(listCompleted);
       const summaryExpr = toExpr(summaryT);
 
-    // priority labels (localized/stored values)
-    const pMust = translate(lang, 'priority_must_play');
-    const pWill = translate(lang, 'priority_will_get_around_to');
-    const pPlaying = translate(lang, 'priority_playing');
-    const pCompleted = translate(lang, 'priority_completed');
+    // canonical priority keys, as stored in frontmatter
+    const pMust: Priority = 'must_play';
+    const pWill: Priority = 'will_get_around_to';
+    const pPlaying: Priority = 'playing';
+    const pCompleted: Priority = 'completed';
+
+    // game notes, leaving out the note template, which also carries the game tag
+    const template = this.noteTemplatePath();
+    const source = template ? `#game AND -${JSON.stringify(template)}` : '#game';
 
     const content = `---
 tags:
   - dashboard
   - gaming
 obsidianUIMode: preview
+planning_metric: ${this.settings.planningMetric}
 ---
 
 # ${translate(lang, 'dashboard_title')}
@@ -259,10 +642,13 @@ obsidianUIMode: preview
 ## ${translate(lang, 'dashboard_at_a_glance')}
 
 \`\`\`dataviewjs
-const games = dv.pages('#game');
+const games = dv.pages(${JSON.stringify(source)});
 const backlog = games.where(p => p.priority === ${JSON.stringify(pMust)} || p.priority === ${JSON.stringify(pWill)});
 const backlogCount = backlog.length;
-const totalHours = Math.round(backlog.array().reduce((sum, p) => sum + (p.hltb_hours || 0), 0));
+const planningFields = ${JSON.stringify(PLANNING_FIELDS)};
+const defaultMetric = dv.current().planning_metric ?? ${JSON.stringify(this.settings.planningMetric)};
+const planningHours = p => p[planningFields[p.planning_metric] ?? planningFields[defaultMetric]] || p.hltb_hours || 0;
+const totalHours = Math.round(backlog.array().reduce((sum, p) => sum + planningHours(p), 0));
 const completed = games.where(p => p.priority === ${JSON.stringify(pCompleted)}).length;
 const playing = games.where(p => p.priority === ${JSON.stringify(pPlaying)}).length;
 
@@ -275,7 +661,7 @@ const playing = games.where(p => p.priority === ${JSON.stringify(pPlaying)}).len
 
 \`\`\`dataview
 LIST WITHOUT ID ${nowPlayingExpr}
-FROM #game
+FROM ${source}
 WHERE priority = ${JSON.stringify(pPlaying)}
 \`\`\`
 
@@ -292,7 +678,7 @@ TABLE WITHOUT ID
   hltb_hours + "h" AS "${tableTime}",
   efficiency AS "${tableValue}",
   platform AS "${tableOn}"
-FROM #game
+FROM ${source}
 WHERE priority = ${JSON.stringify(pMust)}
 SORT efficiency DESC
 LIMIT 5
@@ -305,7 +691,7 @@ LIMIT 5
 ### ${translate(lang, 'dashboard_must_play')}
 \`\`\`dataview
 LIST WITHOUT ID ${mustPlayExpr}
-FROM #game
+FROM ${source}
 WHERE priority = ${JSON.stringify(pMust)}
 SORT efficiency DESC
 \`\`\`
@@ -313,7 +699,7 @@ SORT efficiency DESC
 ### ${translate(lang, 'dashboard_eventually')}
 \`\`\`dataview
 LIST WITHOUT ID ${eventuallyExpr}
-FROM #game
+FROM ${source}
 WHERE priority = ${JSON.stringify(pWill)}
 SORT efficiency DESC
 \`\`\`
@@ -324,7 +710,7 @@ SORT efficiency DESC
 
 \`\`\`dataview
 LIST WITHOUT ID ${completedExpr}
-FROM #game
+FROM ${source}
 WHERE priority = ${JSON.stringify(pCompleted)}
 SORT file.mtime DESC
 \`\`\`
@@ -337,6 +723,33 @@ SORT file.mtime DESC
       .replace(/"\\\$\{completed\}"/g, '**${completed}**');
   }
 
+  /**
+   * Previews pending frontmatter schema upgrades and applies them once confirmed.
+   */
+  private upgradeGameNotes() {
+    const lang = this.settings.language;
+    const upgrades = planUpgrades(this.library);
+    if (upgrades.length === 0) {
+      new Notice(translate(lang, 'upgrade_none_notice'));
+      return;
+    }
+
+    new UpgradeNotesModal(
+      this.app,
+      upgrades,
+      async () => {
+        const report = await applyUpgrades(this.app, upgrades);
+        const key = report.failed.length ? 'upgrade_failed_notice' : 'upgrade_done_notice';
+        new Notice(
+          translate(lang, key)
+            .replace('{count}', String(report.upgraded))
+            .replace('{failed}', String(report.failed.length))
+        );
+      },
+      lang
+    ).open();
+  }
+
   /**
    * Updates the status of a game in the backlog.
    * @param filePath - Path to the game note file
@@ -348,7 +761,9 @@ SORT file.mtime DESC
     const cache = this.app.metadataCache.getFileCache(file);
     if (!cache?.frontmatter) return;
 
-    const initialPriority = typeof cache.frontmatter.priority === 'string' ? cache.frontmatter.priority : DEFAULT_SETTINGS.defaultPriority;
+    const stored = cache.frontmatter.priority;
+    const initialPriority =
+      (typeof stored === 'string' && canonicalPriority(stored)) || this.settings.defaultPriority;
 
     // Create a simple modal to select new status
     const { Modal, Setting } = await import('obsidian');
@@ -367,6 +782,7 @@ SORT file.mtime DESC
        * @param app - Obsidian app instance
        * @param priority - Initial priority value
        * @param onSubmit - Callback when status is updated
+       * @param language - UI language code
        */
       constructor(
         app: App,
@@ -391,16 +807,8 @@ SORT file.mtime DESC
         contentEl.createEl('h2', { text: translate(this.language, 'status_modal_title') });
 
         new Setting(contentEl).setName(translate(this.language, 'status_label')).addDropdown((dropdown) => {
-          const canonical = [
-            'must_play',
-            'will_get_around_to',
-            'playing',
-            'completed',
-            'dropped',
-          ];
-          canonical.forEach((key) => {
-            const stored = translate(this.language, `priority_${key}`);
-            dropdown.addOption(stored, stored);
+          PRIORITIES.forEach((key) => {
+            dropdown.addOption(key, translatePriority(this.language, key));
           });
           dropdown.setValue(this.newPriority);
           dropdown.onChange((value) => {
@@ -433,25 +841,20 @@ SORT file.mtime DESC
       await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
         frontmatter.priority = priority;
       });
-      new Notice(`${translate(this.settings.language, 'updated_status_notice')} "${priority}"`);
-    });
-    // pass language for translations inside the modal
-    const _modal = modal as any;
-    // If constructor supports language, create with language (older TS may have already created it)
-    // For safety, recreate properly with language
-    const modalWithLang = new (StatusModal as any)(this.app, initialPriority, async (priority: string) => {
-      await this.app.fileManager.processFrontMatter(file, (frontmatter: any) => {
-        frontmatter.priority = priority;
-      });
-      new Notice(`${translate(this.settings.language, 'updated_status_notice')} "${priority}"`);
+      new Notice(
+        `${translate(this.settings.language, 'updated_status_notice')} "${translatePriority(this.settings.language, priority)}"`
+      );
     }, this.settings.language);
-    modalWithLang.open();
+    modal.open();
   }
 
   /**
    * Cleans up resources when the plugin is unloaded.
    */
   onunload(): void {
+    // Persist pending cache writes
+    void this.cache?.flush();
+
     // Clean up injected styles
     const styleEl = document.getElementById('game-backlog-modal-styles');
     if (styleEl) {
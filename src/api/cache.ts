@@ -0,0 +1,291 @@
+import type { DataAdapter } from 'obsidian';
+
+import { TwitchAuthError } from './igdb';
+
+// Declare global console for ESLint
+declare const console: Console;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Time-to-live per cache namespace, in milliseconds.
+ * Searches go stale quicker than data about a specific game.
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  'igdb:search': DAY,
+  'igdb:game': 7 * DAY,
+  'hltb:search': 7 * DAY,
+  'hltb:game': 7 * DAY,
+  'sgdb:search': 7 * DAY,
+  'sgdb:artwork': 7 * DAY,
+};
+
+const FALLBACK_TTL = DAY;
+const SAVE_DELAY = 2000;
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  lastAccess: number;
+}
+
+interface CacheFile {
+  entries: Record<string, CacheEntry>;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Persistence backend for the response cache.
+ */
+export interface CacheStorage {
+  /**
+   * Reads the serialized cache.
+   * @returns Serialized cache or null if nothing is stored yet
+   */
+  read(): Promise<string | null>;
+
+  /**
+   * Writes the serialized cache.
+   * @param data - Serialized cache
+   */
+  write(data: string): Promise<void>;
+}
+
+/**
+ * Returns the current time in milliseconds.
+ */
+export type Clock = () => number;
+
+/**
+ * Performs the request whose response gets cached.
+ */
+export type Fetcher<T> = () => Promise<T>;
+
+export interface ResponseCacheOptions {
+  maxEntries?: number;
+  ttls?: Record<string, number>;
+  now?: Clock;
+}
+
+type FileAdapter = Pick<DataAdapter, 'exists' | 'read' | 'write'>;
+
+/**
+ * Stores the cache as a JSON file through the vault adapter,
+ * typically inside the plugin's data folder.
+ */
+export class AdapterCacheStorage implements CacheStorage {
+  private adapter: FileAdapter;
+  private path: string;
+
+  /**
+   * Creates a new adapter-backed cache storage.
+   * @param adapter - Vault data adapter
+   * @param path - Path of the cache file, relative to the vault root
+   */
+  constructor(adapter: FileAdapter, path: string) {
+    this.adapter = adapter;
+    this.path = path;
+  }
+
+  /**
+   * Reads the cache file.
+   * @returns File contents or null if the file does not exist
+   */
+  async read(): Promise<string | null> {
+    if (!(await this.adapter.exists(this.path))) return null;
+    return this.adapter.read(this.path);
+  }
+
+  /**
+   * Writes the cache file.
+   * @param data - Serialized cache
+   */
+  async write(data: string): Promise<void> {
+    await this.adapter.write(this.path, data);
+  }
+}
+
+/**
+ * Checks whether a failed fetch may be answered with an expired entry.
+ * Network failures, rate limiting and server errors may; rejected credentials
+ * and other client errors may not, so the user gets to see them.
+ * @param error - Error thrown by the fetcher
+ * @returns True if serving stale data is acceptable
+ */
+function allowsStaleFallback(error: unknown): boolean {
+  if (error instanceof TwitchAuthError) return false;
+  const status: unknown = (error as { status?: unknown } | null)?.status;
+  return typeof status !== 'number' || status === 429 || status >= 500;
+}
+
+/**
+ * Cache for API responses with per-namespace TTLs and an entry cap.
+ * Expired entries are still served when the network request fails,
+ * so known games keep working offline.
+ */
+export class ResponseCache {
+  private storage: CacheStorage | null;
+  private maxEntries: number;
+  private ttls: Record<string, number>;
+  private now: Clock;
+
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates a new response cache.
+   * @param storage - Persistence backend, or null for a memory-only cache
+   * @param options - Cache options
+   * @param options.maxEntries - Maximum number of entries kept (default: 500)
+   * @param options.ttls - TTL overrides per namespace, in milliseconds
+   * @param options.now - Clock used for expiry (default: Date.now)
+   */
+  constructor(storage: CacheStorage | null, options: ResponseCacheOptions = {}) {
+    this.storage = storage;
+    this.maxEntries = options.maxEntries ?? 500;
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Loads persisted entries and statistics from storage.
+   */
+  async load(): Promise<void> {
+    if (!this.storage) return;
+    try {
+      const raw = await this.storage.read();
+      if (!raw) return;
+      const data = JSON.parse(raw) as CacheFile;
+      this.entries = new Map(Object.entries(data.entries ?? {}));
+      this.hits = data.hits ?? 0;
+      this.misses = data.misses ?? 0;
+    } catch (error) {
+      console.warn('Failed to load response cache, starting empty:', error);
+      this.entries.clear();
+    }
+  }
+
+  /**
+   * Returns a cached value, fetching and storing it on a miss.
+   * Falls back to an expired entry when the fetch fails because of the
+   * network, rate limiting or a server error.
+   * @param namespace - Cache namespace (e.g. 'igdb:search'), selects the TTL
+   * @param key - Key identifying the request within the namespace
+   * @param fetcher - Function performing the actual request
+   * @returns Cached or freshly fetched value
+   */
+  async getOrFetch<T>(namespace: string, key: string, fetcher: Fetcher<T>): Promise<T> {
+    const id = `${namespace}|${key}`;
+    const entry = this.entries.get(id);
+    const now = this.now();
+
+    if (entry && now - entry.storedAt < this.ttlFor(namespace)) {
+      this.hits++;
+      entry.lastAccess = now;
+      this.scheduleSave();
+      return entry.value as T;
+    }
+
+    this.misses++;
+    try {
+      const value = await fetcher();
+      this.set(id, value);
+      return value;
+    } catch (error) {
+      if (entry && allowsStaleFallback(error)) {
+        console.warn(`Serving stale cache entry for ${namespace}:`, error);
+        entry.lastAccess = now;
+        return entry.value as T;
+      }
+      throw error;
+    } finally {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Removes all entries and resets statistics.
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    await this.flush();
+  }
+
+  /**
+   * Gets cache statistics.
+   * @returns Hit, miss and entry counts
+   */
+  getStats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, entries: this.entries.size };
+  }
+
+  /**
+   * Writes pending changes to storage immediately.
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.storage) return;
+
+    const entries: Record<string, CacheEntry> = {};
+    this.entries.forEach((entry, id) => {
+      entries[id] = entry;
+    });
+    const data: CacheFile = { entries, hits: this.hits, misses: this.misses };
+    try {
+      await this.storage.write(JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to save response cache:', error);
+    }
+  }
+
+  /**
+   * Stores a value, evicting the least recently used entries past the cap.
+   * @param id - Full entry identifier
+   * @param value - Value to store
+   */
+  private set(id: string, value: unknown): void {
+    const now = this.now();
+    this.entries.set(id, { value, storedAt: now, lastAccess: now });
+
+    if (this.entries.size <= this.maxEntries) return;
+    const byAge = [...this.entries.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [oldId] of byAge.slice(0, this.entries.size - this.maxEntries)) {
+      this.entries.delete(oldId);
+    }
+  }
+
+  /**
+   * Gets the TTL for a namespace.
+   * @param namespace - Cache namespace
+   * @returns TTL in milliseconds
+   */
+  private ttlFor(namespace: string): number {
+    return this.ttls[namespace] ?? FALLBACK_TTL;
+  }
+
+  /**
+   * Debounces writes so bursts of lookups produce a single save.
+   */
+  private scheduleSave(): void {
+    if (!this.storage || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.flush();
+    }, SAVE_DELAY);
+  }
+}
@@ -1,5 +1,9 @@
 import { requestUrl } from 'obsidian';
 
+import { normalizeTitle, titleSimilarity } from '../providers/lookup';
+
+import type { ResponseCache } from './cache';
+
 const HLTB_BASE_URL = 'https://howlongtobeat.com';
 const USER_AGENT =
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36';
@@ -16,10 +20,18 @@ export interface HltbResult {
   completionistHours: number;
 }
 
+export interface HltbCandidate extends HltbResult {
+  confidence: number; // Title similarity, 1 for an exact match
+}
+
 interface HltbSearchResponse {
   data: HltbGameData[];
 }
 
+interface HltbGamePage {
+  props?: { pageProps?: { game?: { data?: { game?: HltbGameData[] } } } };
+}
+
 interface HltbGameData {
   game_id: number;
   game_name: string;
@@ -38,6 +50,15 @@ interface HltbGameData {
 export class HltbClient {
   private authToken: string | null = null;
   private searchUrl: string = '/api/search';
+  private cache: ResponseCache | null;
+
+  /**
+   * Creates a new HLTB client.
+   * @param cache - Optional response cache
+   */
+  constructor(cache: ResponseCache | null = null) {
+    this.cache = cache;
+  }
 
   /**
    * Fetches authentication token from HLTB API.
@@ -127,91 +148,139 @@ export class HltbClient {
   /**
    * Searches for a game on HLTB and returns completion time data.
    * @param gameName - Name of the game to search for
-   * @returns HLTB result with completion times or null if not found
+   * @returns Best-ranked HLTB result or null if not found
    */
   async searchGame(gameName: string): Promise<HltbResult | null> {
-    try {
-      if (!(await this.ensureInitialized())) {
-        return null;
-      }
-
-      const payload = {
-        searchType: 'games',
-        searchTerms: gameName.split(' '),
-        searchPage: 1,
-        size: 20,
-        searchOptions: {
-          games: {
-            userId: 0,
-            platform: '',
-            sortCategory: 'name',
-            rangeCategory: 'main',
-            rangeTime: { min: 0, max: 0 },
-            gameplay: { perspective: '', flow: '', genre: '', difficulty: '' },
-            modifier: 'hide_dlc',
-          },
-          users: {},
-          filter: '',
-          sort: 0,
-          randomizer: 0,
-        },
-      };
-
-      const response = await requestUrl({
-        url: HLTB_BASE_URL + this.searchUrl,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': USER_AGENT,
-          Origin: HLTB_BASE_URL,
-          Referer: `${HLTB_BASE_URL  }/`,
-          'x-auth-token': this.authToken!,
-        },
-        body: JSON.stringify(payload),
-      });
+    const [best] = await this.searchCandidates(gameName, 1);
+    if (!best) return null;
+    const { confidence: _confidence, ...result } = best;
+    return result;
+  }
 
-      const data = response.json as HltbSearchResponse;
+  /**
+   * Searches for a game on HLTB and ranks the results by title similarity.
+   * Equally similar results are ranked by number of completions.
+   * @param gameName - Name of the game to search for
+   * @param limit - Maximum number of candidates (default: 5)
+   * @returns Candidates, best first; empty if none were found or the search failed
+   */
+  async searchCandidates(gameName: string, limit: number = 5): Promise<HltbCandidate[]> {
+    try {
+      const data = this.cache
+        ? await this.cache.getOrFetch('hltb:search', normalizeTitle(gameName), () =>
+            this.fetchSearch(gameName)
+          )
+        : await this.fetchSearch(gameName);
       if (!data.data || data.data.length === 0) {
-        return null;
-      }
-
-      const normalizedSearchName = this.normalize(gameName);
-      let bestMatch = data.data.find(
-        (g) => this.normalize(g.game_name) === normalizedSearchName
-      );
-
-      if (!bestMatch) {
-        bestMatch = data.data.reduce((best, current) => {
-          const bestDist = this.levenshtein(this.normalize(best.game_name), normalizedSearchName);
-          const currentDist = this.levenshtein(this.normalize(current.game_name), normalizedSearchName);
-          if (currentDist === bestDist) {
-            return current.comp_all_count > best.comp_all_count ? current : best;
-          }
-          return currentDist < bestDist ? current : best;
-        }, data.data[0]);
+        return [];
       }
 
-      return this.mapToResult(bestMatch);
+      return data.data
+        .map((game) => ({ game, confidence: titleSimilarity(game.game_name, gameName) }))
+        .sort((a, b) => b.confidence - a.confidence || b.game.comp_all_count - a.game.comp_all_count)
+        .slice(0, limit)
+        .map(({ game, confidence }) => ({
+          ...this.mapToResult(game),
+          confidence: Math.round(confidence * 100) / 100,
+        }));
     } catch (error) {
       console.error('HLTB search error:', error);
       this.authToken = null;
+      return [];
+    }
+  }
+
+  /**
+   * Gets completion times for a specific HLTB game.
+   * @param gameId - HLTB game identifier, as in howlongtobeat.com/game/{id}
+   * @returns HLTB result with completion times or null if not found
+   */
+  async getGameById(gameId: number): Promise<HltbResult | null> {
+    try {
+      const game = this.cache
+        ? await this.cache.getOrFetch('hltb:game', String(gameId), () => this.fetchGamePage(gameId))
+        : await this.fetchGamePage(gameId);
+      return game ? this.mapToResult(game) : null;
+    } catch (error) {
+      console.error('HLTB game error:', error);
       return null;
     }
   }
 
   /**
-   * Normalizes a string for comparison by removing accents and special characters.
-   * @param str - String to normalize
-   * @returns Normalized string
+   * Fetches a game page and extracts its data from the embedded Next.js payload.
+   * @param gameId - HLTB game identifier
+   * @returns Raw game data or null if the page holds none
+   * @throws {Error} If the request fails or the page cannot be parsed
+   */
+  private async fetchGamePage(gameId: number): Promise<HltbGameData | null> {
+    const response = await requestUrl({
+      url: `${HLTB_BASE_URL}/game/${gameId}`,
+      method: 'GET',
+      headers: {
+        'User-Agent': USER_AGENT,
+        Referer: `${HLTB_BASE_URL}/`,
+      },
+    });
+
+    const match = response.text.match(
+      /<script id="__NEXT_DATA__" type="application\/json">([\s\S]*?)<\/script>/
+    );
+    if (!match) {
+      throw new Error('HLTB game page has no data');
+    }
+
+    const page = JSON.parse(match[1]) as HltbGamePage;
+    return page.props?.pageProps?.game?.data?.game?.[0] ?? null;
+  }
+
+  /**
+   * Sends a search request to HLTB.
+   * @param gameName - Name of the game to search for
+   * @returns Raw search response
+   * @throws {Error} If the client could not initialize or the request fails
    */
-  private normalize(str: string): string {
-    return str
-      .toLowerCase()
-      .normalize('NFD')
-      .replace(/[\u0300-\u036f]/g, '')
-      .replace(/[^a-z0-9\s]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim();
+  private async fetchSearch(gameName: string): Promise<HltbSearchResponse> {
+    if (!(await this.ensureInitialized())) {
+      throw new Error('HLTB initialization failed');
+    }
+
+    const payload = {
+      searchType: 'games',
+      searchTerms: gameName.split(' '),
+      searchPage: 1,
+      size: 20,
+      searchOptions: {
+        games: {
+          userId: 0,
+          platform: '',
+          sortCategory: 'name',
+          rangeCategory: 'main',
+          rangeTime: { min: 0, max: 0 },
+          gameplay: { perspective: '', flow: '', genre: '', difficulty: '' },
+          modifier: 'hide_dlc',
+        },
+        users: {},
+        filter: '',
+        sort: 0,
+        randomizer: 0,
+      },
+    };
+
+    const response = await requestUrl({
+      url: HLTB_BASE_URL + this.searchUrl,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        Origin: HLTB_BASE_URL,
+        Referer: `${HLTB_BASE_URL  }/`,
+        'x-auth-token': this.authToken!,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    return response.json as HltbSearchResponse;
   }
 
   /**
@@ -239,28 +308,4 @@ export class HltbClient {
     if (!seconds || seconds === 0) return 0;
     return Math.round((seconds / 3600) * 10) / 10;
   }
-
-  /**
-   * Calculates Levenshtein distance between two strings for fuzzy matching.
-   * @param s1 - First string
-   * @param s2 - Second string
-   * @returns Distance between strings
-   */
-  private levenshtein(s1: string, s2: string): number {
-    const m = s1.length;
-    const n = s2.length;
-    const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-    for (let i = 0; i <= m; i++) dp[i][0] = i;
-    for (let j = 0; j <= n; j++) dp[0][j] = j;
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        if (s1[i - 1] === s2[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1];
-        } else {
-          dp[i][j] = 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
-        }
-      }
-    }
-    return dp[m][n];
-  }
 }
@@ -1,8 +1,48 @@
 import { requestUrl } from 'obsidian';
 
+import type { ResponseCache } from './cache';
+import { IgdbQuery } from './igdbQuery';
+import type { IgdbCondition } from './igdbQuery';
+import { HttpError, IGDB_SCHEDULER_OPTIONS, parseRetryAfter, RequestScheduler } from './scheduler';
+
 const TWITCH_AUTH_URL = 'https://id.twitch.tv/oauth2/token';
 const IGDB_BASE_URL = 'https://api.igdb.com/v4';
 
+// external_games.category value for Steam
+const STEAM_EXTERNAL_CATEGORY = 1;
+
+const SEARCH_FIELDS = [
+  'id', 'name', 'slug', 'summary', 'aggregated_rating', 'aggregated_rating_count',
+  'total_rating', 'first_release_date', 'cover.image_id', 'cover.url',
+  'genres.name', 'genres.slug', 'platforms.name', 'platforms.abbreviation',
+];
+
+const DETAIL_FIELDS = [
+  'id', 'name', 'slug', 'summary', 'storyline', 'rating', 'aggregated_rating',
+  'aggregated_rating_count', 'total_rating', 'first_release_date',
+  'cover.image_id', 'cover.url', 'genres.name', 'genres.slug',
+  'platforms.name', 'platforms.abbreviation', 'websites.url', 'websites.category',
+  'involved_companies.company.name', 'involved_companies.developer', 'involved_companies.publisher',
+  'franchises.name', 'collections.name', 'game_modes.name', 'themes.name',
+  'player_perspectives.name', 'game_engines.name', 'keywords.name',
+  'external_games.category', 'external_games.uid', 'external_games.url',
+  'screenshots.image_id', 'artworks.image_id', 'videos.name', 'videos.video_id',
+];
+
+/**
+ * Error raised when the Twitch credentials are missing or rejected.
+ */
+export class TwitchAuthError extends Error {
+  /**
+   * Creates a new authentication error.
+   * @param message - Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'TwitchAuthError';
+  }
+}
+
 export interface IgdbGame {
   id: number;
   name: string;
@@ -18,6 +58,18 @@ export interface IgdbGame {
   genres?: IgdbGenre[];
   platforms?: IgdbPlatform[];
   websites?: IgdbWebsite[];
+  external_games?: IgdbExternalGame[];
+  screenshots?: IgdbImage[];
+  artworks?: IgdbImage[]; // Promotional art, used when a game has few screenshots
+  videos?: IgdbVideo[];
+  involved_companies?: IgdbInvolvedCompany[];
+  franchises?: IgdbNamed[];
+  collections?: IgdbNamed[];
+  game_modes?: IgdbNamed[];
+  themes?: IgdbNamed[];
+  player_perspectives?: IgdbNamed[];
+  game_engines?: IgdbNamed[];
+  keywords?: IgdbNamed[];
 }
 
 export interface IgdbCover {
@@ -28,6 +80,20 @@ export interface IgdbCover {
   height?: number;
 }
 
+// Screenshot or artwork
+export interface IgdbImage {
+  id: number;
+  image_id: string;
+  width?: number;
+  height?: number;
+}
+
+export interface IgdbVideo {
+  id: number;
+  name?: string; // Such as "Trailer" or "Gameplay video"
+  video_id: string; // YouTube video id
+}
+
 export interface IgdbGenre {
   id: number;
   name: string;
@@ -40,12 +106,34 @@ export interface IgdbPlatform {
   abbreviation?: string;
 }
 
+// Franchises, collections, modes, themes, perspectives, engines and keywords
+export interface IgdbNamed {
+  id: number;
+  name: string;
+}
+
+export interface IgdbInvolvedCompany {
+  id: number;
+  company: IgdbNamed;
+  developer: boolean;
+  publisher: boolean;
+}
+
 export interface IgdbWebsite {
   id: number;
   url: string;
   category: number; // 1=official, 4=twitter, 13=steam, etc.
 }
 
+// The game's entry on a store or service
+export interface IgdbExternalGame {
+  id: number;
+  category?: number; // 1=steam, 5=gog, 26=epic, etc.
+  uid?: string; // Identifier on that store, such as the Steam app id
+  url?: string;
+  game?: number; // IGDB id of the game, when queried from /external_games
+}
+
 /**
  * Client for interacting with the IGDB (Internet Game Database) API.
  * Handles authentication, game search, and data retrieval.
@@ -55,20 +143,32 @@ export class IgdbClient {
   private clientSecret: string;
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
+  private cache: ResponseCache | null;
+  private scheduler: RequestScheduler;
 
   /**
    * Creates a new IGDB client.
    * @param clientId - Twitch Client ID for authentication
    * @param clientSecret - Twitch Client Secret for authentication
+   * @param cache - Optional response cache
+   * @param scheduler - Request scheduler, shared between clients to respect IGDB's rate limit
    */
-  constructor(clientId: string, clientSecret: string) {
+  constructor(
+    clientId: string,
+    clientSecret: string,
+    cache: ResponseCache | null = null,
+    scheduler: RequestScheduler = new RequestScheduler(IGDB_SCHEDULER_OPTIONS)
+  ) {
     this.clientId = clientId;
     this.clientSecret = clientSecret;
+    this.cache = cache;
+    this.scheduler = scheduler;
   }
 
   /**
    * Ensures a valid access token is available for API requests.
-   * @throws {Error} If Twitch credentials are not configured
+   * @throws {TwitchAuthError} If Twitch credentials are not configured or are rejected
+   * @throws {HttpError} If the token request fails for another reason
    */
   private async ensureAccessToken(): Promise<void> {
     // Check if we have a valid token
@@ -77,15 +177,24 @@ export class IgdbClient {
     }
 
     if (!this.clientId || !this.clientSecret) {
-      throw new Error('Twitch Client ID and Secret not configured');
+      throw new TwitchAuthError('Twitch Client ID and Secret not configured');
     }
 
     // Get new access token
     const response = await requestUrl({
       url: `${TWITCH_AUTH_URL}?client_id=${this.clientId}&client_secret=${this.clientSecret}&grant_type=client_credentials`,
       method: 'POST',
+      throw: false,
     });
 
+    if (response.status >= 400) {
+      // Twitch answers 400 for an unknown client ID and 403 for a wrong secret
+      if (response.status < 500) {
+        throw new TwitchAuthError(`Twitch rejected the credentials with status ${response.status}`);
+      }
+      throw new HttpError(response.status, `Twitch authentication failed with status ${response.status}`);
+    }
+
     const data = response.json;
     this.accessToken = data.access_token;
     // Set expiry 5 minutes before actual expiry to be safe
@@ -93,45 +202,93 @@ export class IgdbClient {
   }
 
   /**
-   * Makes a request to the IGDB API.
+   * Makes a request to the IGDB API, going through the cache when one is configured.
    * @param endpoint - API endpoint to call
    * @param body - Query body in IGDB syntax
+   * @param cacheNamespace - Cache namespace selecting the TTL
    * @returns Parsed response data
    * @throws {Error} If request fails
    */
-  private async request<T>(endpoint: string, body: string): Promise<T> {
+  private async request<T>(endpoint: string, body: string, cacheNamespace: string): Promise<T> {
+    if (!this.cache) {
+      return this.fetch<T>(endpoint, body);
+    }
+    return this.cache.getOrFetch(cacheNamespace, `${endpoint} ${body}`, () =>
+      this.fetch<T>(endpoint, body)
+    );
+  }
+
+  /**
+   * Sends a request to the IGDB API through the rate-limiting scheduler.
+   * @param endpoint - API endpoint to call
+   * @param body - Query body in IGDB syntax
+   * @returns Parsed response data
+   * @throws {TwitchAuthError} If IGDB rejects the access token or client ID
+   * @throws {HttpError} If IGDB answers with a failing status once retries are exhausted
+   */
+  private async fetch<T>(endpoint: string, body: string): Promise<T> {
     await this.ensureAccessToken();
 
-    const response = await requestUrl({
-      url: `${IGDB_BASE_URL}${endpoint}`,
-      method: 'POST',
-      headers: {
-        'Client-ID': this.clientId,
-        Authorization: `Bearer ${this.accessToken}`,
-        'Content-Type': 'text/plain',
-      },
-      body: body,
-    });
+    return this.scheduler.run(async () => {
+      const response = await requestUrl({
+        url: `${IGDB_BASE_URL}${endpoint}`,
+        method: 'POST',
+        headers: {
+          'Client-ID': this.clientId,
+          Authorization: `Bearer ${this.accessToken}`,
+          'Content-Type': 'text/plain',
+        },
+        body: body,
+        throw: false,
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        // Request a fresh token next time in case this one was revoked
+        this.accessToken = null;
+        throw new TwitchAuthError(`IGDB rejected the credentials with status ${response.status}`);
+      }
+
+      if (response.status >= 400) {
+        const headers = response.headers ?? {};
+        const retryAfter = Object.keys(headers).find((h) => h.toLowerCase() === 'retry-after');
+        throw new HttpError(
+          response.status,
+          `IGDB request failed with status ${response.status}`,
+          parseRetryAfter(retryAfter ? headers[retryAfter] : undefined)
+        );
+      }
 
-    return response.json as T;
+      return response.json as T;
+    });
   }
 
   /**
    * Searches for games matching the query.
    * @param query - Search query
    * @param limit - Maximum number of results (default: 10)
+   * @param conditions - Extra conditions narrowing the results, combined with AND;
+   *   an array inside the list is a group of alternatives combined with OR
    * @returns Array of matching games
    */
-  async searchGames(query: string, limit: number = 10): Promise<IgdbGame[]> {
-    const body = `
-      search "${query}";
-      fields id, name, slug, summary, aggregated_rating, aggregated_rating_count,
-             total_rating, first_release_date, cover.image_id, cover.url,
-             genres.name, genres.slug, platforms.name, platforms.abbreviation;
-      limit ${limit};
-    `;
-
-    return this.request<IgdbGame[]>('/games', body);
+  async searchGames(
+    query: string,
+    limit: number = 10,
+    conditions: Array<IgdbCondition | IgdbCondition[]> = []
+  ): Promise<IgdbGame[]> {
+    const igdbQuery = new IgdbQuery()
+      .search(query)
+      .fields(...SEARCH_FIELDS)
+      .limit(limit);
+    for (const condition of conditions) {
+      if (Array.isArray(condition)) {
+        igdbQuery.whereAny(condition);
+      } else {
+        igdbQuery.where(condition.field, condition.operator, condition.value);
+      }
+    }
+    const body = igdbQuery.build();
+
+    return this.request<IgdbGame[]>('/games', body, 'igdb:search');
   }
 
   /**
@@ -140,15 +297,12 @@ export class IgdbClient {
    * @returns Game data or null if not found
    */
   async getGameById(gameId: number): Promise<IgdbGame | null> {
-    const body = `
-      fields id, name, slug, summary, storyline, rating, aggregated_rating,
-             aggregated_rating_count, total_rating, first_release_date,
-             cover.image_id, cover.url, genres.name, genres.slug,
-             platforms.name, platforms.abbreviation, websites.url, websites.category;
-      where id = ${gameId};
-    `;
-
-    const results = await this.request<IgdbGame[]>('/games', body);
+    const body = new IgdbQuery()
+      .fields(...DETAIL_FIELDS)
+      .where('id', '=', gameId)
+      .build();
+
+    const results = await this.request<IgdbGame[]>('/games', body, 'igdb:game');
     return results.length > 0 ? results[0] : null;
   }
 
@@ -158,22 +312,39 @@ export class IgdbClient {
    * @returns Game data or null if not found
    */
   async getGameBySlug(slug: string): Promise<IgdbGame | null> {
-    const body = `
-      fields id, name, slug, summary, storyline, rating, aggregated_rating,
-             aggregated_rating_count, total_rating, first_release_date,
-             cover.image_id, cover.url, genres.name, genres.slug,
-             platforms.name, platforms.abbreviation, websites.url, websites.category;
-      where slug = "${slug}";
-    `;
-
-    const results = await this.request<IgdbGame[]>('/games', body);
+    const body = new IgdbQuery()
+      .fields(...DETAIL_FIELDS)
+      .where('slug', '=', slug)
+      .build();
+
+    const results = await this.request<IgdbGame[]>('/games', body, 'igdb:game');
     return results.length > 0 ? results[0] : null;
   }
 
   /**
-   * Get the cover image URL at the specified size.
+   * Gets detailed game information by Steam app ID, through IGDB's external games.
+   * The Steam entry is looked up first, so the category and uid match on the same record.
+   * @param appId - Steam app identifier
+   * @returns Game data or null if IGDB does not link the app to a game
+   */
+  async getGameBySteamAppId(appId: number): Promise<IgdbGame | null> {
+    const body = new IgdbQuery()
+      .fields('game')
+      .where('category', '=', STEAM_EXTERNAL_CATEGORY)
+      .where('uid', '=', String(appId))
+      .limit(1)
+      .build();
+
+    const results = await this.request<IgdbExternalGame[]>('/external_games', body, 'igdb:game');
+    const gameId = results.length > 0 ? results[0].game : undefined;
+    return gameId ? this.getGameById(gameId) : null;
+  }
+
+  /**
+   * Get the cover image URL at the specified size. Screenshots and artworks
+   * use the same URLs.
    * @param imageId - IGDB image identifier
-   * @param size - Image size (cover_small, cover_big, 720p, 1080p)
+   * @param size - Image size (cover_small, cover_big, screenshot_med, screenshot_big, 720p, 1080p)
    * @returns Full URL to the cover image
    */
   getCoverUrl(imageId: string, size: string = 'cover_big'): string {
@@ -0,0 +1,199 @@
+export type IgdbOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+export type IgdbScalar = string | number | boolean | null;
+export type IgdbValue = IgdbScalar | Array<string | number>;
+export type IgdbSortDirection = 'asc' | 'desc';
+
+export interface IgdbCondition {
+  field: string;
+  operator: IgdbOperator;
+  value: IgdbValue;
+}
+
+const FIELD_PATTERN = /^(\*|[a-z_][a-z0-9_]*(\.([a-z_][a-z0-9_]*|\*))*)$/;
+const MAX_LIMIT = 500;
+
+/**
+ * Escapes a string for use inside a double-quoted Apicalypse literal.
+ * Backslashes and quotes are escaped; control characters become spaces.
+ * @param value - Raw string
+ * @returns Escaped string, without surrounding quotes
+ */
+export function escapeIgdbString(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u001f\u007f]+/g, ' ')
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"');
+}
+
+/**
+ * Validates a field name so it cannot smuggle extra clauses into a query.
+ * @param field - Field name, possibly dotted (e.g. 'cover.image_id')
+ * @returns The field name
+ * @throws {Error} If the field name contains unexpected characters
+ */
+function checkField(field: string): string {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new Error(`Invalid IGDB field name: ${field}`);
+  }
+  return field;
+}
+
+/**
+ * Formats a scalar value as an Apicalypse literal.
+ * @param value - Value to format
+ * @returns Literal representation
+ * @throws {Error} If the value is a non-finite number
+ */
+function formatScalar(value: IgdbScalar): string {
+  if (value === null) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') {
+    if (!isFinite(value)) {
+      throw new Error(`Invalid IGDB number: ${value}`);
+    }
+    return String(value);
+  }
+  return `"${escapeIgdbString(value)}"`;
+}
+
+/**
+ * Formats a condition as an Apicalypse expression.
+ * Arrays become `(a,b)` sets, matching any of the listed values.
+ * @param condition - Condition to format
+ * @returns Expression string
+ */
+function formatCondition(condition: IgdbCondition): string {
+  const { field, operator, value } = condition;
+  const literal = Array.isArray(value)
+    ? `(${value.map((v) => formatScalar(v)).join(',')})`
+    : formatScalar(value);
+  return `${checkField(field)} ${operator} ${literal}`;
+}
+
+/**
+ * Clamps a count to a non-negative integer.
+ * @param value - Value to check
+ * @param max - Upper bound
+ * @returns Clamped integer
+ * @throws {Error} If the value is not a finite number
+ */
+function toCount(value: number, max: number): number {
+  if (!isFinite(value)) {
+    throw new Error(`Invalid IGDB count: ${value}`);
+  }
+  return Math.min(max, Math.max(0, Math.floor(value)));
+}
+
+/**
+ * Builder for IGDB Apicalypse query bodies.
+ * All values are escaped, so user input can be passed in directly.
+ */
+export class IgdbQuery {
+  private fieldList: string[] = [];
+  private searchTerm: string | null = null;
+  private conditions: string[] = [];
+  private sortClause: string | null = null;
+  private limitValue: number | null = null;
+  private offsetValue: number | null = null;
+
+  /**
+   * Adds fields to return.
+   * @param fields - Field names, possibly dotted (e.g. 'genres.name')
+   * @returns This query
+   */
+  fields(...fields: string[]): this {
+    this.fieldList.push(...fields.map(checkField));
+    return this;
+  }
+
+  /**
+   * Sets the full-text search term.
+   * @param term - Search term
+   * @returns This query
+   */
+  search(term: string): this {
+    this.searchTerm = term;
+    return this;
+  }
+
+  /**
+   * Adds a condition; multiple conditions are combined with AND.
+   * @param field - Field name
+   * @param operator - Comparison operator
+   * @param value - Value, or an array matching any of its items
+   * @returns This query
+   */
+  where(field: string, operator: IgdbOperator, value: IgdbValue): this {
+    this.conditions.push(formatCondition({ field, operator, value }));
+    return this;
+  }
+
+  /**
+   * Adds a group of conditions combined with OR.
+   * @param conditions - Alternatives, at least one of which must hold
+   * @returns This query
+   */
+  whereAny(conditions: IgdbCondition[]): this {
+    if (conditions.length > 0) {
+      this.conditions.push(`(${conditions.map(formatCondition).join(' | ')})`);
+    }
+    return this;
+  }
+
+  /**
+   * Sets the sort order.
+   * @param field - Field to sort by
+   * @param direction - Sort direction (default: desc)
+   * @returns This query
+   */
+  sort(field: string, direction: IgdbSortDirection = 'desc'): this {
+    this.sortClause = `${checkField(field)} ${direction === 'asc' ? 'asc' : 'desc'}`;
+    return this;
+  }
+
+  /**
+   * Sets the maximum number of results (clamped to IGDB's 500).
+   * @param count - Result count
+   * @returns This query
+   */
+  limit(count: number): this {
+    this.limitValue = toCount(count, MAX_LIMIT);
+    return this;
+  }
+
+  /**
+   * Sets the number of results to skip.
+   * @param count - Results to skip
+   * @returns This query
+   */
+  offset(count: number): this {
+    this.offsetValue = toCount(count, Number.MAX_SAFE_INTEGER);
+    return this;
+  }
+
+  /**
+   * Builds the query body.
+   * @returns Apicalypse query string
+   */
+  build(): string {
+    const clauses: string[] = [];
+    if (this.searchTerm !== null) {
+      clauses.push(`search ${formatScalar(this.searchTerm)};`);
+    }
+    clauses.push(`fields ${this.fieldList.length ? this.fieldList.join(', ') : '*'};`);
+    if (this.conditions.length) {
+      clauses.push(`where ${this.conditions.join(' & ')};`);
+    }
+    if (this.sortClause) {
+      clauses.push(`sort ${this.sortClause};`);
+    }
+    if (this.limitValue !== null) {
+      clauses.push(`limit ${this.limitValue};`);
+    }
+    if (this.offsetValue !== null) {
+      clauses.push(`offset ${this.offsetValue};`);
+    }
+    return clauses.join('\n');
+  }
+}
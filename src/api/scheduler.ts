@@ -0,0 +1,220 @@
+import type { Clock } from './cache';
+
+// Declare global console for ESLint
+declare const console: Console;
+
+/**
+ * Error raised for HTTP responses with a failing status code.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | null;
+
+  /**
+   * Creates a new HTTP error.
+   * @param status - HTTP status code
+   * @param message - Error message
+   * @param retryAfterMs - Delay requested by the server's Retry-After header, if any
+   */
+  constructor(status: number, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parses a Retry-After header value (delay in seconds or HTTP date).
+ * @param value - Header value
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or null if absent or invalid
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ */
+export type Sleep = (ms: number) => Promise<void>;
+
+/**
+ * Runs a single request attempt.
+ */
+export type Task<T> = () => Promise<T>;
+
+/**
+ * Returns a number in [0, 1), used for retry jitter.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Resumes a request waiting for a concurrency slot.
+ */
+export type Waiter = () => void;
+
+export interface RequestSchedulerOptions {
+  requestsPerSecond?: number;
+  maxConcurrent?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  now?: Clock;
+  sleep?: Sleep;
+  random?: RandomSource;
+}
+
+/**
+ * Limits for the IGDB API: 4 requests per second, 8 open requests.
+ */
+export const IGDB_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+  requestsPerSecond: 4,
+  maxConcurrent: 8,
+};
+
+/**
+ * Schedules requests through a token bucket and a concurrency limit,
+ * retrying rate-limited (429) and server (5xx) failures with jittered backoff.
+ */
+export class RequestScheduler {
+  private rate: number;
+  private capacity: number;
+  private maxConcurrent: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private now: Clock;
+  private sleep: Sleep;
+  private random: RandomSource;
+
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private waiting: Waiter[] = [];
+
+  /**
+   * Creates a new request scheduler.
+   * @param options - Scheduler options
+   * @param options.requestsPerSecond - Sustained request rate and burst size (default: 4)
+   * @param options.maxConcurrent - Maximum number of requests in flight (default: 8)
+   * @param options.maxRetries - Retries after the first attempt (default: 3)
+   * @param options.baseDelayMs - Initial backoff delay (default: 500)
+   * @param options.maxDelayMs - Backoff ceiling (default: 10000)
+   * @param options.now - Clock (default: Date.now)
+   * @param options.sleep - Delay function (default: setTimeout based)
+   * @param options.random - Random source for jitter (default: Math.random)
+   */
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.rate = options.requestsPerSecond ?? 4;
+    this.capacity = this.rate;
+    this.maxConcurrent = options.maxConcurrent ?? 8;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10000;
+    this.now = options.now ?? (() => Date.now());
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.random = options.random ?? Math.random;
+
+    this.tokens = this.capacity;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * Runs a task within the rate and concurrency limits, retrying retryable failures.
+   * @param task - Request attempt; should throw an HttpError for failing responses
+   * @returns Result of the first successful attempt
+   * @throws {Error} The last error once retries are exhausted or for non-retryable failures
+   */
+  async run<T>(task: Task<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let delay: number;
+      await this.acquireSlot();
+      try {
+        await this.acquireToken();
+        return await task();
+      } catch (error) {
+        if (!this.isRetryable(error) || attempt >= this.maxRetries) {
+          throw error;
+        }
+        delay = this.retryDelay(error as HttpError, attempt);
+        console.warn(`Request failed with ${(error as HttpError).status}, retrying in ${delay}ms`);
+      } finally {
+        this.releaseSlot();
+      }
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * Checks whether an error is worth retrying.
+   * @param error - Error thrown by a task
+   * @returns True for 429 and 5xx responses
+   */
+  private isRetryable(error: unknown): boolean {
+    return error instanceof HttpError && (error.status === 429 || error.status >= 500);
+  }
+
+  /**
+   * Computes the delay before the next attempt.
+   * Retry-After wins; otherwise exponential backoff with jitter.
+   * @param error - Failing HTTP error
+   * @param attempt - Zero-based attempt number that failed
+   * @returns Delay in milliseconds
+   */
+  private retryDelay(error: HttpError, attempt: number): number {
+    if (error.retryAfterMs !== null) {
+      return Math.min(error.retryAfterMs, this.maxDelayMs);
+    }
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + (this.random() * ceiling) / 2);
+  }
+
+  /**
+   * Waits until a token is available in the bucket and consumes it.
+   */
+  private async acquireToken(): Promise<void> {
+    for (;;) {
+      const now = this.now();
+      const elapsed = (now - this.lastRefill) / 1000;
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.rate);
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.sleep(Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+    }
+  }
+
+  /**
+   * Waits until fewer than maxConcurrent requests are in flight.
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot over, so active stays unchanged
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  /**
+   * Frees a concurrency slot, handing it to the next waiting request if any.
+   */
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { requestUrl } from 'obsidian';
 
+import type { ResponseCache } from './cache';
+
 const SGDB_BASE_URL = 'https://www.steamgriddb.com/api/v2';
 
 // Declare global console for ESLint
@@ -10,6 +12,7 @@ export interface SgdbGame {
   name: string;
   types: string[];
   verified: boolean;
+  release_date?: number; // Unix timestamp
 }
 
 export interface SgdbGrid {
@@ -48,22 +51,39 @@ export interface SgdbLogo extends SgdbGrid {
  */
 export class SteamGridDbClient {
   private apiKey: string;
+  private cache: ResponseCache | null;
 
   /**
    * Creates a new SteamGridDB client.
    * @param apiKey - SteamGridDB API key
+   * @param cache - Optional response cache
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, cache: ResponseCache | null = null) {
     this.apiKey = apiKey;
+    this.cache = cache;
   }
 
   /**
-   * Makes a request to the SteamGridDB API.
+   * Makes a request to the SteamGridDB API, going through the cache when one is configured.
    * @param endpoint - API endpoint to call
    * @returns Parsed response data
    * @throws {Error} If API key is not configured or request fails
    */
   private async request<T>(endpoint: string): Promise<T> {
+    if (!this.cache) {
+      return this.fetch<T>(endpoint);
+    }
+    const namespace = endpoint.startsWith('/search') ? 'sgdb:search' : 'sgdb:artwork';
+    return this.cache.getOrFetch(namespace, endpoint, () => this.fetch<T>(endpoint));
+  }
+
+  /**
+   * Sends a request to the SteamGridDB API.
+   * @param endpoint - API endpoint to call
+   * @returns Parsed response data
+   * @throws {Error} If API key is not configured or request fails
+   */
+  private async fetch<T>(endpoint: string): Promise<T> {
     if (!this.apiKey) {
       throw new Error('SteamGridDB API key not configured');
     }
@@ -96,6 +116,15 @@ export class SteamGridDbClient {
     );
   }
 
+  /**
+   * Gets a game by SteamGridDB ID.
+   * @param gameId - SteamGridDB game identifier
+   * @returns Game data
+   */
+  async getGameById(gameId: number): Promise<SgdbGame> {
+    return this.request<SgdbGame>(`/games/id/${gameId}`);
+  }
+
   /**
    * Gets grid artwork for a game.
    * @param gameId - SteamGridDB game identifier
@@ -0,0 +1,36 @@
+export type GameUrl =
+  | { source: 'igdb'; slug: string }
+  | { source: 'steam'; appId: number }
+  | { source: 'hltb'; gameId: number }
+  | { source: 'sgdb'; gameId: number };
+
+// Host and path patterns per source; the scheme and "www." are optional
+const IGDB_PATTERN = /^(?:https?:\/\/)?(?:www\.)?igdb\.com\/games\/([a-z0-9-]+)\/?(?:[?#].*)?$/i;
+const STEAM_PATTERN =
+  /^(?:https?:\/\/)?(?:store\.steampowered\.com|steamcommunity\.com)\/app\/(\d+)(?:[/?#].*)?$/i;
+const HLTB_PATTERN =
+  /^(?:https?:\/\/)?(?:www\.)?howlongtobeat\.com\/(?:game\/(\d+)|game(?:\.php)?\?(?:.*&)?id=(\d+))(?:[/?&#].*)?$/i;
+const SGDB_PATTERN = /^(?:https?:\/\/)?(?:www\.)?steamgriddb\.com\/game\/(\d+)(?:[/?#].*)?$/i;
+
+/**
+ * Recognises links to a game page on IGDB, Steam, HowLongToBeat or SteamGridDB.
+ * @param input - Text typed or pasted into the search box
+ * @returns The source and identifier, or null if the input is not a known game URL
+ */
+export function parseGameUrl(input: string): GameUrl | null {
+  const text = input.trim();
+
+  let match = IGDB_PATTERN.exec(text);
+  if (match) return { source: 'igdb', slug: match[1].toLowerCase() };
+
+  match = STEAM_PATTERN.exec(text);
+  if (match) return { source: 'steam', appId: Number(match[1]) };
+
+  match = HLTB_PATTERN.exec(text);
+  if (match) return { source: 'hltb', gameId: Number(match[1] ?? match[2]) };
+
+  match = SGDB_PATTERN.exec(text);
+  if (match) return { source: 'sgdb', gameId: Number(match[1]) };
+
+  return null;
+}
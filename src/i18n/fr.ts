@@ -15,11 +15,61 @@ const fr = {
   default_platform_desc: "La plateforme sélectionnée par défaut lors de l'ajout d'un jeu",
   default_priority: 'Priorité par défaut',
   default_priority_desc: "La priorité sélectionnée par défaut lors de l'ajout d'un jeu",
+  planning_metric: 'Durée de planification',
+  planning_metric_desc: "La durée utilisée pour l'efficacité et pour les heures restantes du backlog",
+  planning_metric_game_desc: "La durée utilisée pour l'efficacité de ce jeu et le total du backlog",
+  planning_metric_default: 'Par défaut ({metric})',
+  planning_metric_main: 'Histoire principale',
+  planning_metric_extras: 'Histoire + extras',
+  planning_metric_completionist: 'Complétionniste',
   language: 'Langue',
   language_desc: "Choisissez la langue de l'interface du plugin",
   modal_add_game_title: 'Ajouter un jeu au backlog',
   search_for_game: 'Rechercher un jeu',
-  search_for_game_desc: "Tapez pour rechercher dans la base IGDB",
+  search_for_game_desc: "Tapez pour rechercher dans la base IGDB, ou collez un lien IGDB, Steam, HowLongToBeat ou SteamGridDB",
+  search_results_label: 'Résultats de recherche',
+  filters_toggle: 'Filtres',
+  filters_toggle_active: 'Filtres ({count})',
+  filter_any: 'Tous',
+  filter_platform: 'Famille de plateformes',
+  filter_platform_pc: 'PC',
+  filter_platform_playstation: 'PlayStation',
+  filter_platform_xbox: 'Xbox',
+  filter_platform_nintendo: 'Nintendo',
+  filter_platform_mobile: 'Mobile',
+  filter_years: 'Années de sortie',
+  filter_years_desc: 'Laissez une borne vide pour une plage ouverte',
+  filter_year_from: 'De',
+  filter_year_to: 'À',
+  filter_type: 'Type de jeu',
+  filter_type_main: 'Jeu principal',
+  filter_type_dlc: 'DLC / extension payante',
+  filter_type_expansion: 'Extension',
+  filter_type_remake: 'Remake / remaster',
+  filter_type_bundle: 'Compilation',
+  filter_release: 'Statut de sortie',
+  filter_release_released: 'Sorti',
+  filter_release_unreleased: 'À venir',
+  hltb_heading: 'Correspondance HowLongToBeat',
+  hltb_loading: 'Recherche des durées…',
+  hltb_none: 'Aucune correspondance HowLongToBeat',
+  hltb_skip: 'Ne pas utiliser les durées HowLongToBeat',
+  hltb_times: '{main} histoire · {extras} histoire + extras · {completionist} complétionniste',
+  hltb_confidence: 'titre correspondant à {percent} %',
+  hltb_pinned: 'depuis le lien collé',
+  artwork_toggle: "Choisir l'illustration",
+  artwork_game_label: 'Jeu SteamGridDB',
+  artwork_game_desc: 'Relancez la recherche si les images correspondent à un autre jeu',
+  artwork_search_placeholder: 'Rechercher sur SteamGridDB...',
+  artwork_loading: 'Chargement des illustrations…',
+  artwork_no_match: 'Aucune correspondance SteamGridDB',
+  artwork_failed: 'Impossible de charger les illustrations SteamGridDB. Vérifiez la clé API dans les réglages du plugin.',
+  artwork_grids: 'Couverture',
+  artwork_heroes: 'Bannière',
+  artwork_logos: 'Logo',
+  artwork_auto_cover: 'Automatique',
+  artwork_none: 'Aucune',
+  artwork_empty: 'Aucune image',
   search_placeholder: "Entrez le titre du jeu...",
   platform_label: 'Plateforme',
   platform_desc: "Sur quelle plateforme allez-vous y jouer ?",
@@ -29,8 +79,32 @@ const fr = {
   add_game_button: 'Ajouter le jeu',
   adding_button: 'Ajout...',
   please_select_game: "Veuillez d'abord sélectionner un jeu",
-  search_failed_notice: "Échec de la recherche des jeux. Vérifiez vos identifiants Twitch.",
+  url_not_found_notice: 'Aucun jeu trouvé pour ce lien',
+  url_ambiguous_notice: 'Aucune correspondance IGDB exacte pour « {title} ». Choisissez le bon jeu dans les résultats.',
+  manual_entry_link: 'Introuvable ? Saisissez-le manuellement',
+  search_entry_link: 'Retour à la recherche',
+  manual_title: 'Titre',
+  manual_title_desc: 'Obligatoire',
+  manual_year: 'Année de sortie',
+  manual_year_desc: 'Facultatif',
+  manual_genres: 'Genres',
+  manual_genres_desc: 'Facultatif, séparés par des virgules',
+  manual_hours: 'Durée de vie (heures)',
+  manual_hours_desc: "Facultatif, durée de l'histoire principale",
+  manual_rating: 'Note',
+  manual_rating_desc: 'Facultatif, de 0 à 100',
+  manual_cover: 'URL de la jaquette',
+  manual_cover_desc: 'Facultatif',
+  manual_lookup: 'Compléter les données manquantes',
+  manual_lookup_desc: 'Remplit la durée et la jaquette vides depuis HowLongToBeat et SteamGridDB',
+  please_enter_title: 'Veuillez saisir un titre',
+  manual_invalid_number: "L'année, la durée et la note doivent être des nombres valides",
+  searching_status: 'Recherche…',
+  no_results_status: 'Aucun jeu trouvé pour « {query} »',
+  search_failed_error: 'La recherche a échoué. Vérifiez votre connexion et réessayez.',
+  search_credentials_error: 'IGDB a refusé vos identifiants Twitch. Vérifiez le Client ID et le Client Secret dans les réglages du plugin.',
   fetch_failed_notice: "Échec de la récupération des données. Réessayez.",
+  rate_limited_notice: "IGDB limite le nombre de requêtes. Patientez un instant puis réessayez.",
   critic_rating: 'Note critique',
   rating_label: 'Note',
   hltb_label: 'HLTB',
@@ -43,6 +117,8 @@ const fr = {
   status_label: 'Statut',
   update_button: 'Mettre à jour',
   updated_status_notice: 'Statut mis à jour en',
+  migrated_priorities_notice: 'Priorité convertie pour {count} note(s) de jeu',
+  migrated_dashboard_notice: 'Filtres de priorité du tableau de bord mis à jour',
   missing_twitch_keys: "Veuillez configurer votre Twitch Client ID et Secret dans les paramètres du plugin",
   note_exists_notice: 'Une note pour "{title}" existe déjà',
   added_note_notice: 'Ajouté "{title}" à votre backlog !',
@@ -72,6 +148,115 @@ const fr = {
   priority_playing: 'En cours',
   priority_completed: 'Terminés',
   priority_dropped: 'Abandonné',
+  cache_heading: 'Cache',
+  clear_cache: 'Vider le cache',
+  cache_stats: '{entries} réponses en cache · {hits} succès · {misses} échecs ({rate}% de succès)',
+  clear_cache_button: 'Vider le cache',
+  cache_cleared_notice: 'Cache de Game Backlog vidé',
+  upgrade_modal_title: 'Mettre à jour les notes de jeux',
+  upgrade_modal_desc: "{count} note(s) de jeu utilisent un ancien format de frontmatter. Les modifications suivantes seront appliquées :",
+  upgrade_more_notes: '…et {count} autre(s) note(s)',
+  upgrade_change_rename: 'Renommer {field} en {after}',
+  upgrade_change_drop: 'Supprimer {field}',
+  upgrade_change_default: 'Ajouter {field} : {after}',
+  upgrade_change_retype: 'Convertir {field} : {before} → {after}',
+  upgrade_apply_button: 'Mettre à jour',
+  cancel_button: 'Annuler',
+  upgrade_none_notice: 'Toutes les notes de jeux sont à jour',
+  upgrade_done_notice: '{count} note(s) de jeu mise(s) à jour',
+  upgrade_failed_notice: '{count} note(s) de jeu mise(s) à jour ; {failed} en échec. Consultez la console pour plus de détails.',
+  bulk_modal_title: 'Ajouter plusieurs jeux',
+  bulk_modal_desc: 'Collez un titre de jeu par ligne. Chaque titre est recherché sur IGDB pour que vous puissiez vérifier les correspondances avant la création des notes.',
+  bulk_placeholder: 'Hollow Knight\nCeleste\nOuter Wilds',
+  bulk_find_button: 'Rechercher les jeux',
+  bulk_no_titles: 'Collez au moins un titre de jeu',
+  bulk_col_title: 'Titre',
+  bulk_col_match: 'Correspondance',
+  bulk_col_hours: 'Heures',
+  bulk_col_skip: 'Ignorer',
+  bulk_col_status: 'État',
+  bulk_status_searching: 'Recherche…',
+  bulk_status_ready: 'Prêt',
+  bulk_status_not_found: 'Aucune correspondance',
+  bulk_status_adding: 'Ajout…',
+  bulk_status_added: 'Ajouté',
+  bulk_status_failed: 'Échec',
+  bulk_searching_progress: 'Recherche {current} sur {total}…',
+  bulk_adding_progress: 'Ajout {current} sur {total} : {title}',
+  bulk_add_button: 'Ajouter {count} jeu(x)',
+  bulk_nothing_to_add: 'Aucun jeu à ajouter',
+  bulk_summary: '{added} jeu(x) ajouté(s), {skipped} ignoré(s), {failed} en échec',
+  artwork_heading: 'Illustrations',
+  download_artwork: 'Télécharger les illustrations',
+  download_artwork_desc: 'Enregistrer les couvertures, bannières et logos des nouveaux jeux dans le coffre au lieu de les lier, pour les afficher hors ligne',
+  artwork_folder: 'Dossier des illustrations',
+  artwork_folder_desc: 'Dossier du coffre pour les illustrations téléchargées. Les fichiers portent le nom du jeu et son identifiant IGDB, par ex. « Celeste (26226) - cover.png ».',
+  localize_artwork_notice: '{images} image(s) téléchargée(s) pour {count} note(s) de jeu',
+  localize_artwork_failed_notice: '{images} image(s) téléchargée(s) pour {count} note(s) de jeu ; {failed} note(s) en échec. Consultez la console pour plus de détails.',
+  note_files_heading: 'Fichiers des notes',
+  notes_folder: 'Dossier des notes',
+  notes_folder_desc: 'Dossier où les nouvelles notes de jeu sont créées. Laissez vide pour la racine du coffre.',
+  file_name_pattern: 'Modèle de nom de fichier',
+  file_name_pattern_desc: 'Nom des nouvelles notes de jeu. Variables : {title}, {year}, {platform}, {igdb_id}. Les variables vides sont retirées, avec les parenthèses qui les entourent.',
+  file_name_emoji: 'Emoji du nom de fichier',
+  file_name_emoji_desc: 'Préfixe ajouté avant le nom du fichier. Laissez vide pour aucun.',
+  dashboard_path: 'Note du tableau de bord',
+  dashboard_path_desc: 'Chemin de la note du tableau de bord, créée à la première ouverture.',
+  moved_notes_notice: '{count} note(s) de jeu déplacée(s)',
+  moved_notes_failed_notice: "{count} note(s) de jeu déplacée(s) ; {failed} n'ont pas pu être déplacées. Consultez la console pour plus de détails.",
+  note_template: 'Modèle de note',
+  note_template_desc: 'Note modèle utilisée pour les nouvelles notes de jeu, avec des {{variables}} et des blocs {{#if}} et {{#each}}. Laissez vide pour la mise en page intégrée.',
+  template_missing: 'Note modèle "{path}" introuvable',
+  template_error_notice: "Impossible d'utiliser le modèle de note : {error}",
+  entities_heading: 'Graphe de connaissances',
+  link_entities: 'Lier genres, sociétés et franchises',
+  link_entities_desc: 'Écrire les genres, développeurs, éditeurs et franchises des nouveaux jeux sous forme de [[liens]] et créer une note pour chacun, listant ses jeux',
+  genre_folder: 'Dossier des notes de genre',
+  genre_folder_desc: 'Dossier du coffre pour les notes de genre. Laissez vide pour la racine du coffre.',
+  company_folder: 'Dossier des notes de société',
+  company_folder_desc: "Dossier du coffre pour les notes de développeur et d'éditeur. Laissez vide pour la racine du coffre.",
+  franchise_folder: 'Dossier des notes de franchise',
+  franchise_folder_desc: 'Dossier du coffre pour les notes de franchise et de série. Laissez vide pour la racine du coffre.',
+  entity_games_heading: 'Jeux',
+  linked_entities_notice: '{count} note(s) de jeu liée(s) et {created} note(s) créée(s)',
+  linked_entities_failed_notice: '{count} note(s) de jeu liée(s) et {created} note(s) créée(s) ; {failed} note(s) en échec. Consultez la console pour plus de détails.',
+  screenshots_heading: "Captures d'écran",
+  trailers_heading: 'Bandes-annonces',
+  trailer_label: 'Bande-annonce',
+  media_heading: "Captures d'écran et bandes-annonces",
+  show_screenshots: "Galerie de captures d'écran",
+  show_screenshots_desc: "Ajouter une galerie de captures d'écran aux nouvelles notes de jeu",
+  screenshot_count: 'Captures par note',
+  screenshot_count_desc: 'Nombre de captures affichées dans la galerie, de 1 à 20',
+  screenshot_size: 'Taille des captures',
+  screenshot_size_desc: 'Résolution des images de la galerie',
+  screenshot_size_medium: 'Moyenne (569×320)',
+  screenshot_size_large: 'Grande (889×500)',
+  screenshot_size_huge: 'Très grande (1280×720)',
+  download_screenshots: 'Télécharger les captures',
+  download_screenshots_desc: 'Enregistrer les images de la galerie dans le dossier des illustrations au lieu de les lier',
+  show_trailers: 'Bandes-annonces',
+  show_trailers_desc: "Intégrer jusqu'à deux bandes-annonces YouTube dans les nouvelles notes de jeu",
+  links_heading: 'Liens',
+  link_official: 'Site officiel',
+  link_steam: 'Steam',
+  link_gog: 'GOG',
+  link_epic: 'Epic Games Store',
+  link_itch: 'itch.io',
+  link_eshop: 'Nintendo eShop',
+  link_wiki: 'Wiki',
+  link_wikipedia: 'Wikipédia',
+  duplicate_modal_title: 'Déjà dans votre backlog ?',
+  duplicate_modal_desc: '"{title}" a peut-être déjà une note :',
+  duplicate_note: 'Note existante',
+  duplicate_reason_igdb: 'même jeu IGDB',
+  duplicate_reason_title: 'titre proche, {percent} %',
+  duplicate_open_button: 'Ouvrir la note existante',
+  duplicate_merge_button: 'Fusionner',
+  duplicate_add_button: 'Ajouter quand même',
+  duplicate_exists_notice: '"{title}" est déjà dans votre backlog ({path})',
+  merged_note_notice: '{count} champ(s) manquant(s) complété(s) dans {path}',
+  merge_note_failed: 'Échec de la fusion dans la note existante. Consultez la console pour plus de détails.',
 };
 
 export default fr;
@@ -12,6 +12,7 @@ const en = {
   cmd_add_game: 'Add game to backlog',
   cmd_open_backlog: 'Open game backlog dashboard',
   cmd_update_status: 'Update current game status',
+  cmd_migrate_priorities: 'Convert game priorities to language-independent keys',
   twitch_client_id: 'Twitch Client ID',
   twitch_client_id_desc_prefix: 'Create an app at ',
   twitch_client_id_desc_suffix: ' to get your Client ID (used for IGDB API)',
@@ -27,11 +28,61 @@ const en = {
   default_platform_desc: 'The platform selected by default when adding a new game',
   default_priority: 'Default Priority',
   default_priority_desc: 'The priority selected by default when adding a new game',
+  planning_metric: 'Planning time',
+  planning_metric_desc: 'The completion time used for efficiency and for the hours left to clear your backlog',
+  planning_metric_game_desc: "The completion time used for this game's efficiency and the backlog total",
+  planning_metric_default: 'Default ({metric})',
+  planning_metric_main: 'Main story',
+  planning_metric_extras: 'Main + extras',
+  planning_metric_completionist: 'Completionist',
   language: 'Language',
   language_desc: 'Choose the plugin UI language',
   modal_add_game_title: 'Add Game to Backlog',
   search_for_game: 'Search for a game',
-  search_for_game_desc: 'Type to search IGDB database',
+  search_for_game_desc: 'Type to search IGDB database, or paste an IGDB, Steam, HowLongToBeat or SteamGridDB link',
+  search_results_label: 'Search results',
+  filters_toggle: 'Filters',
+  filters_toggle_active: 'Filters ({count})',
+  filter_any: 'Any',
+  filter_platform: 'Platform family',
+  filter_platform_pc: 'PC',
+  filter_platform_playstation: 'PlayStation',
+  filter_platform_xbox: 'Xbox',
+  filter_platform_nintendo: 'Nintendo',
+  filter_platform_mobile: 'Mobile',
+  filter_years: 'Release years',
+  filter_years_desc: 'Leave either end blank for an open range',
+  filter_year_from: 'From',
+  filter_year_to: 'To',
+  filter_type: 'Game type',
+  filter_type_main: 'Main game',
+  filter_type_dlc: 'DLC / add-on',
+  filter_type_expansion: 'Expansion',
+  filter_type_remake: 'Remake / remaster',
+  filter_type_bundle: 'Bundle',
+  filter_release: 'Release status',
+  filter_release_released: 'Released',
+  filter_release_unreleased: 'Unreleased',
+  hltb_heading: 'HowLongToBeat match',
+  hltb_loading: 'Looking up completion times…',
+  hltb_none: 'No HowLongToBeat match found',
+  hltb_skip: "Don't use HowLongToBeat times",
+  hltb_times: '{main} main · {extras} main + extras · {completionist} completionist',
+  hltb_confidence: '{percent}% title match',
+  hltb_pinned: 'from the pasted link',
+  artwork_toggle: 'Choose artwork',
+  artwork_game_label: 'SteamGridDB game',
+  artwork_game_desc: 'Search again if the images belong to another game',
+  artwork_search_placeholder: 'Search SteamGridDB...',
+  artwork_loading: 'Loading artwork…',
+  artwork_no_match: 'No SteamGridDB match found',
+  artwork_failed: 'Could not load artwork from SteamGridDB. Check the API key in the plugin settings.',
+  artwork_grids: 'Cover',
+  artwork_heroes: 'Hero',
+  artwork_logos: 'Logo',
+  artwork_auto_cover: 'Automatic',
+  artwork_none: 'None',
+  artwork_empty: 'No images',
   search_placeholder: 'Enter game title...',
   platform_label: 'Platform',
   platform_desc: 'Which platform will you play this on?',
@@ -41,8 +92,32 @@ const en = {
   add_game_button: 'Add Game',
   adding_button: 'Adding...',
   please_select_game: 'Please select a game first',
-  search_failed_notice: 'Failed to search games. Check your Twitch API credentials.',
+  url_not_found_notice: 'No game found for this link',
+  url_ambiguous_notice: 'No exact IGDB match for "{title}". Pick the right game from the results.',
+  manual_entry_link: "Can't find it? Enter it manually",
+  search_entry_link: 'Back to search',
+  manual_title: 'Title',
+  manual_title_desc: 'Required',
+  manual_year: 'Release year',
+  manual_year_desc: 'Optional',
+  manual_genres: 'Genres',
+  manual_genres_desc: 'Optional, comma-separated',
+  manual_hours: 'Hours to beat',
+  manual_hours_desc: 'Optional, main story length',
+  manual_rating: 'Rating',
+  manual_rating_desc: 'Optional, from 0 to 100',
+  manual_cover: 'Cover URL',
+  manual_cover_desc: 'Optional',
+  manual_lookup: 'Look up missing data',
+  manual_lookup_desc: 'Fill blank hours and cover from HowLongToBeat and SteamGridDB',
+  please_enter_title: 'Please enter a title',
+  manual_invalid_number: 'Year, hours and rating must be numbers in a valid range',
+  searching_status: 'Searching…',
+  no_results_status: 'No games found for "{query}"',
+  search_failed_error: 'Search failed. Check your connection and try again.',
+  search_credentials_error: 'IGDB rejected your Twitch credentials. Check the Client ID and Client Secret in the plugin settings.',
   fetch_failed_notice: 'Failed to fetch game data. Please try again.',
+  rate_limited_notice: 'IGDB is rate limiting requests. Please wait a moment and try again.',
   critic_rating: 'Critic Rating',
   rating_label: 'Rating',
   hltb_label: 'HLTB',
@@ -55,6 +130,8 @@ const en = {
   status_label: 'Status',
   update_button: 'Update',
   updated_status_notice: 'Updated status to',
+  migrated_priorities_notice: 'Converted the priority of {count} game note(s)',
+  migrated_dashboard_notice: 'Updated the priority filters of the dashboard',
   missing_twitch_keys: 'Please configure your Twitch Client ID and Secret in the Game Backlog settings',
   note_exists_notice: 'A note for "{title}" already exists',
   added_note_notice: 'Added "{title}" to your backlog!',
@@ -84,6 +161,120 @@ const en = {
   priority_playing: 'Playing',
   priority_completed: 'Completed',
   priority_dropped: 'Dropped',
+  cache_heading: 'Cache',
+  clear_cache: 'Clear cache',
+  cache_stats: '{entries} cached responses · {hits} hits · {misses} misses ({rate}% hit rate)',
+  clear_cache_button: 'Clear cache',
+  cache_cleared_notice: 'Game Backlog cache cleared',
+  cmd_upgrade_notes: 'Upgrade game notes',
+  upgrade_modal_title: 'Upgrade game notes',
+  upgrade_modal_desc: '{count} game note(s) use an older frontmatter format. The following changes will be made:',
+  upgrade_more_notes: '…and {count} more note(s)',
+  upgrade_change_rename: 'Rename {field} to {after}',
+  upgrade_change_drop: 'Remove {field}',
+  upgrade_change_default: 'Add {field}: {after}',
+  upgrade_change_retype: 'Convert {field}: {before} → {after}',
+  upgrade_apply_button: 'Upgrade',
+  cancel_button: 'Cancel',
+  upgrade_none_notice: 'All game notes are up to date',
+  upgrade_done_notice: 'Upgraded {count} game note(s)',
+  upgrade_failed_notice: 'Upgraded {count} game note(s); {failed} failed. Check console for details.',
+  cmd_bulk_add: 'Bulk add games',
+  bulk_modal_title: 'Bulk add games',
+  bulk_modal_desc: 'Paste one game title per line. Each title is matched against IGDB so you can review the matches before the notes are created.',
+  bulk_placeholder: 'Hollow Knight\nCeleste\nOuter Wilds',
+  bulk_find_button: 'Find games',
+  bulk_no_titles: 'Paste at least one game title',
+  bulk_col_title: 'Title',
+  bulk_col_match: 'Match',
+  bulk_col_hours: 'Hours',
+  bulk_col_skip: 'Skip',
+  bulk_col_status: 'Status',
+  bulk_status_searching: 'Looking up…',
+  bulk_status_ready: 'Ready',
+  bulk_status_not_found: 'No match',
+  bulk_status_adding: 'Adding…',
+  bulk_status_added: 'Added',
+  bulk_status_failed: 'Failed',
+  bulk_searching_progress: 'Looking up {current} of {total}…',
+  bulk_adding_progress: 'Adding {current} of {total}: {title}',
+  bulk_add_button: 'Add {count} game(s)',
+  bulk_nothing_to_add: 'No games to add',
+  bulk_summary: 'Added {added} game(s), skipped {skipped}, {failed} failed',
+  artwork_heading: 'Artwork',
+  download_artwork: 'Download artwork',
+  download_artwork_desc: 'Save covers, heroes and logos of new games in the vault instead of linking to them, so they show offline',
+  artwork_folder: 'Artwork folder',
+  artwork_folder_desc: 'Vault folder for downloaded artwork. Files are named after the game and its IGDB id, e.g. "Celeste (26226) - cover.png".',
+  cmd_localize_artwork: 'Download artwork of existing game notes',
+  localize_artwork_notice: 'Downloaded {images} image(s) for {count} game note(s)',
+  localize_artwork_failed_notice: 'Downloaded {images} image(s) for {count} game note(s); {failed} note(s) failed. Check console for details.',
+  note_files_heading: 'Note files',
+  notes_folder: 'Notes folder',
+  notes_folder_desc: 'Folder where new game notes are created. Leave empty for the vault root.',
+  file_name_pattern: 'File name pattern',
+  file_name_pattern_desc: 'Name of new game notes. Placeholders: {title}, {year}, {platform}, {igdb_id}. Empty placeholders are dropped, with the brackets around them.',
+  file_name_emoji: 'File name emoji',
+  file_name_emoji_desc: 'Prefix added before the file name. Leave empty for none.',
+  dashboard_path: 'Dashboard note',
+  dashboard_path_desc: 'Path of the backlog dashboard note, created on first use.',
+  cmd_move_notes: 'Move game notes to match the naming settings',
+  moved_notes_notice: 'Moved {count} game note(s)',
+  moved_notes_failed_notice: 'Moved {count} game note(s); {failed} could not be moved. Check console for details.',
+  note_template: 'Note template',
+  note_template_desc: 'Template note used for new game notes, with {{placeholders}}, {{#if}} and {{#each}} blocks. Leave empty for the built-in layout.',
+  template_missing: 'Template note "{path}" not found',
+  template_error_notice: 'Could not use the note template: {error}',
+  entities_heading: 'Knowledge graph',
+  link_entities: 'Link genres, companies and franchises',
+  link_entities_desc: 'Write the genres, developers, publishers and franchises of new games as [[wikilinks]] and create a note for each, listing its games',
+  genre_folder: 'Genre notes folder',
+  genre_folder_desc: 'Vault folder for genre notes. Leave empty for the vault root.',
+  company_folder: 'Company notes folder',
+  company_folder_desc: 'Vault folder for developer and publisher notes. Leave empty for the vault root.',
+  franchise_folder: 'Franchise notes folder',
+  franchise_folder_desc: 'Vault folder for franchise and series notes. Leave empty for the vault root.',
+  entity_games_heading: 'Games',
+  cmd_link_entities: 'Link genres, companies and franchises in existing game notes',
+  linked_entities_notice: 'Linked {count} game note(s) and created {created} note(s)',
+  linked_entities_failed_notice: 'Linked {count} game note(s) and created {created} note(s); {failed} note(s) failed. Check console for details.',
+  screenshots_heading: 'Screenshots',
+  trailers_heading: 'Trailers',
+  trailer_label: 'Trailer',
+  media_heading: 'Screenshots and trailers',
+  show_screenshots: 'Screenshot gallery',
+  show_screenshots_desc: 'Add a gallery of screenshots to new game notes',
+  screenshot_count: 'Screenshots per note',
+  screenshot_count_desc: 'How many screenshots the gallery shows, from 1 to 20',
+  screenshot_size: 'Screenshot size',
+  screenshot_size_desc: 'Resolution of gallery images',
+  screenshot_size_medium: 'Medium (569×320)',
+  screenshot_size_large: 'Large (889×500)',
+  screenshot_size_huge: 'Huge (1280×720)',
+  download_screenshots: 'Download screenshots',
+  download_screenshots_desc: 'Save gallery images into the artwork folder instead of linking to them',
+  show_trailers: 'Trailers',
+  show_trailers_desc: 'Embed up to two YouTube trailers in new game notes',
+  links_heading: 'Links',
+  link_official: 'Official website',
+  link_steam: 'Steam',
+  link_gog: 'GOG',
+  link_epic: 'Epic Games Store',
+  link_itch: 'itch.io',
+  link_eshop: 'Nintendo eShop',
+  link_wiki: 'Wiki',
+  link_wikipedia: 'Wikipedia',
+  duplicate_modal_title: 'Already in your backlog?',
+  duplicate_modal_desc: '"{title}" may already have a note:',
+  duplicate_note: 'Existing note',
+  duplicate_reason_igdb: 'same IGDB game',
+  duplicate_reason_title: 'similar title, {percent}%',
+  duplicate_open_button: 'Open existing note',
+  duplicate_merge_button: 'Merge into it',
+  duplicate_add_button: 'Add anyway',
+  duplicate_exists_notice: '"{title}" is already in your backlog ({path})',
+  merged_note_notice: 'Filled {count} missing field(s) in {path}',
+  merge_note_failed: 'Failed to merge into the existing note. Check console for details.',
 };
 
 const TRANSLATIONS: Record<Locale, Record<string, string>> = {
@@ -102,28 +293,42 @@ export function translate(locale: string, key: string): string {
   return TRANSLATIONS[loc][key] ?? TRANSLATIONS.en[key] ?? key;
 }
 
+// Known priority labels (English and French) mapped to their canonical key
+const PRIORITY_KEY_BY_VALUE: Record<string, string> = {
+  'Must Play': 'must_play',
+  'À jouer absolument': 'must_play',
+  'Will Get Around To': 'will_get_around_to',
+  'Plus tard': 'will_get_around_to',
+  Playing: 'playing',
+  'En cours': 'playing',
+  Completed: 'completed',
+  'Terminés': 'completed',
+  Dropped: 'dropped',
+  'Abandonné': 'dropped',
+};
+
+const PRIORITY_KEYS = ['must_play', 'will_get_around_to', 'playing', 'completed', 'dropped'];
+
 /**
- * Returns the translation key for a priority value and translates it.
- * Keeps internal value unchanged, only returns a localized label.
+ * Resolves a stored priority, either a canonical key or a legacy
+ * localized label, to its canonical key.
+ * @param value - Stored priority value (e.g. 'must_play', 'Plus tard')
+ * @returns The canonical key, or null if the value is unknown
+ */
+export function canonicalPriority(value: string): string | null {
+  if (PRIORITY_KEYS.includes(value)) return value;
+  return PRIORITY_KEY_BY_VALUE[value] ?? null;
+}
+
+/**
+ * Returns the localized label for a priority.
+ * Accepts canonical keys as well as legacy localized labels.
  * @param locale - locale code
- * @param priority - internal priority string (e.g. 'Must Play')
+ * @param priority - priority key or label (e.g. 'must_play', 'Must Play')
+ * @returns The localized label
  */
 export function translatePriority(locale: string, priority: string): string {
-  // Map known priority values (English and French) to a canonical key suffix
-  const PRIORITY_KEY_BY_VALUE: Record<string, string> = {
-    'Must Play': 'must_play',
-    "À jouer absolument": 'must_play',
-    'Will Get Around To': 'will_get_around_to',
-    'Plus tard': 'will_get_around_to',
-    'Playing': 'playing',
-    'En cours': 'playing',
-    'Completed': 'completed',
-    'Terminés': 'completed',
-    'Dropped': 'dropped',
-    'Abandonné': 'dropped',
-  };
-
-  const keySuffix = PRIORITY_KEY_BY_VALUE[priority] ??
+  const keySuffix = canonicalPriority(priority) ??
     priority
       .toLowerCase()
       .replace(/[^a-z0-9]+/g, '_')
@@ -0,0 +1,245 @@
+import { normalizePath, requestUrl, TFile } from 'obsidian';
+import type { App, FrontMatterCache } from 'obsidian';
+
+import { embedImage, isRemoteUrl, sanitizeFileName, type NoteMedia } from '../templates/gameNote';
+import type { GameData } from '../ui/AddGameModal';
+
+import { ensureFolder } from './folders';
+import type { GameLibrary } from './GameLibrary';
+
+// Declare global console for ESLint
+declare const console: Console;
+
+// Frontmatter fields holding images, also used as file name suffixes
+export const ARTWORK_FIELDS = ['cover', 'hero', 'logo'] as const;
+export type ArtworkField = (typeof ARTWORK_FIELDS)[number];
+
+// Artwork or numbered gallery image, used as the file name suffix
+export type ImageName = ArtworkField | `screenshot ${number}`;
+
+// Game an image belongs to; the IGDB id, else the release year, tells same-titled games apart
+export type ArtworkOwner = Pick<GameData, 'title' | 'igdbId' | 'releaseYear'>;
+
+// File extensions by image content type, for URLs without one
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export interface LocalizeReport {
+  notes: number;
+  images: number;
+  failed: string[];
+}
+
+/**
+ * Reads the image file extension from a URL path.
+ * @param url - Image URL
+ * @returns Lowercase extension, or null if the path has none
+ */
+function extensionFromUrl(url: string): string | null {
+  const match = /\.(png|jpe?g|webp|gif)(?:[?#]|$)/i.exec(url);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Escapes a string for literal use in a regular expression.
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks whether two binary contents are byte for byte identical.
+ * @param a - First content
+ * @param b - Second content
+ * @returns True if both hold the same bytes
+ */
+function sameBytes(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  const left = new Uint8Array(a);
+  const right = new Uint8Array(b);
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Downloads game artwork into an attachments folder of the vault, so notes
+ * can embed local files instead of hotlinking CDN URLs.
+ * Files are named after the game, its IGDB id (else its release year) and the
+ * image kind. An existing file is only reused when it holds the same image;
+ * a different image of the same name, such as a newly picked cover, gets a
+ * numbered copy.
+ */
+export class ArtworkStore {
+  private app: App;
+  private folder: string;
+
+  /**
+   * Creates a new artwork store.
+   * @param app - Obsidian app instance
+   * @param folder - Vault folder receiving the images
+   */
+  constructor(app: App, folder: string) {
+    this.app = app;
+    this.folder = normalizePath(folder || '/');
+  }
+
+  /**
+   * Builds the vault path of a game's image.
+   * @param game - Game the image belongs to
+   * @param field - Image kind
+   * @param extension - File extension
+   * @param copy - Copy number, for a different image under the same name
+   * @returns Vault path
+   */
+  pathFor(game: ArtworkOwner, field: ImageName, extension: string, copy = 1): string {
+    const key = game.igdbId ?? game.releaseYear;
+    const owner = key === null ? sanitizeFileName(game.title) : `${sanitizeFileName(game.title)} (${key})`;
+    const name = `${owner} - ${field}${copy > 1 ? ` (${copy})` : ''}.${extension}`;
+    return this.folder === '/' ? name : `${this.folder}/${name}`;
+  }
+
+  /**
+   * Downloads an image and saves it under the game's name, reusing an
+   * existing file only if it holds the same image.
+   * @param game - Game the image belongs to
+   * @param field - Image kind
+   * @param url - Remote image URL
+   * @returns Vault path of the image
+   * @throws {Error} If the download or the file creation fails
+   */
+  async download(game: ArtworkOwner, field: ImageName, url: string): Promise<string> {
+    const response = await requestUrl({ url });
+    const contentType = (response.headers['content-type'] ?? '').split(';')[0].trim();
+    const extension = extensionFromUrl(url) ?? CONTENT_TYPE_EXTENSIONS[contentType] ?? 'png';
+
+    for (let copy = 1; ; copy++) {
+      const path = this.pathFor(game, field, extension, copy);
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!file) {
+        if (this.folder !== '/') await ensureFolder(this.app, this.folder);
+        await this.app.vault.createBinary(path, response.arrayBuffer);
+        return path;
+      }
+      if (file instanceof TFile && sameBytes(await this.app.vault.readBinary(file), response.arrayBuffer)) {
+        return path;
+      }
+    }
+  }
+
+  /**
+   * Replaces the remote images of a new note with downloaded copies.
+   * Images that fail to download stay remote.
+   * @param data - Game data about to be written
+   * @returns Game data pointing at vault paths where possible
+   */
+  async localizeGameData(data: GameData): Promise<GameData> {
+    const localize = async (field: ArtworkField, src: string | null) => {
+      if (!src || !isRemoteUrl(src)) return src;
+      try {
+        return await this.download(data, field, src);
+      } catch (error) {
+        console.warn(`Failed to download the ${field} of "${data.title}", keeping the URL:`, error);
+        return src;
+      }
+    };
+
+    const [coverUrl, heroUrl, logoUrl] = await Promise.all([
+      localize('cover', data.coverUrl),
+      localize('hero', data.heroUrl),
+      localize('logo', data.logoUrl),
+    ]);
+    return { ...data, coverUrl, heroUrl, logoUrl };
+  }
+
+  /**
+   * Replaces the remote gallery screenshots of a new note with downloaded
+   * copies, at the size the note uses. Images that fail to download stay remote.
+   * @param data - Game data about to be written
+   * @param media - Screenshot count and size
+   * @returns Game data pointing at vault paths where possible
+   */
+  async localizeScreenshots(data: GameData, media: NoteMedia): Promise<GameData> {
+    const size = media.screenshotSize;
+    const screenshots = await Promise.all(
+      (data.screenshots ?? []).slice(0, media.screenshots).map(async (screenshot, index) => {
+        const src = screenshot[size];
+        if (!isRemoteUrl(src)) return screenshot;
+        try {
+          return { ...screenshot, [size]: await this.download(data, `screenshot ${index + 1}`, src) };
+        } catch (error) {
+          console.warn(`Failed to download screenshot ${index + 1} of "${data.title}", keeping the URL:`, error);
+          return screenshot;
+        }
+      })
+    );
+    return { ...data, screenshots };
+  }
+
+  /**
+   * Downloads the remote images of an existing note and rewrites its
+   * frontmatter and embeds to use them. Nothing is rewritten unless every
+   * image downloaded.
+   * @param file - Game note
+   * @param game - Game the note is about, used in the file names
+   * @param frontmatter - Note frontmatter
+   * @returns Number of images localized
+   * @throws {Error} If an image cannot be downloaded
+   */
+  async localizeNote(file: TFile, game: ArtworkOwner, frontmatter: FrontMatterCache): Promise<number> {
+    const paths = new Map<ArtworkField, { url: string; path: string }>();
+    for (const field of ARTWORK_FIELDS) {
+      const url: unknown = frontmatter[field];
+      if (typeof url !== 'string' || !isRemoteUrl(url)) continue;
+      paths.set(field, { url, path: await this.download(game, field, url) });
+    }
+    if (paths.size === 0) return 0;
+
+    await this.app.vault.process(file, (content) => {
+      let updated = content;
+      paths.forEach(({ url, path }) => {
+        const embed = new RegExp(`!\\[[^\\]]*\\]\\(${escapeRegExp(url)}\\)`, 'g');
+        updated = updated.replace(embed, () => embedImage(path, ''));
+      });
+      return updated;
+    });
+    await this.app.fileManager.processFrontMatter(file, (fm) => {
+      paths.forEach(({ path }, field) => {
+        fm[field] = `[[${path}]]`;
+      });
+    });
+    return paths.size;
+  }
+}
+
+/**
+ * Localizes the remote images of every game note in the library.
+ * @param store - Artwork store downloading the images
+ * @param library - Index of the vault's game notes
+ * @returns Notes and images localized, and paths of notes that failed
+ */
+export async function localizeLibraryArtwork(store: ArtworkStore, library: GameLibrary): Promise<LocalizeReport> {
+  const report: LocalizeReport = { notes: 0, images: 0, failed: [] };
+  for (const { file, title, igdbId, frontmatter } of library.all()) {
+    const year = Number(frontmatter.release_year);
+    const game: ArtworkOwner = { title, igdbId, releaseYear: isFinite(year) && year > 0 ? year : null };
+    try {
+      const images = await store.localizeNote(file, game, frontmatter);
+      if (images > 0) {
+        report.notes++;
+        report.images += images;
+      }
+    } catch (error) {
+      console.error(`Failed to localize the artwork of ${file.path}:`, error);
+      report.failed.push(file.path);
+    }
+  }
+  return report;
+}
@@ -0,0 +1,259 @@
+import { TFile } from 'obsidian';
+import type { App, CachedMetadata, Component, FrontMatterCache, TAbstractFile } from 'obsidian';
+
+import { canonicalPriority } from '../i18n';
+import { titleSimilarity } from '../providers/lookup';
+import type { Priority } from '../settings';
+
+import { entityName } from './entities';
+
+export const GAME_TAG = 'game';
+
+// Title similarity from which a note without a shared IGDB id counts as the same game
+export const DUPLICATE_TITLE_THRESHOLD = 0.85;
+
+/**
+ * A game note known to the library.
+ */
+export interface GameEntry {
+  file: TFile;
+  title: string;
+  status: Priority | null;
+  platform: string | null;
+  igdbId: number | null;
+  genres: string[];
+  frontmatter: FrontMatterCache;
+}
+
+/**
+ * A game note that may describe the same game as a new one.
+ */
+export interface DuplicateMatch {
+  entry: GameEntry;
+  reason: 'igdb' | 'title';
+  similarity: number; // Title similarity (0-1), 1 for IGDB id matches
+}
+
+/**
+ * Checks whether frontmatter carries the game tag.
+ * Accepts both list and string forms, with or without a leading '#'.
+ * @param frontmatter - Note frontmatter
+ * @returns True for game notes
+ */
+export function isGameNote(frontmatter: FrontMatterCache | undefined): boolean {
+  const tags: unknown = frontmatter?.tags;
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(/[\s,]+/) : [];
+  return list.some((tag) => typeof tag === 'string' && tag.replace(/^#/, '') === GAME_TAG);
+}
+
+/**
+ * Reads an optional string field.
+ * @param value - Raw frontmatter value
+ * @returns The string, or null if absent or empty
+ */
+function toText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+/**
+ * Reads an optional numeric id, which may have been stored as a string.
+ * @param value - Raw frontmatter value
+ * @returns The number, or null if absent or invalid
+ */
+function toId(value: unknown): number | null {
+  const id = typeof value === 'string' ? Number(value) : value;
+  return typeof id === 'number' && isFinite(id) ? id : null;
+}
+
+/**
+ * Builds a library entry from a note's frontmatter.
+ * @param file - Note file
+ * @param frontmatter - Note frontmatter
+ * @returns Library entry
+ */
+function toEntry(file: TFile, frontmatter: FrontMatterCache): GameEntry {
+  const status = typeof frontmatter.priority === 'string' ? canonicalPriority(frontmatter.priority) : null;
+  const genres: unknown = frontmatter.genres;
+  return {
+    file,
+    title: toText(frontmatter.title) ?? file.basename,
+    status: status as Priority | null,
+    platform: toText(frontmatter.platform),
+    igdbId: toId(frontmatter.igdb_id),
+    genres: Array.isArray(genres)
+      ? genres.filter((g): g is string => typeof g === 'string').map(entityName)
+      : [],
+    frontmatter,
+  };
+}
+
+/**
+ * In-memory index of all game notes in the vault, built from the metadata cache
+ * and kept up to date through vault and metadata events.
+ */
+export class GameLibrary {
+  private app: App;
+  private entries = new Map<string, GameEntry>();
+  private excluded = new Set<string>();
+
+  /**
+   * Creates a new game library.
+   * @param app - Obsidian app instance
+   */
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Registers the event handlers that keep the index current, and builds
+   * the index once the workspace layout (and thus the metadata cache) is ready.
+   * @param component - Component owning the event registrations, usually the plugin
+   */
+  attach(component: Component): void {
+    const { metadataCache, vault, workspace } = this.app;
+
+    component.registerEvent(
+      metadataCache.on('changed', (file, _data, cache) => this.update(file, cache))
+    );
+    component.registerEvent(
+      vault.on('create', (file) => {
+        if (file instanceof TFile) this.update(file, metadataCache.getFileCache(file));
+      })
+    );
+    component.registerEvent(vault.on('rename', (file, oldPath) => this.rename(file, oldPath)));
+    component.registerEvent(vault.on('delete', (file) => this.entries.delete(file.path)));
+
+    workspace.onLayoutReady(() => this.rebuild());
+  }
+
+  /**
+   * Re-indexes every markdown file in the vault.
+   */
+  rebuild(): void {
+    this.entries.clear();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      this.update(file, this.app.metadataCache.getFileCache(file));
+    }
+  }
+
+  /**
+   * Leaves notes out of the index even if they carry the game tag, such as
+   * the note template. Re-indexes the vault when the set of paths changes.
+   * @param paths - Note paths to ignore
+   */
+  exclude(paths: string[]): void {
+    const changed = paths.length !== this.excluded.size || paths.some((path) => !this.excluded.has(path));
+    this.excluded = new Set(paths);
+    if (changed) this.rebuild();
+  }
+
+  /**
+   * Gets all indexed games.
+   * @returns Game entries, in no particular order
+   */
+  all(): GameEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Gets the game stored at a path.
+   * @param path - Note path
+   * @returns The game entry, or null if the note is not a game
+   */
+  get(path: string): GameEntry | null {
+    return this.entries.get(path) ?? null;
+  }
+
+  /**
+   * Gets games with a given status.
+   * @param status - Canonical priority key or legacy localized label
+   * @returns Matching games
+   */
+  byStatus(status: string): GameEntry[] {
+    const key = canonicalPriority(status);
+    return key ? this.all().filter((entry) => entry.status === key) : [];
+  }
+
+  /**
+   * Gets games on a given platform.
+   * @param platform - Platform name
+   * @returns Matching games
+   */
+  byPlatform(platform: string): GameEntry[] {
+    return this.all().filter((entry) => entry.platform === platform);
+  }
+
+  /**
+   * Gets games with a given IGDB id. More than one means the game was added twice.
+   * @param igdbId - IGDB game identifier
+   * @returns Matching games
+   */
+  byIgdbId(igdbId: number): GameEntry[] {
+    return this.all().filter((entry) => entry.igdbId === igdbId);
+  }
+
+  /**
+   * Finds notes that may already describe a game, wherever they are and
+   * whatever they are called. Notes with the same IGDB id match; titles
+   * are only compared when one side has no IGDB id, since two different
+   * ids mean two different games.
+   * @param igdbId - IGDB id of the new game, if known
+   * @param title - Title of the new game
+   * @returns Matches, most likely first
+   */
+  findDuplicates(igdbId: number | null, title: string): DuplicateMatch[] {
+    const matches: DuplicateMatch[] = [];
+    for (const entry of this.all()) {
+      if (igdbId !== null && entry.igdbId === igdbId) {
+        matches.push({ entry, reason: 'igdb', similarity: 1 });
+        continue;
+      }
+      if (igdbId !== null && entry.igdbId !== null) continue;
+      const similarity = titleSimilarity(title, entry.title);
+      if (similarity >= DUPLICATE_TITLE_THRESHOLD) {
+        matches.push({ entry, reason: 'title', similarity });
+      }
+    }
+    return matches.sort(
+      (a, b) => Number(b.reason === 'igdb') - Number(a.reason === 'igdb') || b.similarity - a.similarity
+    );
+  }
+
+  /**
+   * Gets games with a given genre, compared case-insensitively.
+   * @param genre - Genre name
+   * @returns Matching games
+   */
+  byGenre(genre: string): GameEntry[] {
+    const wanted = genre.toLowerCase();
+    return this.all().filter((entry) => entry.genres.some((g) => g.toLowerCase() === wanted));
+  }
+
+  /**
+   * Adds, refreshes or removes a file's entry based on its metadata.
+   * @param file - Changed file
+   * @param cache - The file's cached metadata, if parsed yet
+   */
+  private update(file: TFile, cache: CachedMetadata | null): void {
+    const frontmatter = cache?.frontmatter;
+    if (frontmatter && isGameNote(frontmatter) && !this.excluded.has(file.path)) {
+      this.entries.set(file.path, toEntry(file, frontmatter));
+    } else {
+      this.entries.delete(file.path);
+    }
+  }
+
+  /**
+   * Moves an entry to a renamed file's new path.
+   * @param file - Renamed file
+   * @param oldPath - Path before the rename
+   */
+  private rename(file: TAbstractFile, oldPath: string): void {
+    const entry = this.entries.get(oldPath);
+    if (!entry) return;
+    this.entries.delete(oldPath);
+    if (file instanceof TFile && !this.excluded.has(file.path)) {
+      this.entries.set(file.path, { ...entry, file });
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import type { App } from 'obsidian';
+
+import { translate } from '../i18n';
+import { sanitizeFileName } from '../templates/gameNote';
+import { stringifyFrontmatter } from '../templates/yaml';
+import type { GameData } from '../ui/AddGameModal';
+
+import { ensureFolder, parentFolder, toNotePath } from './folders';
+import type { GameLibrary } from './GameLibrary';
+
+// Declare global console for ESLint
+declare const console: Console;
+
+// Genres, studios and franchises that get a note of their own
+export type EntityKind = 'genre' | 'company' | 'franchise';
+
+// Vault folder of each kind of entity note
+export type EntityFolders = Record<EntityKind, string>;
+
+// Tag of entity notes; distinct from the game tag, so they stay out of the library
+export const ENTITY_TAG = 'game-entity';
+
+// Kind of the entities listed in each linked frontmatter field
+export const ENTITY_FIELDS: Record<string, EntityKind> = {
+  genres: 'genre',
+  developers: 'company',
+  publishers: 'company',
+  franchises: 'franchise',
+};
+
+/**
+ * A genre, company or franchise a game refers to.
+ */
+export interface Entity {
+  kind: EntityKind;
+  name: string;
+}
+
+export interface LinkReport {
+  notes: number; // Game notes whose values were turned into links
+  created: number; // Entity notes created
+  failed: string[];
+}
+
+const WIKILINK = /^\[\[([^[\]|]+)(?:\|([^[\]]*))?\]\]$/;
+
+/**
+ * Reads the entity name out of a frontmatter value, which may be a wikilink.
+ * @param value - Plain name, `[[target]]` or `[[target|name]]`
+ * @returns The link's display text or target note name, else the value itself
+ */
+export function entityName(value: string): string {
+  const match = WIKILINK.exec(value.trim());
+  if (!match) return value;
+  return match[2]?.trim() || match[1].split('/').pop()!.trim();
+}
+
+/**
+ * Computes the vault path of an entity's note.
+ * @param entity - Genre, company or franchise
+ * @param folders - Entity note folders
+ * @returns Note path, or null if the name has no characters usable in a file name
+ */
+export function entityPath(entity: Entity, folders: EntityFolders): string | null {
+  const fileName = sanitizeFileName(entity.name.replace(/[#^[\]]/g, ''));
+  if (!fileName) return null;
+  const folder = folders[entity.kind];
+  return toNotePath(folder ? `${folder}/${fileName}` : fileName);
+}
+
+/**
+ * Formats an entity as a wikilink to its note, showing the entity's name.
+ * @param entity - Genre, company or franchise
+ * @param folders - Entity note folders
+ * @returns Wikilink, or the plain name if it cannot have a note
+ */
+export function entityLink(entity: Entity, folders: EntityFolders): string {
+  const path = entityPath(entity, folders);
+  if (!path) return entity.name;
+  const target = path.replace(/\.md$/, '');
+  const alias = entity.name.replace(/[[\]|]/g, '').trim();
+  return target === alias ? `[[${target}]]` : `[[${target}|${alias}]]`;
+}
+
+/**
+ * Lists the entities a game refers to, once each.
+ * @param data - Game data
+ * @returns Genres, then companies, then franchises
+ */
+export function entitiesOf(data: GameData): Entity[] {
+  const entities: Entity[] = [];
+  const add = (kind: EntityKind, names: string[] | undefined) => {
+    names?.forEach((name) => {
+      if (!entities.some((e) => e.kind === kind && e.name === name)) entities.push({ kind, name });
+    });
+  };
+  add('genre', data.genres);
+  add('company', data.facets?.developers);
+  add('company', data.facets?.publishers);
+  add('franchise', data.facets?.franchises);
+  return entities;
+}
+
+/**
+ * Replaces a game's genres, developers, publishers and franchises with links to their notes.
+ * @param data - Game data
+ * @param folders - Entity note folders
+ * @returns Game data with wikilinks in place of those names
+ */
+export function linkGameData(data: GameData, folders: EntityFolders): GameData {
+  const link = (kind: EntityKind, names: string[]) => names.map((name) => entityLink({ kind, name }, folders));
+  return {
+    ...data,
+    genres: link('genre', data.genres),
+    facets: data.facets
+      ? {
+          ...data.facets,
+          developers: link('company', data.facets.developers),
+          publishers: link('company', data.facets.publishers),
+          franchises: link('franchise', data.facets.franchises),
+        }
+      : data.facets,
+  };
+}
+
+/**
+ * Generates the content of an entity note: its kind, and a Dataview list of
+ * the game notes linking to it.
+ * @param entity - Genre, company or franchise
+ * @param language - Language of the heading
+ * @returns Markdown content
+ */
+export function generateEntityNote(entity: Entity, language = 'en'): string {
+  const frontmatter = stringifyFrontmatter(
+    [
+      ['entity_type', entity.kind],
+      ['tags', [ENTITY_TAG]],
+    ],
+    { plainKeys: ['tags'] }
+  );
+  return [
+    frontmatter,
+    `## ${translate(language, 'entity_games_heading')}`,
+    '',
+    '```dataview',
+    'TABLE platform, priority, release_year',
+    'FROM #game AND [[]]',
+    'SORT release_year ASC',
+    '```',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Creates the notes of entities that do not have one yet. Existing notes are
+ * left untouched, and a note that cannot be created does not stop the others.
+ * @param app - Obsidian app instance
+ * @param entities - Genres, companies and franchises
+ * @param folders - Entity note folders
+ * @param language - Language of the notes' heading
+ * @returns Number of notes created
+ */
+export async function ensureEntityNotes(
+  app: App,
+  entities: Entity[],
+  folders: EntityFolders,
+  language = 'en'
+): Promise<number> {
+  let created = 0;
+  for (const entity of entities) {
+    const path = entityPath(entity, folders);
+    if (!path || app.vault.getAbstractFileByPath(path)) continue;
+    try {
+      await ensureFolder(app, parentFolder(path));
+      await app.vault.create(path, generateEntityNote(entity, language));
+      created++;
+    } catch (error) {
+      console.error(`Failed to create entity note ${path}:`, error);
+    }
+  }
+  return created;
+}
+
+/**
+ * Checks whether frontmatter lists entities as plain names rather than links.
+ * @param frontmatter - Note frontmatter
+ * @returns True if some genre, company or franchise is not a wikilink
+ */
+function hasPlainEntities(frontmatter: Record<string, unknown>): boolean {
+  return Object.keys(ENTITY_FIELDS).some((field) => {
+    const values = frontmatter[field];
+    return Array.isArray(values) && values.some((v) => typeof v === 'string' && !WIKILINK.test(v.trim()));
+  });
+}
+
+/**
+ * Turns the plain genres, developers, publishers and franchises of every game
+ * note into wikilinks, and creates the entity notes they point to.
+ * Values that already are links are kept.
+ * @param app - Obsidian app instance
+ * @param library - Index of the vault's game notes
+ * @param folders - Entity note folders
+ * @param language - Language of the entity notes' heading
+ * @returns Notes changed, entity notes created and paths of notes that failed
+ */
+export async function linkLibraryEntities(
+  app: App,
+  library: GameLibrary,
+  folders: EntityFolders,
+  language = 'en'
+): Promise<LinkReport> {
+  const report: LinkReport = { notes: 0, created: 0, failed: [] };
+  for (const { file, frontmatter } of library.all()) {
+    if (!hasPlainEntities(frontmatter)) continue;
+    const linked: Entity[] = [];
+    try {
+      await app.fileManager.processFrontMatter(file, (fm) => {
+        Object.keys(ENTITY_FIELDS).forEach((field) => {
+          const values: unknown = fm[field];
+          if (!Array.isArray(values)) return;
+          fm[field] = values.map((value) => {
+            if (typeof value !== 'string' || WIKILINK.test(value.trim())) return value;
+            const entity: Entity = { kind: ENTITY_FIELDS[field], name: value };
+            linked.push(entity);
+            return entityLink(entity, folders);
+          });
+        });
+      });
+    } catch (error) {
+      console.error(`Failed to link the entities of ${file.path}:`, error);
+      report.failed.push(file.path);
+      continue;
+    }
+    if (linked.length > 0) {
+      report.notes++;
+      report.created += await ensureEntityNotes(app, linked, folders, language);
+    }
+  }
+  return report;
+}
@@ -0,0 +1,51 @@
+import { normalizePath } from 'obsidian';
+import type { App } from 'obsidian';
+
+/**
+ * Gets the folder part of a vault path.
+ * @param path - Vault path of a file
+ * @returns Parent folder, or an empty string for files in the vault root
+ */
+export function parentFolder(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/**
+ * Creates a vault folder, and its parents, if missing.
+ * @param app - Obsidian app instance
+ * @param folder - Normalized folder path; empty for the vault root
+ */
+export async function ensureFolder(app: App, folder: string) {
+  let current = '';
+  for (const segment of folder.split('/').filter(Boolean)) {
+    current = current ? `${current}/${segment}` : segment;
+    if (!app.vault.getAbstractFileByPath(current)) {
+      await app.vault.createFolder(current);
+    }
+  }
+}
+
+/**
+ * Finds a free path for a new note, numbering the name when taken.
+ * @param app - Obsidian app instance
+ * @param path - Preferred vault path, ending in .md
+ * @returns The path itself if free, else the first free `<name> (n).md`
+ */
+export function availablePath(app: App, path: string): string {
+  let candidate = path;
+  for (let n = 2; app.vault.getAbstractFileByPath(candidate); n++) {
+    candidate = path.replace(/\.md$/, ` (${n}).md`);
+  }
+  return candidate;
+}
+
+/**
+ * Normalizes a note path typed in the settings.
+ * @param path - Vault path, with or without the .md extension
+ * @returns Normalized path ending in .md
+ */
+export function toNotePath(path: string): string {
+  const normalized = normalizePath(path);
+  return normalized.endsWith('.md') ? normalized : `${normalized}.md`;
+}
@@ -0,0 +1,73 @@
+import type { App, TFile } from 'obsidian';
+
+import { facetFields, imageProperty, linkField, PLANNING_FIELDS } from '../templates/gameNote';
+import type { GameData } from '../ui/AddGameModal';
+
+/**
+ * Collects the frontmatter values a lookup can contribute to an existing note.
+ * Choices the user made for that note (priority, platform, planning metric)
+ * and the note body are not part of it.
+ * @param data - Game data from the lookup
+ * @returns Known values by frontmatter field
+ */
+export function lookupFields(data: GameData): Record<string, unknown> {
+  const image = (src: string | null) => (src ? imageProperty(src) : null);
+  const fields: Record<string, unknown> = {
+    rating: data.rating,
+    [PLANNING_FIELDS.main]: data.hltbHours,
+    [PLANNING_FIELDS.extras]: data.hltbExtrasHours,
+    [PLANNING_FIELDS.completionist]: data.hltbCompletionistHours,
+    efficiency: data.efficiency,
+    cover: image(data.coverUrl),
+    hero: image(data.heroUrl),
+    logo: image(data.logoUrl),
+    igdb_id: data.igdbId,
+    release_year: data.releaseYear,
+    genres: data.genres.length > 0 ? data.genres : null,
+  };
+  facetFields(data).forEach(([field, values]) => {
+    fields[field] = values.length > 0 ? values : null;
+  });
+  data.links?.forEach((link) => {
+    fields[linkField(link)] = link.url;
+  });
+  Object.keys(fields).forEach((field) => {
+    if (fields[field] === null) delete fields[field];
+  });
+  return fields;
+}
+
+/**
+ * Checks whether a frontmatter value is missing.
+ * @param value - Frontmatter value
+ * @returns True for absent, null, blank and empty list values
+ */
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Merges looked-up game data into an existing note. Only missing fields are
+ * filled: values already in the note, including ones the user edited, win.
+ * @param app - Obsidian app instance
+ * @param file - Existing game note
+ * @param data - Game data from the lookup
+ * @returns Names of the fields that were filled
+ */
+export async function mergeIntoNote(app: App, file: TFile, data: GameData): Promise<string[]> {
+  const fields = lookupFields(data);
+  const filled: string[] = [];
+  await app.fileManager.processFrontMatter(file, (fm) => {
+    Object.keys(fields).forEach((field) => {
+      if (!isEmpty(fm[field])) return;
+      fm[field] = fields[field];
+      filled.push(field);
+    });
+  });
+  return filled;
+}
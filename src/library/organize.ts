@@ -0,0 +1,71 @@
+import type { App } from 'obsidian';
+
+import { generateNotePath, type NoteNaming } from '../templates/gameNote';
+
+import { availablePath, ensureFolder, parentFolder } from './folders';
+import type { GameEntry, GameLibrary } from './GameLibrary';
+
+// Declare global console for ESLint
+declare const console: Console;
+
+export interface MoveReport {
+  moved: number;
+  failed: string[];
+}
+
+/**
+ * Computes where a game note belongs under the naming settings.
+ * @param entry - Library entry of the note
+ * @param naming - Folder, file name pattern and emoji prefix
+ * @returns Vault path the note should have
+ */
+export function targetPathOf(entry: GameEntry, naming: NoteNaming): string {
+  const year = Number(entry.frontmatter.release_year);
+  return generateNotePath(
+    {
+      title: entry.title,
+      releaseYear: isFinite(year) && year > 0 ? year : null,
+      platform: entry.platform,
+      igdbId: entry.igdbId,
+    },
+    naming
+  );
+}
+
+/**
+ * Checks whether a note already sits at its target path. Numbered copies
+ * (`<name> (2).md`, separate playthroughs) count as in place.
+ * @param path - Current vault path
+ * @param target - Target vault path
+ * @returns True if the note does not need to move
+ */
+function isInPlace(path: string, target: string): boolean {
+  const base = target.replace(/\.md$/, '');
+  return path === target || (path.startsWith(base) && /^ \(\d+\)\.md$/.test(path.slice(base.length)));
+}
+
+/**
+ * Moves and renames game notes to match the naming settings.
+ * Links to the notes are updated by Obsidian; notes whose target is taken
+ * get a numbered name.
+ * @param app - Obsidian app instance
+ * @param library - Index of the vault's game notes
+ * @param naming - Folder, file name pattern and emoji prefix
+ * @returns Number of notes moved, and paths of notes that failed
+ */
+export async function moveGameNotes(app: App, library: GameLibrary, naming: NoteNaming): Promise<MoveReport> {
+  const report: MoveReport = { moved: 0, failed: [] };
+  for (const entry of library.all()) {
+    const target = targetPathOf(entry, naming);
+    if (isInPlace(entry.file.path, target)) continue;
+    try {
+      await ensureFolder(app, parentFolder(target));
+      await app.fileManager.renameFile(entry.file, availablePath(app, target));
+      report.moved++;
+    } catch (error) {
+      console.error(`Failed to move ${entry.file.path}:`, error);
+      report.failed.push(entry.file.path);
+    }
+  }
+  return report;
+}
@@ -0,0 +1,57 @@
+import { TFile } from 'obsidian';
+import type { App } from 'obsidian';
+
+import { canonicalPriority } from '../i18n';
+import type { GameLibrary } from '../library/GameLibrary';
+
+// Priority comparison in a Dataview query (`priority = "..."`) or dataviewjs script (`p.priority === "..."`)
+const PRIORITY_FILTER = /(\bpriority\s*={1,3}\s*)"([^"\\]*)"/g;
+
+/**
+ * Rewrites game notes whose priority is stored as a localized label
+ * (English or French) to use the canonical priority key instead.
+ * @param app - Obsidian app instance
+ * @param library - Index of the vault's game notes
+ * @returns Number of notes updated
+ */
+export async function migratePriorities(app: App, library: GameLibrary): Promise<number> {
+  let updated = 0;
+
+  for (const { file, frontmatter } of library.all()) {
+    const stored = frontmatter.priority;
+    if (typeof stored !== 'string') continue;
+
+    const key = canonicalPriority(stored);
+    if (!key || key === stored) continue;
+
+    await app.fileManager.processFrontMatter(file, (fm) => {
+      fm.priority = key;
+    });
+    updated++;
+  }
+
+  return updated;
+}
+
+/**
+ * Rewrites the priority filters of a dashboard created by an older version,
+ * which compare against localized labels, to use the canonical keys.
+ * @param app - Obsidian app instance
+ * @param path - Vault path of the dashboard note
+ * @returns True if the dashboard was changed
+ */
+export async function migrateDashboardPriorities(app: App, path: string): Promise<boolean> {
+  const file = app.vault.getAbstractFileByPath(path);
+  if (!(file instanceof TFile)) return false;
+
+  let changed = false;
+  await app.vault.process(file, (content) =>
+    content.replace(PRIORITY_FILTER, (filter: string, prefix: string, label: string) => {
+      const key = canonicalPriority(label);
+      if (!key || key === label) return filter;
+      changed = true;
+      return `${prefix}${JSON.stringify(key)}`;
+    })
+  );
+  return changed;
+}
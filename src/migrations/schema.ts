@@ -0,0 +1,236 @@
+import type { App, TFile } from 'obsidian';
+
+import { canonicalPriority } from '../i18n';
+import type { GameLibrary } from '../library/GameLibrary';
+
+// Declare global console for ESLint
+declare const console: Console;
+
+export const SCHEMA_VERSION_FIELD = 'schema_version';
+
+/**
+ * Converts a frontmatter value to its new type.
+ * Returning undefined leaves the value unchanged.
+ */
+export type Converter = (value: unknown) => unknown;
+
+export type FrontmatterOperation =
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'drop'; field: string }
+  | { type: 'default'; field: string; value: unknown }
+  | { type: 'retype'; field: string; convert: Converter };
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  operations: FrontmatterOperation[];
+}
+
+export interface FieldChange {
+  type: FrontmatterOperation['type'];
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NoteUpgrade {
+  file: TFile;
+  fromVersion: number;
+  toVersion: number;
+  changes: FieldChange[];
+}
+
+export interface UpgradeReport {
+  upgraded: number;
+  failed: string[];
+}
+
+/**
+ * Parses numbers that were written as strings.
+ * @param value - Raw value
+ * @returns The number, or undefined if the value is not numeric text
+ */
+function toNumber(value: unknown): unknown {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * Resolves legacy localized priority labels to canonical keys.
+ * @param value - Raw value
+ * @returns The canonical key, or undefined if unknown
+ */
+function toPriorityKey(value: unknown): unknown {
+  return typeof value === 'string' ? canonicalPriority(value) ?? undefined : undefined;
+}
+
+/**
+ * Frontmatter migrations, in version order. Notes without a schema_version
+ * property are treated as version 0 (written by 1.0.5 or earlier).
+ * Append new entries here whenever generateFrontmatter changes shape.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Remove localized duplicate fields and add the Note field',
+    operations: [
+      { type: 'drop', field: 'platform_localized' },
+      { type: 'drop', field: 'priority_localized' },
+      { type: 'drop', field: 'genres_localized' },
+      { type: 'default', field: 'Note', value: null },
+    ],
+  },
+  {
+    version: 2,
+    description: 'Store priorities as canonical keys and numbers as numbers',
+    operations: [
+      { type: 'retype', field: 'priority', convert: toPriorityKey },
+      { type: 'retype', field: 'rating', convert: toNumber },
+      { type: 'retype', field: 'hltb_hours', convert: toNumber },
+      { type: 'retype', field: 'efficiency', convert: toNumber },
+      { type: 'retype', field: 'igdb_id', convert: toNumber },
+      { type: 'retype', field: 'release_year', convert: toNumber },
+    ],
+  },
+  {
+    version: 3,
+    description: 'Add all completion times and the per-game planning metric',
+    operations: [
+      { type: 'default', field: 'hltb_extras_hours', value: null },
+      { type: 'default', field: 'hltb_completionist_hours', value: null },
+      { type: 'default', field: 'planning_metric', value: null },
+    ],
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Gets the schema version a note was written with.
+ * @param frontmatter - Note frontmatter
+ * @returns Schema version, 0 if the note predates versioning
+ */
+export function getSchemaVersion(frontmatter: Record<string, unknown>): number {
+  const version = Number(frontmatter[SCHEMA_VERSION_FIELD]);
+  return isFinite(version) && version > 0 ? version : 0;
+}
+
+/**
+ * Applies a single operation to frontmatter in place.
+ * @param frontmatter - Frontmatter to modify
+ * @param operation - Operation to apply
+ * @returns The change made, or null if the operation did not apply
+ */
+function applyOperation(
+  frontmatter: Record<string, unknown>,
+  operation: FrontmatterOperation
+): FieldChange | null {
+  switch (operation.type) {
+    case 'rename': {
+      if (!(operation.from in frontmatter) || operation.to in frontmatter) return null;
+      const value = frontmatter[operation.from];
+      delete frontmatter[operation.from];
+      frontmatter[operation.to] = value;
+      return { type: 'rename', field: operation.from, before: operation.from, after: operation.to };
+    }
+    case 'drop': {
+      if (!(operation.field in frontmatter)) return null;
+      const before = frontmatter[operation.field];
+      delete frontmatter[operation.field];
+      return { type: 'drop', field: operation.field, before, after: undefined };
+    }
+    case 'default': {
+      if (operation.field in frontmatter) return null;
+      frontmatter[operation.field] = operation.value;
+      return { type: 'default', field: operation.field, before: undefined, after: operation.value };
+    }
+    case 'retype': {
+      if (!(operation.field in frontmatter)) return null;
+      const before = frontmatter[operation.field];
+      const after = operation.convert(before);
+      if (after === undefined || after === before) return null;
+      frontmatter[operation.field] = after;
+      return { type: 'retype', field: operation.field, before, after };
+    }
+  }
+}
+
+/**
+ * Brings frontmatter up to the latest schema version in place,
+ * including the schema_version property itself.
+ * @param frontmatter - Frontmatter to modify
+ * @param migrations - Migrations to consider (default: SCHEMA_MIGRATIONS)
+ * @returns Field changes made, in order, not counting the version bump
+ */
+export function migrateFrontmatter(
+  frontmatter: Record<string, unknown>,
+  migrations: SchemaMigration[] = SCHEMA_MIGRATIONS
+): FieldChange[] {
+  const fromVersion = getSchemaVersion(frontmatter);
+  const pending = migrations.filter((m) => m.version > fromVersion);
+  if (pending.length === 0) return [];
+
+  const changes: FieldChange[] = [];
+  for (const migration of pending) {
+    for (const operation of migration.operations) {
+      const change = applyOperation(frontmatter, operation);
+      if (change) changes.push(change);
+    }
+  }
+
+  frontmatter[SCHEMA_VERSION_FIELD] = pending[pending.length - 1].version;
+  return changes;
+}
+
+/**
+ * Works out which game notes need upgrading, without modifying anything.
+ * @param library - Index of the vault's game notes
+ * @param migrations - Migrations to consider (default: SCHEMA_MIGRATIONS)
+ * @returns One upgrade per outdated note
+ */
+export function planUpgrades(
+  library: GameLibrary,
+  migrations: SchemaMigration[] = SCHEMA_MIGRATIONS
+): NoteUpgrade[] {
+  const upgrades: NoteUpgrade[] = [];
+  for (const { file, frontmatter } of library.all()) {
+    const copy: Record<string, unknown> = { ...frontmatter };
+    const fromVersion = getSchemaVersion(copy);
+    const changes = migrateFrontmatter(copy, migrations);
+    const toVersion = getSchemaVersion(copy);
+    if (toVersion > fromVersion) {
+      upgrades.push({ file, fromVersion, toVersion, changes });
+    }
+  }
+  return upgrades;
+}
+
+/**
+ * Applies planned upgrades through processFrontMatter.
+ * Each note is migrated again from its current frontmatter, so edits made
+ * since the preview are respected.
+ * @param app - Obsidian app instance
+ * @param upgrades - Upgrades returned by planUpgrades
+ * @param migrations - Migrations to apply (default: SCHEMA_MIGRATIONS)
+ * @returns Number of notes upgraded and paths of notes that failed
+ */
+export async function applyUpgrades(
+  app: App,
+  upgrades: NoteUpgrade[],
+  migrations: SchemaMigration[] = SCHEMA_MIGRATIONS
+): Promise<UpgradeReport> {
+  const report: UpgradeReport = { upgraded: 0, failed: [] };
+  for (const { file } of upgrades) {
+    try {
+      await app.fileManager.processFrontMatter(file, (frontmatter) => {
+        migrateFrontmatter(frontmatter, migrations);
+      });
+      report.upgraded++;
+    } catch (error) {
+      console.error(`Failed to upgrade ${file.path}:`, error);
+      report.failed.push(file.path);
+    }
+  }
+  return report;
+}
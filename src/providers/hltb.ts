@@ -0,0 +1,88 @@
+import { HltbClient, HltbResult } from '../api/hltb';
+import type { GameUrl } from '../api/urls';
+
+import type {
+  MetadataProvider,
+  ProviderCapability,
+  TimeToBeat,
+  TimeToBeatCandidate,
+  UrlMatch,
+} from './types';
+
+export const HLTB_PROVIDER_ID = 'hltb';
+
+/**
+ * Metadata provider backed by HowLongToBeat.
+ * Supplies completion times, by title or from a HowLongToBeat URL.
+ */
+export class HltbProvider implements MetadataProvider {
+  readonly id = HLTB_PROVIDER_ID;
+  readonly capabilities: readonly ProviderCapability[] = ['timeToBeat', 'url'];
+  private client: HltbClient;
+
+  /**
+   * Creates a new HLTB provider.
+   * @param client - HLTB API client
+   */
+  constructor(client: HltbClient) {
+    this.client = client;
+  }
+
+  /**
+   * Gets completion times from HLTB.
+   * @param title - Game title
+   * @returns Completion times or null if not found
+   */
+  async getTimeToBeat(title: string): Promise<TimeToBeat | null> {
+    const result = await this.client.searchGame(title);
+    return result ? this.toTimeToBeat(result) : null;
+  }
+
+  /**
+   * Gets ranked HLTB matches for a title.
+   * @param title - Game title
+   * @param limit - Maximum number of candidates
+   * @returns Candidates with their title similarity, best first
+   */
+  async getTimeToBeatCandidates(title: string, limit: number): Promise<TimeToBeatCandidate[]> {
+    const candidates = await this.client.searchCandidates(title, limit);
+    return candidates.map((candidate) => ({
+      ...this.toTimeToBeat(candidate),
+      confidence: candidate.confidence,
+    }));
+  }
+
+  /**
+   * Resolves a HowLongToBeat game page, pinning its completion times.
+   * @param url - Parsed game URL
+   * @returns The game's title and times, or null for other sources or unknown games
+   */
+  async resolveUrl(url: GameUrl): Promise<UrlMatch | null> {
+    if (url.source !== 'hltb') return null;
+    const result = await this.client.getGameById(url.gameId);
+    if (!result) return null;
+    return {
+      game: null,
+      title: result.name,
+      releaseYear: null,
+      timeToBeat: this.toTimeToBeat(result),
+      coverUrl: null,
+    };
+  }
+
+  /**
+   * Maps an HLTB result to provider-neutral completion times.
+   * @param result - HLTB result
+   * @returns Completion times
+   */
+  private toTimeToBeat(result: HltbResult): TimeToBeat {
+    return {
+      providerId: this.id,
+      id: result.id,
+      name: result.name,
+      mainStoryHours: result.mainStoryHours,
+      mainPlusExtrasHours: result.mainPlusExtrasHours,
+      completionistHours: result.completionistHours,
+    };
+  }
+}
@@ -0,0 +1,321 @@
+import { IgdbClient, IgdbGame } from '../api/igdb';
+import type { IgdbCondition } from '../api/igdbQuery';
+import type { GameUrl } from '../api/urls';
+
+import { GAME_LINK_KINDS } from './types';
+import type {
+  GameDetails,
+  GameFacets,
+  GameLink,
+  GameLinkKind,
+  GameScreenshot,
+  GameVideo,
+  GameSummary,
+  GameType,
+  MetadataProvider,
+  PlatformFamily,
+  ProviderCapability,
+  ScreenshotSize,
+  SearchFilters,
+  UrlMatch,
+} from './types';
+
+export const IGDB_PROVIDER_ID = 'igdb';
+
+// IGDB has platform families for consoles only, so PC and mobile list platform ids
+const PLATFORM_FAMILY_CONDITIONS: Record<PlatformFamily, IgdbCondition> = {
+  pc: { field: 'platforms', operator: '=', value: [6, 14, 3] }, // Windows, Mac, Linux
+  playstation: { field: 'platforms.platform_family', operator: '=', value: 1 },
+  xbox: { field: 'platforms.platform_family', operator: '=', value: 2 },
+  nintendo: { field: 'platforms.platform_family', operator: '=', value: 5 },
+  mobile: { field: 'platforms', operator: '=', value: [34, 39] }, // Android, iOS
+};
+
+// IGDB game category values per game type
+const GAME_TYPE_CATEGORIES: Record<GameType, number[]> = {
+  main: [0],
+  dlc: [1],
+  expansion: [2, 4], // Expansion, standalone expansion
+  remake: [8, 9], // Remake, remaster
+  bundle: [3],
+};
+
+// IGDB image size of each screenshot resolution
+const SCREENSHOT_IMAGE_SIZES: Record<ScreenshotSize, string> = {
+  medium: 'screenshot_med', // 569x320
+  large: 'screenshot_big', // 889x500
+  huge: 'screenshot_huge', // 1280x720
+};
+
+// Link kind of IGDB website categories
+const WEBSITE_LINK_KINDS: Record<number, GameLinkKind> = {
+  1: 'official',
+  2: 'wiki', // Fandom (formerly Wikia)
+  3: 'wikipedia',
+  13: 'steam',
+  15: 'itch',
+  16: 'epic',
+  17: 'gog',
+};
+
+// Link kind of IGDB external game categories
+const EXTERNAL_LINK_KINDS: Record<number, GameLinkKind> = {
+  1: 'steam',
+  5: 'gog',
+  26: 'epic',
+  30: 'itch',
+};
+
+// Link kind by host, for stores IGDB has no category for, like the Nintendo eShop
+const LINK_HOSTS: Array<[RegExp, GameLinkKind]> = [
+  [/(?:^|\.)steampowered\.com$/, 'steam'],
+  [/(?:^|\.)gog\.com$/, 'gog'],
+  [/(?:^|\.)epicgames\.com$/, 'epic'],
+  [/(?:^|\.)itch\.io$/, 'itch'],
+  [/(?:^|\.)nintendo\.(?:com|co\.[a-z]{2}|[a-z]{2})$/, 'eshop'],
+  [/(?:^|\.)fandom\.com$/, 'wiki'],
+  [/(?:^|\.)wikipedia\.org$/, 'wikipedia'],
+];
+
+/**
+ * Lists the names of IGDB entries without duplicates, in their original order.
+ * @param groups - Entry lists, any of which may be missing
+ * @returns Unique names
+ */
+function uniqueNames(...groups: Array<Array<{ name: string }> | undefined>): string[] {
+  const names: string[] = [];
+  groups.forEach((group) => {
+    group?.forEach(({ name }) => {
+      if (name && !names.includes(name)) names.push(name);
+    });
+  });
+  return names;
+}
+
+/**
+ * Extracts the studios, franchises, modes and other lists of an IGDB game.
+ * Collections (series) are listed with franchises, as IGDB splits them inconsistently.
+ * @param game - IGDB game with detail fields
+ * @returns Game facets
+ */
+export function toFacets(game: IgdbGame): GameFacets {
+  const companies = game.involved_companies ?? [];
+  return {
+    developers: uniqueNames(companies.filter((c) => c.developer).map((c) => c.company)),
+    publishers: uniqueNames(companies.filter((c) => c.publisher).map((c) => c.company)),
+    franchises: uniqueNames(game.franchises, game.collections),
+    gameModes: uniqueNames(game.game_modes),
+    themes: uniqueNames(game.themes),
+    perspectives: uniqueNames(game.player_perspectives),
+    engines: uniqueNames(game.game_engines),
+    keywords: uniqueNames(game.keywords),
+  };
+}
+
+/**
+ * Works out which store or site a URL belongs to.
+ * @param url - Web address
+ * @param categories - Link kind per IGDB category
+ * @param category - IGDB category of the URL, if any
+ * @returns Link kind, or null for sites notes do not link to
+ */
+function linkKind(url: string, categories: Record<number, GameLinkKind>, category?: number): GameLinkKind | null {
+  if (category !== undefined && categories[category]) return categories[category];
+  const host = /^https?:\/\/([^/?#:]+)/i.exec(url)?.[1].toLowerCase();
+  if (!host) return null;
+  const known = LINK_HOSTS.find(([pattern]) => pattern.test(host));
+  return known ? known[1] : null;
+}
+
+/**
+ * Collects store and reference links from an IGDB game's websites and
+ * external games, keeping the first URL found for each kind.
+ * @param game - IGDB game with detail fields
+ * @returns Links in display order
+ */
+export function toLinks(game: IgdbGame): GameLink[] {
+  const urls: Partial<Record<GameLinkKind, string>> = {};
+  const add = (kind: GameLinkKind | null, url: string | undefined) => {
+    if (kind && url && !urls[kind]) urls[kind] = url;
+  };
+  game.websites?.forEach((site) => add(linkKind(site.url, WEBSITE_LINK_KINDS, site.category), site.url));
+  game.external_games?.forEach((external) => {
+    // Steam entries may only carry the app id
+    const isSteam = external.category !== undefined && EXTERNAL_LINK_KINDS[external.category] === 'steam';
+    const url = external.url || (isSteam && external.uid ? `https://store.steampowered.com/app/${external.uid}/` : '');
+    if (url) add(linkKind(url, EXTERNAL_LINK_KINDS, external.category), url);
+  });
+  return GAME_LINK_KINDS.filter((kind) => urls[kind]).map((kind) => ({ kind, url: urls[kind]! }));
+}
+
+/**
+ * Lists a game's videos, trailers first.
+ * @param game - IGDB game with detail fields
+ * @returns YouTube videos
+ */
+export function toVideos(game: IgdbGame): GameVideo[] {
+  const videos = (game.videos ?? [])
+    .filter((video) => video.video_id)
+    .map((video) => ({ name: video.name || null, youtubeId: video.video_id }));
+  const isTrailer = (video: GameVideo) => /trailer/i.test(video.name ?? '');
+  return [...videos.filter(isTrailer), ...videos.filter((video) => !isTrailer(video))];
+}
+
+/**
+ * Converts a calendar year boundary to a Unix timestamp.
+ * @param year - Calendar year
+ * @returns Seconds since the epoch at the start of that year, UTC
+ */
+function startOfYear(year: number): number {
+  return Date.UTC(year, 0, 1) / 1000;
+}
+
+/**
+ * Turns search filters into IGDB conditions.
+ * @param filters - Search filters
+ * @param now - Current time in milliseconds, deciding what counts as released
+ * @returns Conditions for IgdbClient.searchGames
+ */
+export function toIgdbConditions(
+  filters: SearchFilters,
+  now: number = Date.now()
+): Array<IgdbCondition | IgdbCondition[]> {
+  const conditions: Array<IgdbCondition | IgdbCondition[]> = [];
+  if (filters.platformFamily) {
+    conditions.push(PLATFORM_FAMILY_CONDITIONS[filters.platformFamily]);
+  }
+  if (filters.yearFrom) {
+    conditions.push({ field: 'first_release_date', operator: '>=', value: startOfYear(filters.yearFrom) });
+  }
+  if (filters.yearTo) {
+    conditions.push({ field: 'first_release_date', operator: '<', value: startOfYear(filters.yearTo + 1) });
+  }
+  if (filters.gameType) {
+    conditions.push({ field: 'category', operator: '=', value: GAME_TYPE_CATEGORIES[filters.gameType] });
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (filters.release === 'released') {
+    conditions.push({ field: 'first_release_date', operator: '<=', value: nowSeconds });
+  } else if (filters.release === 'unreleased') {
+    // Announced games often have no release date yet
+    conditions.push([
+      { field: 'first_release_date', operator: '>', value: nowSeconds },
+      { field: 'first_release_date', operator: '=', value: null },
+    ]);
+  }
+  return conditions;
+}
+
+/**
+ * Metadata provider backed by IGDB.
+ * Supplies search results, game details and IGDB or Steam URL lookups.
+ */
+export class IgdbProvider implements MetadataProvider {
+  readonly id = IGDB_PROVIDER_ID;
+  readonly capabilities: readonly ProviderCapability[] = ['search', 'details', 'url'];
+  private client: IgdbClient;
+
+  /**
+   * Creates a new IGDB provider.
+   * @param client - IGDB API client
+   */
+  constructor(client: IgdbClient) {
+    this.client = client;
+  }
+
+  /**
+   * Searches IGDB for games matching the query.
+   * @param query - Search query
+   * @param limit - Maximum number of results
+   * @param filters - Optional filters, turned into IGDB where clauses
+   * @returns Matching games
+   */
+  async search(query: string, limit: number, filters: SearchFilters = {}): Promise<GameSummary[]> {
+    const games = await this.client.searchGames(query, limit, toIgdbConditions(filters));
+    return games.map((game) => this.toSummary(game));
+  }
+
+  /**
+   * Gets detailed game information from IGDB.
+   * @param id - IGDB game identifier
+   * @returns Game details or null if not found
+   */
+  async getDetails(id: number): Promise<GameDetails | null> {
+    const game = await this.client.getGameById(id);
+    if (!game) return null;
+    return {
+      ...this.toSummary(game),
+      description: game.summary || game.storyline || null,
+      facets: toFacets(game),
+      links: toLinks(game),
+      screenshots: this.toScreenshots(game),
+      videos: toVideos(game),
+    };
+  }
+
+  /**
+   * Resolves an IGDB game page or a Steam store page to an IGDB game.
+   * @param url - Parsed game URL
+   * @returns The identified game, or null for other sources or unknown games
+   */
+  async resolveUrl(url: GameUrl): Promise<UrlMatch | null> {
+    let game: IgdbGame | null;
+    if (url.source === 'igdb') {
+      game = await this.client.getGameBySlug(url.slug);
+    } else if (url.source === 'steam') {
+      game = await this.client.getGameBySteamAppId(url.appId);
+    } else {
+      return null;
+    }
+    if (!game) return null;
+
+    const summary = this.toSummary(game);
+    return {
+      game: summary,
+      title: summary.name,
+      releaseYear: summary.releaseYear,
+      timeToBeat: null,
+      coverUrl: null,
+    };
+  }
+
+  /**
+   * Lists a game's screenshots, then its artworks, at every resolution.
+   * @param game - IGDB game with detail fields
+   * @returns Screenshot URLs
+   */
+  private toScreenshots(game: IgdbGame): GameScreenshot[] {
+    return [...(game.screenshots ?? []), ...(game.artworks ?? [])]
+      .filter((image) => image.image_id)
+      .map((image) => ({
+        medium: this.client.getCoverUrl(image.image_id, SCREENSHOT_IMAGE_SIZES.medium),
+        large: this.client.getCoverUrl(image.image_id, SCREENSHOT_IMAGE_SIZES.large),
+        huge: this.client.getCoverUrl(image.image_id, SCREENSHOT_IMAGE_SIZES.huge),
+      }));
+  }
+
+  /**
+   * Maps an IGDB game to a provider-neutral summary.
+   * @param game - IGDB game
+   * @returns Game summary
+   */
+  private toSummary(game: IgdbGame): GameSummary {
+    return {
+      providerId: this.id,
+      id: game.id,
+      name: game.name,
+      releaseYear: game.first_release_date
+        ? new Date(game.first_release_date * 1000).getFullYear()
+        : null,
+      rating: game.aggregated_rating ? Math.round(game.aggregated_rating) : null,
+      genres: game.genres?.map((g) => g.name) || [],
+      thumbnailUrl: game.cover?.image_id
+        ? this.client.getCoverUrl(game.cover.image_id, 'cover_small')
+        : null,
+      coverUrl: game.cover?.image_id
+        ? this.client.getCoverUrl(game.cover.image_id, 'cover_big')
+        : null,
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export * from './types';
+export { ProviderRegistry } from './registry';
+export { IgdbProvider, IGDB_PROVIDER_ID, toFacets, toIgdbConditions, toLinks, toVideos } from './igdb';
+export { HltbProvider, HLTB_PROVIDER_ID } from './hltb';
+export { SteamGridDbProvider, SGDB_PROVIDER_ID } from './steamgriddb';
+export * from './lookup';
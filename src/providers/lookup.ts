@@ -0,0 +1,253 @@
+import type { PlanningMetric } from '../settings';
+
+import type { ProviderRegistry } from './registry';
+import type {
+  ArtworkGame,
+  ArtworkSet,
+  GameDetails,
+  GameSummary,
+  TimeToBeat,
+  TimeToBeatCandidate,
+} from './types';
+
+// Declare global console for ESLint
+declare const console: Console;
+
+/**
+ * Normalizes a title for exact comparison, ignoring case, accents and punctuation.
+ * @param title - Game title
+ * @returns Normalized title
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Counts the single-character edits turning one string into another.
+ * @param a - First string
+ * @param b - Second string
+ * @returns Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Scores how alike two titles are, ignoring case, accents and punctuation.
+ * A title extending the other by whole words (an edition or subtitle) scores 0.9.
+ * @param a - First title
+ * @param b - Second title
+ * @returns Similarity between 0 and 1; 1 when the normalized titles are equal
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const x = normalizeTitle(a);
+  const y = normalizeTitle(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  if (longer.startsWith(`${shorter} `)) return 0.9;
+  return 1 - editDistance(x, y) / longer.length;
+}
+
+/**
+ * Finds the result whose title matches exactly, ignoring case and punctuation.
+ * When several do, the release year decides.
+ * @param results - Search results
+ * @param title - Title to match
+ * @param releaseYear - Known release year, if any
+ * @returns The exact match, or null if there is none or it is ambiguous
+ */
+export function findExactMatch(
+  results: GameSummary[],
+  title: string,
+  releaseYear: number | null = null
+): GameSummary | null {
+  const wanted = normalizeTitle(title);
+  const exact = results.filter((r) => normalizeTitle(r.name) === wanted);
+  return (
+    exact.find((r) => releaseYear !== null && r.releaseYear === releaseYear) ??
+    (exact.length === 1 ? exact[0] : null)
+  );
+}
+
+// Completion hours per planning metric, null where unknown
+export type PlanningHours = Record<PlanningMetric, number | null>;
+
+/**
+ * Collects the completion hours of each planning metric.
+ * @param timeToBeat - Completion times, if any
+ * @returns Hours per metric; zero (no data) becomes null
+ */
+export function toPlanningHours(timeToBeat: TimeToBeat | null): PlanningHours {
+  return {
+    main: timeToBeat?.mainStoryHours || null,
+    extras: timeToBeat?.mainPlusExtrasHours || null,
+    completionist: timeToBeat?.completionistHours || null,
+  };
+}
+
+/**
+ * Picks the completion time that counts for planning.
+ * Games without a time for the chosen metric fall back to the main story.
+ * @param hours - Hours per metric
+ * @param metric - Planning metric
+ * @returns Planning hours, or null if unknown
+ */
+export function selectPlanningHours(hours: PlanningHours, metric: PlanningMetric): number | null {
+  return hours[metric] ?? hours.main;
+}
+
+/**
+ * Calculates efficiency score (rating / hours).
+ * @param rating - Game rating
+ * @param hltbHours - Planning hours
+ * @returns Efficiency score or null if cannot be calculated
+ */
+export function calculateEfficiency(rating: number | null, hltbHours: number | null): number | null {
+  if (rating && hltbHours && hltbHours > 0) {
+    return Math.round((rating / hltbHours) * 100) / 100;
+  }
+  return null;
+}
+
+/**
+ * Fetches full game details from the provider that found the game.
+ * Providers without details fall back to the summary.
+ * @param providers - Provider registry
+ * @param game - Search result
+ * @returns Game details
+ * @throws {Error} If the provider does not know the game
+ */
+export async function fetchDetails(providers: ProviderRegistry, game: GameSummary): Promise<GameDetails> {
+  const provider = providers.get(game.providerId);
+  const details = provider?.getDetails
+    ? await provider.getDetails(game.id)
+    : { ...game, description: null };
+  if (!details) {
+    throw new Error('Failed to fetch game details');
+  }
+  return details;
+}
+
+/**
+ * Fetches completion times from the first time-to-beat provider.
+ * @param providers - Provider registry
+ * @param gameName - Name of the game to fetch completion times for
+ * @returns Completion times or null if failed
+ */
+export async function fetchTimeToBeat(
+  providers: ProviderRegistry,
+  gameName: string
+): Promise<TimeToBeat | null> {
+  const provider = providers.first('timeToBeat');
+  if (!provider?.getTimeToBeat) return null;
+  try {
+    return await provider.getTimeToBeat(gameName);
+  } catch (e) {
+    console.warn('Time-to-beat fetch failed:', e);
+    return null;
+  }
+}
+
+/**
+ * Fetches the games that may match a title from the first time-to-beat provider.
+ * Providers that do not rank matches yield their single match, without a confidence.
+ * @param providers - Provider registry
+ * @param gameName - Name of the game
+ * @param limit - Maximum number of candidates (default: 5)
+ * @returns Candidates, most likely first; empty if none or the lookup failed
+ */
+export async function fetchTimeToBeatCandidates(
+  providers: ProviderRegistry,
+  gameName: string,
+  limit = 5
+): Promise<TimeToBeatCandidate[]> {
+  const provider = providers.first('timeToBeat');
+  if (!provider) return [];
+  try {
+    if (provider.getTimeToBeatCandidates) {
+      return await provider.getTimeToBeatCandidates(gameName, limit);
+    }
+    const single = provider.getTimeToBeat ? await provider.getTimeToBeat(gameName) : null;
+    return single ? [{ ...single, confidence: null }] : [];
+  } catch (e) {
+    console.warn('Time-to-beat candidates fetch failed:', e);
+    return [];
+  }
+}
+
+/**
+ * Fetches the best cover URL for a game.
+ * Artwork providers are tried in order; the details cover is the fallback.
+ * @param providers - Provider registry
+ * @param gameName - Name of the game
+ * @param fallbackUrl - Cover URL from the game details
+ * @returns Best cover URL or null if not found
+ */
+export async function fetchCoverUrl(
+  providers: ProviderRegistry,
+  gameName: string,
+  fallbackUrl: string | null
+): Promise<string | null> {
+  for (const provider of providers.withCapability('artwork')) {
+    if (!provider.getCoverArt) continue;
+    try {
+      const url = await provider.getCoverArt(gameName);
+      if (url) return url;
+    } catch (e) {
+      console.warn(`Artwork fetch from ${provider.id} failed, using fallback cover:`, e);
+    }
+  }
+
+  return fallbackUrl;
+}
+
+/**
+ * Checks whether an artwork provider lets the user browse its images.
+ * @param providers - Provider registry
+ * @returns True if artwork can be picked by hand
+ */
+export function canPickArtwork(providers: ProviderRegistry): boolean {
+  return providers.withCapability('artwork').some((p) => p.findArtworkGames && p.getArtwork);
+}
+
+/**
+ * Finds the games the first browsable artwork provider knows under a title.
+ * @param providers - Provider registry
+ * @param gameName - Name of the game
+ * @returns Matching artwork games, most likely first
+ * @throws {Error} If the provider request fails
+ */
+export async function fetchArtworkGames(providers: ProviderRegistry, gameName: string): Promise<ArtworkGame[]> {
+  const provider = providers.withCapability('artwork').find((p) => p.findArtworkGames && p.getArtwork);
+  return provider?.findArtworkGames ? provider.findArtworkGames(gameName) : [];
+}
+
+/**
+ * Fetches the covers, heroes and logos of an artwork game.
+ * @param providers - Provider registry
+ * @param game - Artwork game
+ * @param limit - Maximum number of images per kind (default: 12)
+ * @returns Images per kind
+ * @throws {Error} If the provider request fails
+ */
+export async function fetchArtwork(providers: ProviderRegistry, game: ArtworkGame, limit = 12): Promise<ArtworkSet> {
+  const provider = providers.get(game.providerId);
+  return provider?.getArtwork
+    ? provider.getArtwork(game.id, limit)
+    : { grids: [], heroes: [], logos: [] };
+}
@@ -0,0 +1,65 @@
+import type { MetadataProvider, ProviderCapability } from './types';
+
+/**
+ * Registry of metadata providers.
+ * Providers are consulted in registration order.
+ */
+export class ProviderRegistry {
+  private providers: MetadataProvider[] = [];
+
+  /**
+   * Registers a provider, replacing any provider with the same id.
+   * @param provider - Provider to register
+   */
+  register(provider: MetadataProvider): void {
+    const index = this.providers.findIndex((p) => p.id === provider.id);
+    if (index >= 0) {
+      this.providers[index] = provider;
+    } else {
+      this.providers.push(provider);
+    }
+  }
+
+  /**
+   * Removes a provider from the registry.
+   * @param id - Provider identifier
+   */
+  unregister(id: string): void {
+    this.providers = this.providers.filter((p) => p.id !== id);
+  }
+
+  /**
+   * Gets a provider by id.
+   * @param id - Provider identifier
+   * @returns The provider or null if not registered
+   */
+  get(id: string): MetadataProvider | null {
+    return this.providers.find((p) => p.id === id) ?? null;
+  }
+
+  /**
+   * Lists all providers offering a capability.
+   * @param capability - Required capability
+   * @returns Matching providers in registration order
+   */
+  withCapability(capability: ProviderCapability): MetadataProvider[] {
+    return this.providers.filter((p) => p.capabilities.includes(capability));
+  }
+
+  /**
+   * Gets the first provider offering a capability.
+   * @param capability - Required capability
+   * @returns The provider or null if none is registered
+   */
+  first(capability: ProviderCapability): MetadataProvider | null {
+    return this.withCapability(capability)[0] ?? null;
+  }
+
+  /**
+   * Lists all registered providers.
+   * @returns Registered providers in registration order
+   */
+  all(): MetadataProvider[] {
+    return [...this.providers];
+  }
+}
@@ -0,0 +1,133 @@
+import { SteamGridDbClient } from '../api/steamgriddb';
+import type { SgdbGame, SgdbGrid } from '../api/steamgriddb';
+import type { GameUrl } from '../api/urls';
+
+import { normalizeTitle } from './lookup';
+import type {
+  ArtworkGame,
+  ArtworkImage,
+  ArtworkSet,
+  MetadataProvider,
+  ProviderCapability,
+  UrlMatch,
+} from './types';
+
+export const SGDB_PROVIDER_ID = 'steamgriddb';
+
+/**
+ * Keeps safe images, best scored first, and maps them to artwork images.
+ * @param images - Grids, heroes or logos
+ * @param limit - Maximum number of images
+ * @returns Artwork images
+ */
+function toArtworkImages(images: SgdbGrid[], limit: number): ArtworkImage[] {
+  return images
+    .filter((image) => !image.nsfw && !image.humor)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((image) => ({
+      id: image.id,
+      url: image.url,
+      thumbnailUrl: image.thumb,
+      width: image.width,
+      height: image.height,
+    }));
+}
+
+/**
+ * Gets the release year of a SteamGridDB game.
+ * @param game - SteamGridDB game
+ * @returns Release year or null if unknown
+ */
+function releaseYearOf(game: SgdbGame): number | null {
+  return game.release_date ? new Date(game.release_date * 1000).getFullYear() : null;
+}
+
+/**
+ * Metadata provider backed by SteamGridDB.
+ * Supplies cover artwork, by title or from a SteamGridDB URL, and the
+ * covers, heroes and logos offered by the artwork picker.
+ */
+export class SteamGridDbProvider implements MetadataProvider {
+  readonly id = SGDB_PROVIDER_ID;
+  readonly capabilities: readonly ProviderCapability[] = ['artwork', 'url'];
+  private client: SteamGridDbClient;
+
+  /**
+   * Creates a new SteamGridDB provider.
+   * @param client - SteamGridDB API client
+   */
+  constructor(client: SteamGridDbClient) {
+    this.client = client;
+  }
+
+  /**
+   * Gets the best-scored grid of the SteamGridDB game matching the title
+   * exactly, or of the first match if none does.
+   * @param title - Game title
+   * @returns Cover URL or null if not found
+   */
+  async getCoverArt(title: string): Promise<string | null> {
+    const games = await this.findArtworkGames(title);
+    if (games.length === 0) return null;
+    const grid = await this.client.getBestGrid(games[0].id);
+    return grid?.url ?? null;
+  }
+
+  /**
+   * Searches SteamGridDB for a title. An exact title match is moved to the front.
+   * @param title - Game title
+   * @returns Matching SteamGridDB games
+   */
+  async findArtworkGames(title: string): Promise<ArtworkGame[]> {
+    const games = (await this.client.searchGames(title)).map((game) => ({
+      providerId: this.id,
+      id: game.id,
+      name: game.name,
+      releaseYear: releaseYearOf(game),
+    }));
+    const wanted = normalizeTitle(title);
+    const exact = games.findIndex((game) => normalizeTitle(game.name) === wanted);
+    if (exact > 0) games.unshift(...games.splice(exact, 1));
+    return games;
+  }
+
+  /**
+   * Gets the safe grids, heroes and logos of a SteamGridDB game.
+   * @param id - SteamGridDB game identifier
+   * @param limit - Maximum number of images per kind
+   * @returns Images per kind, best scored first
+   */
+  async getArtwork(id: number, limit: number): Promise<ArtworkSet> {
+    const [grids, heroes, logos] = await Promise.all([
+      this.client.getGrids(id, { nsfw: false, humor: false }),
+      this.client.getHeroes(id),
+      this.client.getLogos(id),
+    ]);
+    return {
+      grids: toArtworkImages(grids, limit),
+      heroes: toArtworkImages(heroes, limit),
+      logos: toArtworkImages(logos, limit),
+    };
+  }
+
+  /**
+   * Resolves a SteamGridDB game page, pinning its best grid as the cover.
+   * @param url - Parsed game URL
+   * @returns The game's title and cover, or null for other sources
+   */
+  async resolveUrl(url: GameUrl): Promise<UrlMatch | null> {
+    if (url.source !== 'sgdb') return null;
+    const [game, grid] = await Promise.all([
+      this.client.getGameById(url.gameId),
+      this.client.getBestGrid(url.gameId),
+    ]);
+    return {
+      game: null,
+      title: game.name,
+      releaseYear: releaseYearOf(game),
+      timeToBeat: null,
+      coverUrl: grid?.url ?? null,
+    };
+  }
+}
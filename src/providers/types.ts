@@ -0,0 +1,204 @@
+import type { GameUrl } from '../api/urls';
+
+/**
+ * Capabilities a metadata provider can offer. The registry uses them to pick
+ * which provider answers a given kind of request.
+ */
+export type ProviderCapability = 'search' | 'details' | 'timeToBeat' | 'artwork' | 'url';
+
+export const PLATFORM_FAMILIES = ['pc', 'playstation', 'xbox', 'nintendo', 'mobile'] as const;
+export type PlatformFamily = (typeof PLATFORM_FAMILIES)[number];
+
+export const GAME_TYPES = ['main', 'dlc', 'expansion', 'remake', 'bundle'] as const;
+export type GameType = (typeof GAME_TYPES)[number];
+
+export const RELEASE_STATES = ['released', 'unreleased'] as const;
+export type ReleaseState = (typeof RELEASE_STATES)[number];
+
+/**
+ * Narrows a search. Unset or null fields do not filter; providers that
+ * cannot honour a filter ignore it.
+ */
+export interface SearchFilters {
+  platformFamily?: PlatformFamily | null;
+  yearFrom?: number | null; // Inclusive
+  yearTo?: number | null; // Inclusive
+  gameType?: GameType | null;
+  release?: ReleaseState | null;
+}
+
+export interface GameSummary {
+  providerId: string;
+  id: number;
+  name: string;
+  releaseYear: number | null;
+  rating: number | null; // Critic rating (0-100)
+  genres: string[];
+  thumbnailUrl: string | null;
+  coverUrl: string | null;
+}
+
+/**
+ * Lists describing a game beyond its genres, for filtering notes
+ * (a studio's games, co-op games, a franchise).
+ */
+export interface GameFacets {
+  developers: string[];
+  publishers: string[];
+  franchises: string[]; // Franchises and collections
+  gameModes: string[];
+  themes: string[];
+  perspectives: string[];
+  engines: string[];
+  keywords: string[];
+}
+
+// Stores and reference pages a note links to, in display order
+export const GAME_LINK_KINDS = ['official', 'steam', 'gog', 'epic', 'itch', 'eshop', 'wiki', 'wikipedia'] as const;
+export type GameLinkKind = (typeof GAME_LINK_KINDS)[number];
+
+export interface GameLink {
+  kind: GameLinkKind;
+  url: string;
+}
+
+// Screenshot resolutions offered for notes
+export const SCREENSHOT_SIZES = ['medium', 'large', 'huge'] as const;
+export type ScreenshotSize = (typeof SCREENSHOT_SIZES)[number];
+
+// A screenshot's URL at each resolution
+export type GameScreenshot = Record<ScreenshotSize, string>;
+
+export interface GameVideo {
+  name: string | null;
+  youtubeId: string;
+}
+
+export interface GameDetails extends GameSummary {
+  description: string | null;
+  facets?: GameFacets; // Absent for providers without this data
+  links?: GameLink[]; // One per kind, in GAME_LINK_KINDS order
+  screenshots?: GameScreenshot[];
+  videos?: GameVideo[]; // Trailers first
+}
+
+export interface TimeToBeat {
+  providerId: string;
+  id: number;
+  name: string;
+  mainStoryHours: number;
+  mainPlusExtrasHours: number;
+  completionistHours: number;
+}
+
+export interface TimeToBeatCandidate extends TimeToBeat {
+  confidence: number | null; // Title similarity (0-1), null if the provider does not rank matches
+}
+
+/**
+ * A game as known to an artwork provider, whose entries may not line up
+ * with the search provider's.
+ */
+export interface ArtworkGame {
+  providerId: string;
+  id: number;
+  name: string;
+  releaseYear: number | null;
+}
+
+export interface ArtworkImage {
+  id: number;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+// Images per kind, best scored first
+export interface ArtworkSet {
+  grids: ArtworkImage[]; // Covers
+  heroes: ArtworkImage[]; // Wide banners
+  logos: ArtworkImage[];
+}
+
+/**
+ * What a provider knows about a game from a pasted URL. Providers that cannot
+ * identify the game themselves return its title, so a search provider can
+ * find the exact match, and pin the data the URL pointed at.
+ */
+export interface UrlMatch {
+  game: GameSummary | null;
+  title: string;
+  releaseYear: number | null;
+  timeToBeat: TimeToBeat | null;
+  coverUrl: string | null;
+}
+
+/**
+ * A source of game metadata. Providers only implement the methods matching
+ * the capabilities they declare.
+ */
+export interface MetadataProvider {
+  readonly id: string;
+  readonly capabilities: readonly ProviderCapability[];
+
+  /**
+   * Searches for games matching the query.
+   * @param query - Search query
+   * @param limit - Maximum number of results
+   * @param filters - Optional filters narrowing the results
+   * @returns Matching games
+   */
+  search?(query: string, limit: number, filters?: SearchFilters): Promise<GameSummary[]>;
+
+  /**
+   * Gets detailed game information by provider identifier.
+   * @param id - Provider-specific game identifier
+   * @returns Game details or null if not found
+   */
+  getDetails?(id: number): Promise<GameDetails | null>;
+
+  /**
+   * Gets completion times for a game.
+   * @param title - Game title
+   * @returns Completion times or null if not found
+   */
+  getTimeToBeat?(title: string): Promise<TimeToBeat | null>;
+
+  /**
+   * Gets the games that may match a title, with their completion times.
+   * @param title - Game title
+   * @param limit - Maximum number of candidates
+   * @returns Candidates, most likely first
+   */
+  getTimeToBeatCandidates?(title: string, limit: number): Promise<TimeToBeatCandidate[]>;
+
+  /**
+   * Gets the preferred cover art URL for a game.
+   * @param title - Game title
+   * @returns Cover URL or null if not found
+   */
+  getCoverArt?(title: string): Promise<string | null>;
+
+  /**
+   * Finds the provider's own entries for a title, so artwork can be browsed.
+   * @param title - Game title
+   * @returns Matching games, most likely first
+   */
+  findArtworkGames?(title: string): Promise<ArtworkGame[]>;
+
+  /**
+   * Gets the covers, heroes and logos available for one of the provider's games.
+   * @param id - Provider-specific game identifier
+   * @param limit - Maximum number of images per kind
+   * @returns Images per kind
+   */
+  getArtwork?(id: number, limit: number): Promise<ArtworkSet>;
+
+  /**
+   * Resolves a game page URL from this provider's site.
+   * @param url - Parsed game URL
+   * @returns What the URL identifies, or null if the URL belongs to another source or is unknown
+   */
+  resolveUrl?(url: GameUrl): Promise<UrlMatch | null>;
+}
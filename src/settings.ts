@@ -1,7 +1,8 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 
 import GameBacklogPlugin from '../main';
 import { translate, LANG_NAMES, translatePriority } from './i18n';
+import { SCREENSHOT_SIZES, type ScreenshotSize } from './providers';
 
 export interface GameBacklogSettings {
   twitchClientId: string;
@@ -9,6 +10,23 @@ export interface GameBacklogSettings {
   steamGridDbApiKey: string;
   defaultPlatform: string;
   defaultPriority: string;
+  planningMetric: PlanningMetric;
+  notesFolder: string;
+  fileNamePattern: string;
+  fileNameEmoji: string;
+  dashboardPath: string;
+  noteTemplate: string;
+  downloadArtwork: boolean;
+  artworkFolder: string;
+  linkEntities: boolean;
+  genreFolder: string;
+  companyFolder: string;
+  franchiseFolder: string;
+  showScreenshots: boolean;
+  screenshotCount: number;
+  screenshotSize: ScreenshotSize;
+  downloadScreenshots: boolean;
+  showTrailers: boolean;
   language: string;
 }
 
@@ -17,7 +35,24 @@ export const DEFAULT_SETTINGS: GameBacklogSettings = {
   twitchClientSecret: '',
   steamGridDbApiKey: '',
   defaultPlatform: 'Steam Deck',
-  defaultPriority: 'Plus tard',
+  defaultPriority: 'will_get_around_to',
+  planningMetric: 'main',
+  notesFolder: '',
+  fileNamePattern: '{title}',
+  fileNameEmoji: '🎮',
+  dashboardPath: 'Video Game Backlog.md',
+  noteTemplate: '',
+  downloadArtwork: false,
+  artworkFolder: 'Attachments/Games',
+  linkEntities: false,
+  genreFolder: 'Games/Genres',
+  companyFolder: 'Games/Companies',
+  franchiseFolder: 'Games/Franchises',
+  showScreenshots: false,
+  screenshotCount: 4,
+  screenshotSize: 'large',
+  downloadScreenshots: false,
+  showTrailers: false,
   language: 'en',
 };
 
@@ -29,16 +64,21 @@ export const PLATFORMS = [
   'Android Handheld',
 ] as const;
 
+// Canonical priority keys stored in frontmatter; labels are localized at render time
 export const PRIORITIES = [
-  "À jouer absolument",
-  'Plus tard',
-  'En cours',
-  'Terminés',
-  'Abandonné',
+  'must_play',
+  'will_get_around_to',
+  'playing',
+  'completed',
+  'dropped',
 ] as const;
 
+// Completion-time metrics; the planning metric drives efficiency and the dashboard's hours to clear
+export const PLANNING_METRICS = ['main', 'extras', 'completionist'] as const;
+
 export type Platform = (typeof PLATFORMS)[number];
 export type Priority = (typeof PRIORITIES)[number];
+export type PlanningMetric = (typeof PLANNING_METRICS)[number];
 
 /**
  * Settings tab for the Game Backlog plugin.
@@ -158,6 +198,22 @@ export class GameBacklogSettingTab extends PluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'planning_metric'))
+      .setDesc(translate(this.plugin.settings.language, 'planning_metric_desc'))
+      .addDropdown((dropdown) => {
+        PLANNING_METRICS.forEach((metric) => {
+          dropdown.addOption(metric, translate(this.plugin.settings.language, `planning_metric_${metric}`));
+        });
+        dropdown
+          .setValue(this.plugin.settings.planningMetric)
+          .onChange(async (value) => {
+            this.plugin.settings.planningMetric = value as PlanningMetric;
+            await this.plugin.saveSettings();
+            await this.plugin.updateDashboardPlanningMetric();
+          });
+      });
+
     // Language selector
     new Setting(containerEl)
       .setName(translate(this.plugin.settings.language, 'language'))
@@ -173,5 +229,217 @@ export class GameBacklogSettingTab extends PluginSettingTab {
             this.display();
           });
       });
+
+    // Notes Section
+    new Setting(containerEl).setName(translate(this.plugin.settings.language, 'note_files_heading')).setHeading();
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'notes_folder'))
+      .setDesc(translate(this.plugin.settings.language, 'notes_folder_desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder('Gaming/Games')
+          .setValue(this.plugin.settings.notesFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.notesFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'file_name_pattern'))
+      .setDesc(translate(this.plugin.settings.language, 'file_name_pattern_desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.fileNamePattern)
+          .setValue(this.plugin.settings.fileNamePattern)
+          .onChange(async (value) => {
+            this.plugin.settings.fileNamePattern = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'file_name_emoji'))
+      .setDesc(translate(this.plugin.settings.language, 'file_name_emoji_desc'))
+      .addText((text) =>
+        text.setValue(this.plugin.settings.fileNameEmoji).onChange(async (value) => {
+          this.plugin.settings.fileNameEmoji = value.trim();
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'dashboard_path'))
+      .setDesc(translate(this.plugin.settings.language, 'dashboard_path_desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.dashboardPath)
+          .setValue(this.plugin.settings.dashboardPath)
+          .onChange(async (value) => {
+            this.plugin.settings.dashboardPath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'note_template'))
+      .setDesc(translate(this.plugin.settings.language, 'note_template_desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder('Templates/Game.md')
+          .setValue(this.plugin.settings.noteTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.noteTemplate = value.trim();
+            this.plugin.excludeNoteTemplate();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Artwork Section
+    new Setting(containerEl).setName(translate(this.plugin.settings.language, 'artwork_heading')).setHeading();
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'download_artwork'))
+      .setDesc(translate(this.plugin.settings.language, 'download_artwork_desc'))
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.downloadArtwork).onChange(async (value) => {
+          this.plugin.settings.downloadArtwork = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'artwork_folder'))
+      .setDesc(translate(this.plugin.settings.language, 'artwork_folder_desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.artworkFolder)
+          .setValue(this.plugin.settings.artworkFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.artworkFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Screenshots and Trailers Section
+    new Setting(containerEl).setName(translate(this.plugin.settings.language, 'media_heading')).setHeading();
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'show_screenshots'))
+      .setDesc(translate(this.plugin.settings.language, 'show_screenshots_desc'))
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.showScreenshots).onChange(async (value) => {
+          this.plugin.settings.showScreenshots = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'screenshot_count'))
+      .setDesc(translate(this.plugin.settings.language, 'screenshot_count_desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.screenshotCount))
+          .setValue(String(this.plugin.settings.screenshotCount))
+          .onChange(async (value) => {
+            const count = Number(value);
+            if (!Number.isInteger(count) || count < 1 || count > 20) return;
+            this.plugin.settings.screenshotCount = count;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'screenshot_size'))
+      .setDesc(translate(this.plugin.settings.language, 'screenshot_size_desc'))
+      .addDropdown((dropdown) => {
+        SCREENSHOT_SIZES.forEach((size) => {
+          dropdown.addOption(size, translate(this.plugin.settings.language, `screenshot_size_${size}`));
+        });
+        dropdown.setValue(this.plugin.settings.screenshotSize).onChange(async (value) => {
+          this.plugin.settings.screenshotSize = value as ScreenshotSize;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'download_screenshots'))
+      .setDesc(translate(this.plugin.settings.language, 'download_screenshots_desc'))
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.downloadScreenshots).onChange(async (value) => {
+          this.plugin.settings.downloadScreenshots = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'show_trailers'))
+      .setDesc(translate(this.plugin.settings.language, 'show_trailers_desc'))
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.showTrailers).onChange(async (value) => {
+          this.plugin.settings.showTrailers = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Knowledge Graph Section
+    new Setting(containerEl).setName(translate(this.plugin.settings.language, 'entities_heading')).setHeading();
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'link_entities'))
+      .setDesc(translate(this.plugin.settings.language, 'link_entities_desc'))
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.linkEntities).onChange(async (value) => {
+          this.plugin.settings.linkEntities = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    const entityFolders = [
+      ['genreFolder', 'genre_folder'],
+      ['companyFolder', 'company_folder'],
+      ['franchiseFolder', 'franchise_folder'],
+    ] as const;
+    entityFolders.forEach(([setting, key]) => {
+      new Setting(containerEl)
+        .setName(translate(this.plugin.settings.language, key))
+        .setDesc(translate(this.plugin.settings.language, `${key}_desc`))
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_SETTINGS[setting])
+            .setValue(this.plugin.settings[setting])
+            .onChange(async (value) => {
+              this.plugin.settings[setting] = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    });
+
+    // Cache Section
+    new Setting(containerEl).setName(translate(this.plugin.settings.language, 'cache_heading')).setHeading();
+
+    const stats = this.plugin.cache?.getStats() ?? { hits: 0, misses: 0, entries: 0 };
+    const lookups = stats.hits + stats.misses;
+    const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+    new Setting(containerEl)
+      .setName(translate(this.plugin.settings.language, 'clear_cache'))
+      .setDesc(
+        translate(this.plugin.settings.language, 'cache_stats')
+          .replace('{entries}', String(stats.entries))
+          .replace('{hits}', String(stats.hits))
+          .replace('{misses}', String(stats.misses))
+          .replace('{rate}', String(hitRate))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(translate(this.plugin.settings.language, 'clear_cache_button'))
+          .onClick(async () => {
+            await this.plugin.cache.clear();
+            new Notice(translate(this.plugin.settings.language, 'cache_cleared_notice'));
+            this.display();
+          })
+      );
   }
 }
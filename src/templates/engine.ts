@@ -0,0 +1,203 @@
+import { formatYamlScalar } from './yaml';
+
+// Values a template can refer to
+export type TemplateValue = string | number | boolean | null | TemplateValue[] | TemplateObject;
+
+/**
+ * Nested template values, reached with dotted names such as `{{game.title}}`.
+ */
+export interface TemplateObject {
+  [key: string]: TemplateValue;
+}
+
+/**
+ * Error raised for templates that cannot be parsed.
+ */
+export class TemplateError extends Error {
+  /**
+   * Creates a new template error.
+   * @param message - Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// Parsed template: literal text, placeholders and blocks
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; name: string; filter: string | null }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; name: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+// Block being parsed, with the list its nodes are currently added to
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  inElse: boolean;
+}
+
+const TAG = /\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+
+/**
+ * Parses a template into nodes.
+ * @param template - Template text
+ * @returns Top-level nodes
+ * @throws {TemplateError} If a block is unknown, unclosed or closed twice
+ */
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const target = () => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    if (open.node.type === 'if') return open.inElse ? open.node.otherwise : open.node.then;
+    return open.inElse ? open.node.otherwise : open.node.body;
+  };
+
+  let last = 0;
+  let match: RegExpExecArray | null;
+  TAG.lastIndex = 0;
+  while ((match = TAG.exec(template)) !== null) {
+    if (match.index > last) target().push({ type: 'text', text: template.slice(last, match.index) });
+    last = TAG.lastIndex;
+
+    const [, sigil, content] = match;
+    const [keyword, ...rest] = content.split(/\s+/);
+    const name = rest.join(' ');
+    if (sigil === '#') {
+      if ((keyword !== 'if' && keyword !== 'each') || !name) {
+        throw new TemplateError(`Unknown block "{{#${content}}}"`);
+      }
+      const node: OpenBlock['node'] =
+        keyword === 'if'
+          ? { type: 'if', name, then: [], otherwise: [] }
+          : { type: 'each', name, body: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.node.type !== keyword) {
+        throw new TemplateError(`Unexpected "{{/${content}}}"`);
+      }
+    } else if (content === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) throw new TemplateError('Unexpected "{{else}}"');
+      open.inElse = true;
+    } else {
+      const [valueName, filter] = content.split('|').map((part) => part.trim());
+      target().push({ type: 'value', name: valueName, filter: filter ?? null });
+    }
+  }
+  if (last < template.length) target().push({ type: 'text', text: template.slice(last) });
+
+  const unclosed = stack.pop();
+  if (unclosed) throw new TemplateError(`Missing "{{/${unclosed.node.type}}}" for "${unclosed.node.name}"`);
+  return root;
+}
+
+/**
+ * Looks up a dotted name, innermost scope first.
+ * @param name - Value name, `this` for the current loop item
+ * @param scopes - Scopes from outermost to innermost
+ * @returns The value, or null if unknown
+ */
+function lookup(name: string, scopes: TemplateValue[]): TemplateValue {
+  const [head, ...path] = name.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    let value: TemplateValue | undefined;
+    if (head === 'this') {
+      value = scope;
+    } else if (scope !== null && typeof scope === 'object' && !Array.isArray(scope) && head in scope) {
+      value = scope[head];
+    }
+    if (value === undefined) continue;
+    for (const key of path) {
+      value = value !== null && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+      if (value === undefined) return null;
+    }
+    return value;
+  }
+  return null;
+}
+
+/**
+ * Checks whether a value counts as present in conditionals.
+ * @param value - Template value
+ * @returns False for null, false, zero, blank strings and empty lists
+ */
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return Boolean(value);
+}
+
+/**
+ * Formats a value as YAML on a single line, lists as flow sequences.
+ * @param value - Template value
+ * @returns YAML value
+ */
+function toYaml(value: TemplateValue): string {
+  if (Array.isArray(value)) return `[${value.map(toYaml).join(', ')}]`;
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return formatYamlScalar(value);
+}
+
+/**
+ * Formats a value as text.
+ * @param value - Template value
+ * @param filter - `yaml` for a quoted YAML scalar or flow list, else null
+ * @returns Text to insert
+ * @throws {TemplateError} If the filter is unknown
+ */
+function format(value: TemplateValue, filter: string | null): string {
+  if (filter === 'yaml') return toYaml(value);
+  if (filter !== null) throw new TemplateError(`Unknown filter "${filter}"`);
+  if (value === null) return '';
+  if (Array.isArray(value)) return value.map((item) => format(item, null)).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Renders parsed nodes.
+ * @param nodes - Parsed nodes
+ * @param scopes - Scopes from outermost to innermost
+ * @returns Rendered text
+ */
+function renderNodes(nodes: TemplateNode[], scopes: TemplateValue[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'value':
+          return format(lookup(node.name, scopes), node.filter);
+        case 'if':
+          return renderNodes(isTruthy(lookup(node.name, scopes)) ? node.then : node.otherwise, scopes);
+        case 'each': {
+          const list = lookup(node.name, scopes);
+          const items = Array.isArray(list) ? list : [];
+          if (items.length === 0) return renderNodes(node.otherwise, scopes);
+          return items
+            .map((item, index) => renderNodes(node.body, [...scopes, { '@index': index + 1 }, item]))
+            .join('');
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Renders a template with `{{name}}` placeholders, `{{#if name}}…{{else}}…{{/if}}`
+ * conditionals and `{{#each list}}…{{this}}…{{/each}}` loops.
+ * Unknown names render as empty text.
+ * @param template - Template text
+ * @param context - Values available to the template
+ * @returns Rendered text
+ * @throws {TemplateError} If the template cannot be parsed
+ */
+export function renderTemplate(template: string, context: TemplateObject): string {
+  return renderNodes(parse(template), [context]);
+}
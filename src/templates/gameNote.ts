@@ -1,14 +1,80 @@
+import { translate, translatePriority } from '../i18n';
+import { CURRENT_SCHEMA_VERSION } from '../migrations/schema';
+import type { GameFacets, GameLink, GameVideo, ScreenshotSize } from '../providers';
+import type { PlanningMetric } from '../settings';
 import { GameData } from '../ui/AddGameModal';
-import { translate } from '../i18n';
+
+import { renderTemplate, type TemplateObject } from './engine';
+import { stringifyFrontmatter, type YamlFields } from './yaml';
+
+// Frontmatter field holding the hours of each planning metric
+export const PLANNING_FIELDS: Record<PlanningMetric, string> = {
+  main: 'hltb_hours',
+  extras: 'hltb_extras_hours',
+  completionist: 'hltb_completionist_hours',
+};
+
+// Frontmatter list field of each game facet, in output order
+export const FACET_FIELDS: Record<keyof GameFacets, string> = {
+  developers: 'developers',
+  publishers: 'publishers',
+  franchises: 'franchises',
+  gameModes: 'game_modes',
+  themes: 'themes',
+  perspectives: 'perspectives',
+  engines: 'engines',
+  keywords: 'keywords',
+};
+
+// Where game notes are written and how they are named
+export interface NoteNaming {
+  folder: string; // Vault folder, empty for the root
+  pattern: string; // File name with {title}, {year}, {platform} and {igdb_id} placeholders
+  emoji: string; // Prefix, empty for none
+}
+
+export const DEFAULT_NOTE_NAMING: NoteNaming = { folder: '', pattern: '{title}', emoji: '🎮' };
+
+// Screenshots and trailers added to notes
+export interface NoteMedia {
+  screenshots: number; // Screenshots in the gallery, 0 for none
+  screenshotSize: ScreenshotSize;
+  trailers: boolean;
+}
+
+export const DEFAULT_NOTE_MEDIA: NoteMedia = { screenshots: 0, screenshotSize: 'large', trailers: false };
+
+// Trailers embedded at most, so notes stay light
+export const TRAILER_LIMIT = 2;
+
+// Game details available to file name placeholders
+export interface FileNameFields {
+  title: string;
+  releaseYear: number | null;
+  platform: string | null;
+  igdbId: number | null;
+}
 
 /**
  * Generates a complete game note with frontmatter and body content.
  * @param data - Game data to include in the note
+ * @param language - Language of headings and labels
+ * @param template - User template replacing the built-in layout, if any
+ * @param media - Screenshots and trailers to include
  * @returns Complete markdown content for the game note
+ * @throws {TemplateError} If the user template cannot be parsed
  */
-export function generateGameNote(data: GameData, language = 'en'): string {
+export function generateGameNote(
+  data: GameData,
+  language = 'en',
+  template: string | null = null,
+  media: NoteMedia = DEFAULT_NOTE_MEDIA
+): string {
+  if (template !== null) {
+    return renderTemplate(template, templateContext(data, language, media));
+  }
   const frontmatter = generateFrontmatter(data, language);
-  const body = generateBody(data, language);
+  const body = generateBody(data, language, media);
   return `${frontmatter}\n${body}`;
 }
 
@@ -18,77 +84,140 @@ export function generateGameNote(data: GameData, language = 'en'): string {
  * @returns YAML frontmatter string
  */
 function generateFrontmatter(data: GameData, language = 'en'): string {
-  const lines: string[] = ['---'];
-
-  lines.push(`title: "${escapeYaml(data.title)}"`);
-  lines.push(`platform: "${data.platform}"`);
-  lines.push(`priority: "${data.priority}"`);
-
   // No localized duplicate frontmatter fields — use canonical fields only.
+  const fields: YamlFields = [
+    ['title', data.title],
+    ['platform', data.platform],
+    ['priority', data.priority],
+    ['rating', data.rating],
+    [PLANNING_FIELDS.main, data.hltbHours],
+    [PLANNING_FIELDS.extras, data.hltbExtrasHours],
+    [PLANNING_FIELDS.completionist, data.hltbCompletionistHours],
+    ['planning_metric', data.planningMetric],
+    ['efficiency', data.efficiency],
+  ];
 
-  if (data.rating !== null) {
-    lines.push(`rating: ${data.rating}`);
-  } else {
-    lines.push('rating: null');
-  }
-
-  if (data.hltbHours !== null) {
-    lines.push(`hltb_hours: ${data.hltbHours}`);
-  } else {
-    lines.push('hltb_hours: null');
+  if (data.coverUrl) {
+    fields.push(['cover', imageProperty(data.coverUrl)]);
   }
 
-  if (data.efficiency !== null) {
-    lines.push(`efficiency: ${data.efficiency}`);
-  } else {
-    lines.push('efficiency: null');
+  if (data.heroUrl) {
+    fields.push(['hero', imageProperty(data.heroUrl)]);
   }
 
-  if (data.coverUrl) {
-    lines.push(`cover: "${data.coverUrl}"`);
+  if (data.logoUrl) {
+    fields.push(['logo', imageProperty(data.logoUrl)]);
   }
 
   if (data.igdbId) {
-    lines.push(`igdb_id: ${data.igdbId}`);
+    fields.push(['igdb_id', data.igdbId]);
   }
 
   if (data.releaseYear) {
-    lines.push(`release_year: ${data.releaseYear}`);
+    fields.push(['release_year', data.releaseYear]);
   }
 
   if (data.genres.length > 0) {
-    lines.push('genres:');
-    data.genres.forEach((genre) => {
-      lines.push(`  - "${escapeYaml(genre)}"`);
-    });
-
-    // No localized genre duplicates.
+    fields.push(['genres', data.genres]);
   }
 
-    // Always include Note field in frontmatter (null by default)
-    lines.push('Note: null');
+  facetFields(data).forEach(([field, values]) => {
+    if (values.length > 0) fields.push([field, values]);
+  });
 
-  lines.push(`added: ${new Date().toISOString().split('T')[0]}`);
-  lines.push('tags:');
-  lines.push('  - game');
-  lines.push('  - backlog');
+  data.links?.forEach((link) => {
+    fields.push([linkField(link), link.url]);
+  });
 
-  lines.push('---');
+  // Always include Note field in frontmatter (null by default)
+  fields.push(['Note', null]);
+  fields.push(['added', new Date()]);
+  fields.push(['schema_version', CURRENT_SCHEMA_VERSION]);
+  fields.push(['tags', ['game', 'backlog']]);
 
-  return lines.join('\n');
+  return stringifyFrontmatter(fields, { plainKeys: ['tags'] });
+}
+
+/**
+ * Lists the facets of a game by frontmatter field, empty for unknown facets.
+ * @param data - Game data
+ * @returns Field names with their values, in output order
+ */
+export function facetFields(data: GameData): Array<[field: string, values: string[]]> {
+  return (Object.keys(FACET_FIELDS) as Array<keyof GameFacets>).map((facet) => [
+    FACET_FIELDS[facet],
+    data.facets?.[facet] ?? [],
+  ]);
+}
+
+/**
+ * Names the frontmatter field holding a link's URL.
+ * @param link - Store or reference link
+ * @returns Field name, such as `steam_url`
+ */
+export function linkField(link: GameLink): string {
+  return `${link.kind}_url`;
+}
+
+/**
+ * Formats a link as a markdown list item with a readable label.
+ * @param link - Store or reference link
+ * @param language - Language of the label
+ * @returns Markdown list item
+ */
+function linkItem(link: GameLink, language = 'en'): string {
+  const url = link.url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+  return `- [${translate(language, `link_${link.kind}`)}](${url})`;
+}
+
+/**
+ * Picks the screenshots of a note's gallery.
+ * @param data - Game data
+ * @param media - Screenshot count and size
+ * @returns Image URLs or vault paths
+ */
+export function noteScreenshots(data: GameData, media: NoteMedia): string[] {
+  return (data.screenshots ?? []).slice(0, media.screenshots).map((screenshot) => screenshot[media.screenshotSize]);
+}
+
+/**
+ * Picks the trailers embedded in a note.
+ * @param data - Game data
+ * @param media - Whether trailers are wanted
+ * @returns Videos, trailers first
+ */
+export function noteTrailers(data: GameData, media: NoteMedia): GameVideo[] {
+  return media.trailers ? (data.videos ?? []).slice(0, TRAILER_LIMIT) : [];
+}
+
+/**
+ * Builds the YouTube page of a video, which Obsidian embeds as a player.
+ * @param video - Game video
+ * @returns YouTube URL
+ */
+export function youtubeUrl(video: GameVideo): string {
+  return `https://www.youtube.com/watch?v=${encodeURIComponent(video.youtubeId)}`;
 }
 
 /**
  * Generates the markdown body content for the game note.
  * @param data - Game data to include in the body
+ * @param language - Language of headings and labels
+ * @param media - Screenshots and trailers to include
  * @returns Markdown body content
  */
-function generateBody(data: GameData, language = 'en'): string {
+function generateBody(data: GameData, language = 'en', media: NoteMedia = DEFAULT_NOTE_MEDIA): string {
   const sections: string[] = [];
 
+  // Hero banner, above the cover
+  if (data.heroUrl) {
+    sections.push(embedImage(data.heroUrl, 'hero'));
+    sections.push('');
+  }
+
   // Cover image
   if (data.coverUrl) {
-    sections.push(`![cover](${data.coverUrl})`);
+    sections.push(embedImage(data.coverUrl, 'cover'));
     sections.push('');
   }
 
@@ -117,15 +246,35 @@ function generateBody(data: GameData, language = 'en'): string {
   if (data.description) {
     sections.push(`## ${translate(language, 'description_heading')}`);
     sections.push('');
-    // Truncate description if too long and clean it up
-    let desc = data.description;
-    // Remove HTML entities
-    desc = desc.replace(/&#\d+;/g, '');
-    // Limit to first 800 chars if very long
-    if (desc.length > 800) {
-      desc = `${desc.substring(0, 800).trim()  }...`;
-    }
-    sections.push(desc);
+    sections.push(cleanDescription(data.description));
+    sections.push('');
+  }
+
+  // Screenshot gallery
+  const screenshots = noteScreenshots(data, media);
+  if (screenshots.length > 0) {
+    sections.push(`## ${translate(language, 'screenshots_heading')}`);
+    sections.push('');
+    screenshots.forEach((src) => sections.push(embedImage(src, 'screenshot')));
+    sections.push('');
+  }
+
+  // Trailers, embedded as YouTube players
+  const trailers = noteTrailers(data, media);
+  if (trailers.length > 0) {
+    sections.push(`## ${translate(language, 'trailers_heading')}`);
+    sections.push('');
+    trailers.forEach((video) => {
+      sections.push(`![${video.name ?? translate(language, 'trailer_label')}](${youtubeUrl(video)})`);
+      sections.push('');
+    });
+  }
+
+  // Store pages and reference sites
+  if (data.links && data.links.length > 0) {
+    sections.push(`## ${translate(language, 'links_heading')}`);
+    sections.push('');
+    data.links.forEach((link) => sections.push(linkItem(link, language)));
     sections.push('');
   }
 
@@ -138,25 +287,151 @@ function generateBody(data: GameData, language = 'en'): string {
 }
 
 /**
- * Escapes special characters in a string for YAML compatibility.
- * @param str - String to escape
- * @returns Escaped string
+ * Cleans up a description for the note body.
+ * @param description - Description from the metadata provider
+ * @returns Description without HTML entities, truncated if very long
  */
-function escapeYaml(str: string): string {
-  return str.replace(/"/g, '\\"');
+function cleanDescription(description: string): string {
+  // Remove HTML entities
+  const desc = description.replace(/&#\d+;/g, '');
+  // Limit to first 800 chars if very long
+  return desc.length > 800 ? `${desc.substring(0, 800).trim()}...` : desc;
 }
 
 /**
- * Generates a safe filename for the game note.
+ * Collects the values available to user templates.
+ * Images come both as embeds (`cover`) and as frontmatter values (`cover_url`).
+ * @param data - Game data to include in the note
+ * @param language - Language of labels
+ * @param media - Screenshots and trailers to include
+ * @returns Template values by placeholder name
+ */
+export function templateContext(data: GameData, language = 'en', media: NoteMedia = DEFAULT_NOTE_MEDIA): TemplateObject {
+  const image = (src: string | null, alt: string) => ({
+    embed: src ? embedImage(src, alt) : null,
+    property: src ? imageProperty(src) : null,
+  });
+  const cover = image(data.coverUrl, 'cover');
+  const hero = image(data.heroUrl, 'hero');
+  const logo = image(data.logoUrl, 'logo');
+  const facets: TemplateObject = {};
+  facetFields(data).forEach(([field, values]) => {
+    facets[field] = values;
+  });
+  const links = data.links ?? [];
+  const linkUrls: TemplateObject = {};
+  links.forEach((link) => {
+    linkUrls[linkField(link)] = link.url;
+  });
+  return {
+    title: data.title,
+    platform: data.platform,
+    priority: data.priority,
+    priority_label: translatePriority(language, data.priority),
+    rating: data.rating,
+    hltb_main: data.hltbHours,
+    hltb_extras: data.hltbExtrasHours,
+    hltb_completionist: data.hltbCompletionistHours,
+    planning_metric: data.planningMetric,
+    efficiency: data.efficiency,
+    cover: cover.embed,
+    cover_url: cover.property,
+    hero: hero.embed,
+    hero_url: hero.property,
+    logo: logo.embed,
+    logo_url: logo.property,
+    description: data.description ? cleanDescription(data.description) : null,
+    genres: data.genres,
+    igdb_id: data.igdbId,
+    release_year: data.releaseYear,
+    ...facets,
+    links: links.map((link) => ({ kind: link.kind, label: translate(language, `link_${link.kind}`), url: link.url })),
+    ...linkUrls,
+    screenshots: noteScreenshots(data, media).map((src) => embedImage(src, 'screenshot')),
+    trailers: noteTrailers(data, media).map((video) => ({
+      name: video.name ?? translate(language, 'trailer_label'),
+      url: youtubeUrl(video),
+    })),
+    added: new Date().toISOString().split('T')[0],
+    schema_version: CURRENT_SCHEMA_VERSION,
+  };
+}
+
+/**
+ * Checks whether an image reference points to the web rather than into the vault.
+ * @param src - Image URL or vault path
+ * @returns True for http(s) URLs
+ */
+export function isRemoteUrl(src: string): boolean {
+  return /^https?:\/\//i.test(src);
+}
+
+/**
+ * Formats an image reference as a frontmatter value: remote URLs as text,
+ * vault paths as links so Obsidian tracks them.
+ * @param src - Image URL or vault path
+ * @returns Frontmatter value
+ */
+export function imageProperty(src: string): string {
+  return isRemoteUrl(src) ? src : `[[${src}]]`;
+}
+
+/**
+ * Embeds an image in the note body.
+ * @param src - Image URL or vault path
+ * @param alt - Alt text for remote images
+ * @returns Markdown or wiki embed
+ */
+export function embedImage(src: string, alt: string): string {
+  return isRemoteUrl(src) ? `![${alt}](${src})` : `![[${src}]]`;
+}
+
+/**
+ * Removes characters that are not allowed in file names.
  * @param title - Game title
- * @returns Safe filename with game emoji prefix
+ * @returns Title safe to use in a file name
  */
-export function generateFileName(title: string): string {
-  // Sanitize the title for use as a filename
-  const sanitized = title
+export function sanitizeFileName(title: string): string {
+  return title
     .replace(/[<>:"/\\|?*]/g, '') // Remove invalid filename chars
     .replace(/\s+/g, ' ') // Normalize whitespace
     .trim();
+}
 
-  return `🎮 ${sanitized}.md`;
+/**
+ * Generates a safe filename for the game note.
+ * @param title - Game title
+ * @returns Safe filename with game emoji prefix
+ */
+export function generateFileName(title: string): string {
+  return generateNotePath({ title, releaseYear: null, platform: null, igdbId: null });
+}
+
+/**
+ * Generates the vault path of a game note from the naming settings.
+ * Placeholders without a value are dropped along with the brackets around them.
+ * @param game - Game details used by the placeholders
+ * @param naming - Folder, file name pattern and emoji prefix
+ * @returns Vault path ending in .md
+ */
+export function generateNotePath(game: FileNameFields, naming: NoteNaming = DEFAULT_NOTE_NAMING): string {
+  const values: Record<string, string> = {
+    title: game.title,
+    year: game.releaseYear ? String(game.releaseYear) : '',
+    platform: game.platform ?? '',
+    igdb_id: game.igdbId ? String(game.igdbId) : '',
+  };
+  const filled = (naming.pattern || '{title}')
+    .replace(/\{(title|year|platform|igdb_id)\}/g, (_, key: string) => values[key])
+    .replace(/\(\s*\)|\[\s*\]/g, '');
+  // Trim separators left over from empty placeholders, and leading dots that would hide the file
+  const name = sanitizeFileName(filled).replace(/^[\s\-_.]+|[\s\-_]+$/g, '') || sanitizeFileName(game.title);
+  const emoji = naming.emoji.trim();
+  const fileName = `${emoji ? `${emoji} ` : ''}${name}.md`;
+  const folder = naming.folder
+    .split(/[\\/]+/)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join('/');
+  return folder ? `${folder}/${fileName}` : fileName;
 }
@@ -0,0 +1,134 @@
+// Single YAML values; dates are written as calendar days
+export type YamlScalar = string | number | boolean | null | Date;
+export type YamlValue = YamlScalar | YamlScalar[];
+
+// Frontmatter fields in output order
+export type YamlFields = Array<[key: string, value: YamlValue]>;
+
+export interface YamlOptions {
+  // Fields whose strings are written unquoted when that is unambiguous, like tags
+  plainKeys?: string[];
+}
+
+// Short escapes of YAML double-quoted scalars
+const ESCAPES: Record<number, string> = {
+  0x00: '\\0',
+  0x07: '\\a',
+  0x08: '\\b',
+  0x09: '\\t',
+  0x0a: '\\n',
+  0x0b: '\\v',
+  0x0c: '\\f',
+  0x0d: '\\r',
+  0x1b: '\\e',
+  0x22: '\\"',
+  0x5c: '\\\\',
+  0x85: '\\N',
+  0xa0: '\\_',
+  0x2028: '\\L',
+  0x2029: '\\P',
+};
+
+// Words that YAML 1.1 or 1.2 parsers read as booleans or null when unquoted
+const RESERVED_WORDS = /^(?:null|~|true|false|yes|no|on|off|y|n)$/i;
+
+/**
+ * Checks whether a UTF-16 code unit can appear as is in a double-quoted scalar.
+ * Line breaks, control characters, the byte order mark and unpaired
+ * surrogates are escaped instead.
+ * @param code - UTF-16 code unit
+ * @returns True if printable in both YAML 1.1 and 1.2
+ */
+function isPrintable(code: number): boolean {
+  return (
+    (code >= 0x20 && code <= 0x7e) ||
+    (code > 0xa0 && code < 0xd800) ||
+    (code >= 0xe000 && code <= 0xfffd && code !== 0xfeff && code !== 0x2028 && code !== 0x2029)
+  );
+}
+
+/**
+ * Writes a string as a YAML double-quoted scalar.
+ * Unpaired surrogates, which YAML cannot represent, become U+FFFD.
+ * @param text - String to quote
+ * @returns Quoted scalar
+ */
+function quote(text: string): string {
+  let out = '"';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code >= 0xd800 && code <= 0xdbff) {
+      const next = text.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        out += text.slice(i, i + 2);
+        i++;
+      } else {
+        out += '\uFFFD';
+      }
+    } else if (code >= 0xdc00 && code <= 0xdfff) {
+      out += '\uFFFD';
+    } else if (ESCAPES[code] !== undefined) {
+      out += ESCAPES[code];
+    } else if (isPrintable(code)) {
+      out += text[i];
+    } else {
+      const hex = `000${code.toString(16).toUpperCase()}`;
+      out += code <= 0xff ? `\\x${hex.slice(-2)}` : `\\u${hex.slice(-4)}`;
+    }
+  }
+  return `${out}"`;
+}
+
+/**
+ * Checks whether a string reads back as the same string without quotes.
+ * Only simple words qualify: no indicators, no leading digits, no reserved words.
+ * @param text - String to check
+ * @returns True if it can be written unquoted
+ */
+function isPlainSafe(text: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_/-]*$/.test(text) && !RESERVED_WORDS.test(text);
+}
+
+/**
+ * Formats a single value as a YAML scalar.
+ * Strings are double-quoted, so titles with colons, quotes, leading
+ * indicators or line breaks always read back unchanged. Missing values
+ * are written as null.
+ * @param value - Value to format
+ * @param plain - Whether simple words may be left unquoted
+ * @returns YAML scalar
+ */
+export function formatYamlScalar(value: YamlScalar, plain = false): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') {
+    if (isNaN(value)) return '.nan';
+    if (!isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+    return String(value);
+  }
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  return plain && isPlainSafe(value) ? value : quote(value);
+}
+
+/**
+ * Serializes fields as a frontmatter block, lists as block sequences.
+ * @param fields - Fields in output order
+ * @param options - Serialization options
+ * @returns Frontmatter between `---` lines
+ */
+export function stringifyFrontmatter(fields: YamlFields, options: YamlOptions = {}): string {
+  const lines = ['---'];
+  for (const [key, value] of fields) {
+    const plain = options.plainKeys?.includes(key) ?? false;
+    if (!Array.isArray(value)) {
+      lines.push(`${key}: ${formatYamlScalar(value, plain)}`);
+    } else if (value.length === 0) {
+      lines.push(`${key}: []`);
+    } else {
+      lines.push(`${key}:`);
+      value.forEach((item) => lines.push(`  - ${formatYamlScalar(item, plain)}`));
+    }
+  }
+  lines.push('---');
+  return lines.join('\n');
+}
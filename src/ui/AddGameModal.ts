@@ -1,5 +1,6 @@
 import {
   App,
+  DropdownComponent,
   Modal,
   Setting,
   Notice,
@@ -7,29 +8,103 @@ import {
   TextComponent,
 } from 'obsidian';
 
-import { HltbClient, HltbResult } from '../api/hltb';
-import { IgdbClient, IgdbGame } from '../api/igdb';
-import { SteamGridDbClient } from '../api/steamgriddb';
-import { PLATFORMS, PRIORITIES, Platform, Priority } from '../settings';
+import { TwitchAuthError } from '../api/igdb';
+import { HttpError } from '../api/scheduler';
+import { parseGameUrl } from '../api/urls';
+import type { GameUrl } from '../api/urls';
 import { translate, translatePriority } from '../i18n';
+import type {
+  ArtworkGame,
+  ArtworkImage,
+  ArtworkSet,
+  GameFacets,
+  GameLink,
+  GameScreenshot,
+  GameSummary,
+  GameVideo,
+  PlanningHours,
+  SearchFilters,
+  TimeToBeat,
+  TimeToBeatCandidate,
+  UrlMatch,
+} from '../providers';
+import {
+  calculateEfficiency,
+  canPickArtwork,
+  fetchArtwork,
+  fetchArtworkGames,
+  fetchCoverUrl,
+  fetchDetails,
+  fetchTimeToBeat,
+  fetchTimeToBeatCandidates,
+  findExactMatch,
+  GAME_TYPES,
+  PLATFORM_FAMILIES,
+  ProviderRegistry,
+  RELEASE_STATES,
+  selectPlanningHours,
+  toPlanningHours,
+} from '../providers';
+import { PLANNING_METRICS, PLATFORMS, PRIORITIES, PlanningMetric, Platform, Priority } from '../settings';
 
 export interface GameData {
   title: string;
   platform: Platform;
   priority: Priority;
   rating: number | null; // IGDB aggregated_rating (critic score)
-  hltbHours: number | null;
-  efficiency: number | null;
+  hltbHours: number | null; // Main story
+  hltbExtrasHours: number | null; // Main + extras
+  hltbCompletionistHours: number | null;
+  planningMetric: PlanningMetric | null; // Per-game override, null to follow the setting
+  efficiency: number | null; // Rating per planning hour
   coverUrl: string | null;
+  heroUrl: string | null; // Chosen in the artwork picker
+  logoUrl: string | null; // Chosen in the artwork picker
   description: string | null;
   igdbId: number | null;
   genres: string[];
   releaseYear: number | null;
+  facets?: GameFacets | null; // Studios, franchises, modes and so on, when the provider has them
+  links?: GameLink[]; // Store pages, official site and wikis
+  screenshots?: GameScreenshot[];
+  videos?: GameVideo[]; // Trailers first
+}
+
+// Element id of the results listbox, referenced by the search input's ARIA attributes
+const RESULTS_ID = 'game-search-results';
+
+// Artwork galleries, in display order
+const ARTWORK_KINDS: Array<keyof ArtworkSet> = ['grids', 'heroes', 'logos'];
+
+// Image picked per artwork kind; a null cover falls back to the automatic one
+type ChosenArtwork = Record<keyof ArtworkSet, ArtworkImage | null>;
+
+/**
+ * Called when a radio option is chosen.
+ */
+export type RadioChoose = () => void;
+
+// Raw form values for games entered by hand
+interface ManualEntry {
+  title: string;
+  year: string;
+  genres: string;
+  hours: string;
+  rating: string;
+  coverUrl: string;
 }
 
-interface SearchResult {
-  igdbGame: IgdbGame;
-  displayName: string;
+/**
+ * Parses an optional numeric form field.
+ * @param raw - Field value
+ * @param min - Smallest accepted value
+ * @param max - Largest accepted value
+ * @returns The number, null if blank, or NaN if invalid or out of range
+ */
+function parseOptionalNumber(raw: string, min: number, max: number): number | null {
+  if (!raw.trim()) return null;
+  const value = Number(raw.trim().replace(',', '.'));
+  return isFinite(value) && value >= min && value <= max ? value : NaN;
 }
 
 /**
@@ -37,60 +112,90 @@ interface SearchResult {
  * Handles game search, selection, and data collection.
  */
 export class AddGameModal extends Modal {
-  private igdbClient: IgdbClient;
-  private hltbClient: HltbClient;
-  private steamGridDbClient: SteamGridDbClient;
+  private providers: ProviderRegistry;
   /** Callback function for when game is added */
   private onSubmit: (data: GameData) => void;
   private defaultPlatform: Platform;
   private defaultPriority: Priority;
+  private defaultPlanningMetric: PlanningMetric;
   private language: string;
 
-  private selectedGame: IgdbGame | null = null;
-  private searchResults: SearchResult[] = [];
+  private selectedGame: GameSummary | null = null;
+  private searchResults: GameSummary[] = [];
+  private filters: SearchFilters = {};
+  // Incremented for every search; responses carrying an older number are dropped
+  private searchSeq = 0;
+  // Result highlighted with the arrow keys, -1 when none
+  private activeIndex = -1;
+  private resultEls: HTMLElement[] = [];
+  // Data pinned by a pasted URL, used instead of title lookups on submit
+  private pinned: UrlMatch | null = null;
+  // Completion-time matches for the selected game; the chosen one goes into the note
+  private timeToBeatCandidates: TimeToBeatCandidate[] = [];
+  private chosenTimeToBeat: TimeToBeat | null = null;
+  private timeToBeatLoad: Promise<void> | null = null;
+  // Artwork picked by hand; the step is optional and loads only once opened
+  private artworkOpen = false;
+  private artworkSeq = 0;
+  private artworkGames: ArtworkGame[] = [];
+  private artworkGame: ArtworkGame | null = null;
+  private artwork: ArtworkSet | null = null;
+  private chosenArtwork: ChosenArtwork = { grids: null, heroes: null, logos: null };
   private platform: Platform;
   private priority: Priority;
+  private planningMetric: PlanningMetric | null = null;
 
   private searchInput: TextComponent | null = null;
   private resultsContainer: HTMLElement | null = null;
   private selectedGameDisplay: HTMLElement | null = null;
+  private timeToBeatEl: HTMLElement | null = null;
+  private artworkToggle: HTMLButtonElement | null = null;
+  private artworkSearch: TextComponent | null = null;
+  private artworkSection: HTMLElement | null = null;
+  private artworkEl: HTMLElement | null = null;
   private submitButton: HTMLButtonElement | null = null;
   private loadingEl: HTMLElement | null = null;
+
+  private manualMode = false;
+  private manualEntry: ManualEntry = { title: '', year: '', genres: '', hours: '', rating: '', coverUrl: '' };
+  private lookupMissing = true;
+  private searchSection: HTMLElement | null = null;
+  private manualSection: HTMLElement | null = null;
+  private modeToggle: HTMLButtonElement | null = null;
+  private filtersToggle: HTMLButtonElement | null = null;
   
 
   /**
    * Creates a new Add Game modal.
    * @param app - Obsidian app instance
-   * @param igdbClient - IGDB API client
-   * @param hltbClient - HLTB API client
-   * @param steamGridDbClient - SteamGridDB API client
+   * @param providers - Registry of metadata providers
    * @param defaultPlatform - Default platform selection
    * @param defaultPriority - Default priority selection
    * @param onSubmit - Callback when game is added
+   * @param language - UI language code
+   * @param defaultPlanningMetric - Completion time used for planning unless overridden
    */
   constructor(
     app: App,
-    igdbClient: IgdbClient,
-    hltbClient: HltbClient,
-    steamGridDbClient: SteamGridDbClient,
+    providers: ProviderRegistry,
     defaultPlatform: Platform,
     defaultPriority: Priority,
     onSubmit: /**
      *
      */
     (data: GameData) => void,
-    language = 'en'
+    language = 'en',
+    defaultPlanningMetric: PlanningMetric = 'main'
   ) {
     super(app);
-    this.igdbClient = igdbClient;
-    this.hltbClient = hltbClient;
-    this.steamGridDbClient = steamGridDbClient;
+    this.providers = providers;
     this.defaultPlatform = defaultPlatform;
     this.defaultPriority = defaultPriority;
     this.platform = defaultPlatform;
     this.priority = defaultPriority;
     this.onSubmit = onSubmit;
     this.language = language;
+    this.defaultPlanningMetric = defaultPlanningMetric;
   }
 
   /**
@@ -103,13 +208,19 @@ export class AddGameModal extends Modal {
 
     contentEl.createEl('h2', { text: translate(this.language, 'modal_add_game_title') });
 
-    // Search input
-    new Setting(contentEl)
+    // Search input, results and selection; hidden in manual mode
+    this.searchSection = contentEl.createDiv({ cls: 'game-search-section' });
+    new Setting(this.searchSection)
       .setName(translate(this.language, 'search_for_game'))
       .setDesc(translate(this.language, 'search_for_game_desc'))
       .addText((text) => {
         this.searchInput = text;
         text.setPlaceholder(translate(this.language, 'search_placeholder'));
+        text.inputEl.setAttribute('role', 'combobox');
+        text.inputEl.setAttribute('aria-autocomplete', 'list');
+        text.inputEl.setAttribute('aria-controls', RESULTS_ID);
+        text.inputEl.setAttribute('aria-expanded', 'false');
+        text.inputEl.addEventListener('keydown', (event) => this.handleSearchKeydown(event));
         text.inputEl.addEventListener(
           'input',
           debounce(async () => {
@@ -118,17 +229,75 @@ export class AddGameModal extends Modal {
         );
       });
 
+    // Filters narrowing the search, collapsed until needed
+    this.filtersToggle = this.searchSection.createEl('button', {
+      cls: 'game-filters-toggle',
+      attr: { 'aria-expanded': 'false' },
+    });
+    const filtersSection = this.searchSection.createDiv({ cls: 'game-filters-section' });
+    filtersSection.style.display = 'none';
+    this.filtersToggle.addEventListener('click', () => {
+      const hidden = filtersSection.style.display === 'none';
+      filtersSection.style.display = hidden ? '' : 'none';
+      this.filtersToggle!.setAttribute('aria-expanded', String(hidden));
+    });
+    this.renderFilters(filtersSection);
+    this.updateFiltersToggle();
+
     // Search results container
-    this.resultsContainer = contentEl.createDiv({
+    this.resultsContainer = this.searchSection.createDiv({
       cls: 'game-search-results',
+      attr: { id: RESULTS_ID, role: 'listbox', 'aria-label': translate(this.language, 'search_results_label') },
     });
 
     // Selected game display
-    this.selectedGameDisplay = contentEl.createDiv({
+    this.selectedGameDisplay = this.searchSection.createDiv({
       cls: 'selected-game-display',
     });
     this.selectedGameDisplay.style.display = 'none';
 
+    // Completion-time candidates for the selected game
+    this.timeToBeatEl = this.searchSection.createDiv({ cls: 'game-hltb-section' });
+    this.timeToBeatEl.style.display = 'none';
+
+    // Optional artwork step for the selected game
+    this.artworkToggle = this.searchSection.createEl('button', {
+      text: translate(this.language, 'artwork_toggle'),
+      cls: 'game-artwork-toggle',
+      attr: { 'aria-expanded': 'false' },
+    });
+    this.artworkToggle.style.display = 'none';
+    this.artworkToggle.addEventListener('click', () => this.setArtworkOpen(!this.artworkOpen));
+    this.artworkSection = this.searchSection.createDiv({ cls: 'game-artwork-section' });
+    this.artworkSection.style.display = 'none';
+    new Setting(this.artworkSection)
+      .setName(translate(this.language, 'artwork_game_label'))
+      .setDesc(translate(this.language, 'artwork_game_desc'))
+      .addText((text) => {
+        this.artworkSearch = text;
+        text.setPlaceholder(translate(this.language, 'artwork_search_placeholder'));
+        text.inputEl.addEventListener(
+          'input',
+          debounce(async () => {
+            const query = text.getValue().trim();
+            if (query) await this.loadArtworkGames(query);
+          }, 500)
+        );
+      });
+    this.artworkEl = this.artworkSection.createDiv({ cls: 'game-artwork-picker' });
+
+    // Switch between search and manual entry
+    this.modeToggle = contentEl.createEl('button', {
+      text: translate(this.language, 'manual_entry_link'),
+      cls: 'game-mode-toggle',
+    });
+    this.modeToggle.addEventListener('click', () => this.setManualMode(!this.manualMode));
+
+    // Manual entry form, for games IGDB does not know
+    this.manualSection = contentEl.createDiv({ cls: 'game-manual-section' });
+    this.manualSection.style.display = 'none';
+    this.renderManualForm(this.manualSection);
+
     // Platform dropdown
     new Setting(contentEl)
       .setName(translate(this.language, 'platform_label'))
@@ -153,6 +322,19 @@ export class AddGameModal extends Modal {
         });
       });
 
+    // Planning time override for this game
+    new Setting(contentEl)
+      .setName(translate(this.language, 'planning_metric'))
+      .setDesc(translate(this.language, 'planning_metric_game_desc'))
+      .addDropdown((dropdown) => {
+        const defaultLabel = translate(this.language, `planning_metric_${this.defaultPlanningMetric}`);
+        dropdown.addOption('', translate(this.language, 'planning_metric_default').replace('{metric}', defaultLabel));
+        PLANNING_METRICS.forEach((m) => dropdown.addOption(m, translate(this.language, `planning_metric_${m}`)));
+        dropdown.onChange((value) => {
+          this.planningMetric = (value || null) as PlanningMetric | null;
+        });
+      });
+
     // Loading indicator
     this.loadingEl = contentEl.createDiv({ cls: 'game-loading' });
     this.loadingEl.style.display = 'none';
@@ -204,6 +386,19 @@ export class AddGameModal extends Modal {
       .game-search-result:hover {
         background: var(--background-modifier-hover);
       }
+      .game-search-status {
+        padding: 8px 12px;
+        color: var(--text-muted);
+        font-style: italic;
+      }
+      .game-search-status.mod-error {
+        color: var(--text-error);
+        font-style: normal;
+      }
+      .game-search-result.is-active {
+        background: var(--background-modifier-hover);
+        box-shadow: inset 3px 0 0 var(--interactive-accent);
+      }
       .game-search-result img {
         width: 40px;
         height: 56px;
@@ -243,12 +438,79 @@ export class AddGameModal extends Modal {
         font-size: 0.9em;
         color: var(--text-muted);
       }
+      .game-hltb-section {
+        margin-bottom: 1rem;
+      }
+      .game-hltb-heading {
+        font-weight: 500;
+        margin-bottom: 4px;
+      }
+      .game-hltb-candidate {
+        padding: 6px 12px;
+        cursor: pointer;
+        border-radius: 4px;
+      }
+      .game-hltb-candidate:hover {
+        background: var(--background-modifier-hover);
+      }
+      .game-hltb-candidate.is-selected {
+        box-shadow: inset 3px 0 0 var(--interactive-accent);
+        background: var(--background-secondary);
+      }
+      .game-artwork-toggle {
+        margin-bottom: 1rem;
+      }
+      .game-artwork-section {
+        margin-bottom: 1rem;
+      }
+      .game-artwork-heading {
+        font-weight: 500;
+        margin: 8px 0 4px 0;
+      }
+      .game-artwork-gallery {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+      }
+      .game-artwork-option {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        min-width: 60px;
+        height: 84px;
+        padding: 2px;
+        cursor: pointer;
+        border-radius: 4px;
+        font-size: 0.8em;
+        color: var(--text-muted);
+        border: 1px solid var(--background-modifier-border);
+      }
+      .game-artwork-option img {
+        max-height: 100%;
+        max-width: 150px;
+        object-fit: contain;
+      }
+      .game-artwork-option.is-selected {
+        border-color: var(--interactive-accent);
+        box-shadow: 0 0 0 2px var(--interactive-accent);
+      }
       .game-loading {
         text-align: center;
         padding: 1rem;
         color: var(--text-muted);
         font-style: italic;
       }
+      .game-mode-toggle {
+        margin-bottom: 1rem;
+      }
+      .game-filters-toggle {
+        margin-bottom: 0.5rem;
+      }
+      .game-filters-section {
+        margin-bottom: 1rem;
+        padding: 0 12px;
+        border-left: 2px solid var(--background-modifier-border);
+      }
       .modal-button-container {
         display: flex;
         justify-content: flex-end;
@@ -259,95 +521,388 @@ export class AddGameModal extends Modal {
   }
 
   /**
-   * Performs a game search using the IGDB API.
+   * Builds the search filter controls. Changing a filter searches again.
+   * @param containerEl - Element to render into
+   */
+  private renderFilters(containerEl: HTMLElement) {
+    const refresh = debounce(async () => {
+      this.updateFiltersToggle();
+      await this.performSearch(this.searchInput?.getValue() ?? '');
+    }, 300);
+
+    const addChoice = <K extends 'platformFamily' | 'gameType' | 'release'>(
+      field: K,
+      labelKey: string,
+      options: readonly string[]
+    ) => {
+      new Setting(containerEl).setName(translate(this.language, labelKey)).addDropdown((dropdown) => {
+        dropdown.addOption('', translate(this.language, 'filter_any'));
+        options.forEach((option) => dropdown.addOption(option, translate(this.language, `${labelKey}_${option}`)));
+        dropdown.onChange((value) => {
+          this.filters[field] = (value || null) as SearchFilters[K];
+          refresh();
+        });
+      });
+    };
+
+    addChoice('platformFamily', 'filter_platform', PLATFORM_FAMILIES);
+
+    new Setting(containerEl)
+      .setName(translate(this.language, 'filter_years'))
+      .setDesc(translate(this.language, 'filter_years_desc'))
+      .addText((text) => {
+        text.setPlaceholder(translate(this.language, 'filter_year_from'));
+        text.onChange((value) => {
+          this.filters.yearFrom = this.parseYear(value);
+          refresh();
+        });
+      })
+      .addText((text) => {
+        text.setPlaceholder(translate(this.language, 'filter_year_to'));
+        text.onChange((value) => {
+          this.filters.yearTo = this.parseYear(value);
+          refresh();
+        });
+      });
+
+    addChoice('gameType', 'filter_type', GAME_TYPES);
+    addChoice('release', 'filter_release', RELEASE_STATES);
+  }
+
+  /**
+   * Parses a year filter field; blank or invalid years do not filter.
+   * @param raw - Field value
+   * @returns The year, or null
+   */
+  private parseYear(raw: string): number | null {
+    const year = parseOptionalNumber(raw, 1950, 2100);
+    return year === null || isNaN(year) ? null : Math.floor(year);
+  }
+
+  /**
+   * Shows how many filters are active on the filters button.
+   */
+  private updateFiltersToggle() {
+    const count = Object.keys(this.filters).filter(
+      (key) => this.filters[key as keyof SearchFilters] != null
+    ).length;
+    this.filtersToggle?.setText(
+      count > 0
+        ? translate(this.language, 'filters_toggle_active').replace('{count}', String(count))
+        : translate(this.language, 'filters_toggle')
+    );
+  }
+
+  /**
+   * Builds the manual entry form fields.
+   * @param containerEl - Element to render into
+   */
+  private renderManualForm(containerEl: HTMLElement) {
+    const fields: Array<[keyof ManualEntry, string, string]> = [
+      ['title', 'manual_title', ''],
+      ['year', 'manual_year', '2024'],
+      ['genres', 'manual_genres', 'Platformer, Puzzle'],
+      ['hours', 'manual_hours', '12'],
+      ['rating', 'manual_rating', '0-100'],
+      ['coverUrl', 'manual_cover', 'https://'],
+    ];
+
+    for (const [field, labelKey, placeholder] of fields) {
+      new Setting(containerEl)
+        .setName(translate(this.language, labelKey))
+        .setDesc(translate(this.language, `${labelKey}_desc`))
+        .addText((text) => {
+          text.setPlaceholder(placeholder);
+          text.onChange((value) => {
+            this.manualEntry[field] = value;
+            if (field === 'title') this.updateSubmitState();
+          });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName(translate(this.language, 'manual_lookup'))
+      .setDesc(translate(this.language, 'manual_lookup_desc'))
+      .addToggle((toggle) => {
+        toggle.setValue(this.lookupMissing);
+        toggle.onChange((value) => {
+          this.lookupMissing = value;
+        });
+      });
+  }
+
+  /**
+   * Switches between searching IGDB and entering a game by hand.
+   * @param enabled - True for manual entry
+   */
+  private setManualMode(enabled: boolean) {
+    this.manualMode = enabled;
+    this.searchSection!.style.display = enabled ? 'none' : '';
+    this.manualSection!.style.display = enabled ? '' : 'none';
+    this.modeToggle!.setText(
+      translate(this.language, enabled ? 'search_entry_link' : 'manual_entry_link')
+    );
+    this.updateSubmitState();
+  }
+
+  /**
+   * Enables the submit button once there is enough to create a note.
+   */
+  private updateSubmitState() {
+    this.submitButton!.disabled = this.manualMode
+      ? !this.manualEntry.title.trim()
+      : !this.selectedGame;
+  }
+
+  /**
+   * Performs a game search using the first provider able to search.
+   * Each call supersedes the previous ones: responses for older queries
+   * are dropped, so a slow response cannot overwrite a newer one.
    * @param query - Search query
    */
   private async performSearch(query: string) {
+    const seq = ++this.searchSeq;
+
+    const url = parseGameUrl(query);
+    if (url) {
+      await this.openGameUrl(url, seq);
+      return;
+    }
+
     if (!query || query.length < 2) {
-      this.resultsContainer!.empty();
+      this.searchResults = [];
+      this.renderSearchResults();
       return;
     }
 
+    const provider = this.providers.first('search');
+    if (!provider?.search) return;
+
+    this.renderSearchStatus(translate(this.language, 'searching_status'));
     try {
-      const games = await this.igdbClient.searchGames(query, 8);
-      this.searchResults = games.map((game) => {
-        const year = game.first_release_date
-          ? new Date(game.first_release_date * 1000).getFullYear()
-          : null;
-        return {
-          igdbGame: game,
-          displayName: `${game.name}${year ? ` (${year})` : ''}`,
-        };
-      });
+      const results = await provider.search(query, 8, this.filters);
+      if (seq !== this.searchSeq) return;
+
+      this.searchResults = results;
+      if (results.length === 0) {
+        this.renderSearchStatus(translate(this.language, 'no_results_status').replace('{query}', query));
+        return;
+      }
       this.renderSearchResults();
     } catch (error) {
+      if (seq !== this.searchSeq) return;
       console.error('Search error:', error);
-      new Notice(translate(this.language, 'search_failed_notice'));
+      this.renderSearchError(error);
     }
   }
 
+  /**
+   * Selects the game a pasted URL points to, without fuzzy matching.
+   * Sites other than IGDB only yield a title, which must match an IGDB
+   * result exactly; otherwise the results are listed for the user to pick.
+   * @param url - Parsed game URL
+   * @param seq - Search sequence number; the lookup is dropped once a newer search starts
+   */
+  private async openGameUrl(url: GameUrl, seq: number) {
+    this.renderSearchStatus(translate(this.language, 'searching_status'));
+    try {
+      let match: UrlMatch | null = null;
+      for (const provider of this.providers.withCapability('url')) {
+        match = provider.resolveUrl ? await provider.resolveUrl(url) : null;
+        if (match) break;
+      }
+      if (seq !== this.searchSeq) return;
+      if (!match) {
+        this.clearResultsList();
+        new Notice(translate(this.language, 'url_not_found_notice'));
+        return;
+      }
+
+      let game = match.game;
+      if (!game) {
+        const provider = this.providers.first('search');
+        const results = provider?.search ? await provider.search(match.title, 10) : [];
+        if (seq !== this.searchSeq) return;
+        this.searchResults = results;
+        game = findExactMatch(results, match.title, match.releaseYear);
+      }
+
+      if (!game) {
+        new Notice(translate(this.language, 'url_ambiguous_notice').replace('{title}', match.title));
+        this.renderSearchResults();
+        return;
+      }
+
+      await this.selectGame(game, match);
+    } catch (error) {
+      if (seq !== this.searchSeq) return;
+      console.error('URL lookup error:', error);
+      this.renderSearchError(error);
+    }
+  }
+
+  /**
+   * Shows a single status line, such as the loading or empty state, in place of the results.
+   * @param text - Status text
+   * @param isError - True to style the line as an error and announce it immediately
+   */
+  private renderSearchStatus(text: string, isError = false) {
+    this.clearResultsList();
+    this.resultsContainer!.createDiv({
+      cls: isError ? 'game-search-status mod-error' : 'game-search-status',
+      text,
+      attr: { role: isError ? 'alert' : 'status' },
+    });
+  }
+
+  /**
+   * Explains a failed search in place of the results.
+   * @param error - Error thrown by a provider
+   */
+  private renderSearchError(error: unknown) {
+    let key = 'search_failed_error';
+    if (error instanceof TwitchAuthError) {
+      key = 'search_credentials_error';
+    } else if (this.isRateLimited(error)) {
+      key = 'rate_limited_notice';
+    }
+    this.renderSearchStatus(translate(this.language, key), true);
+  }
+
   /**
    * Renders search results in the UI.
    */
   private renderSearchResults() {
-    this.resultsContainer!.empty();
+    this.clearResultsList();
 
-    for (const result of this.searchResults) {
+    this.searchResults.forEach((result, index) => {
       const el = this.resultsContainer!.createDiv({
         cls: 'game-search-result',
+        attr: { id: `${RESULTS_ID}-${index}`, role: 'option', 'aria-selected': 'false' },
       });
+      this.resultEls.push(el);
 
-      // IGDB cover image
-      if (result.igdbGame.cover?.image_id) {
-        const coverUrl = this.igdbClient.getCoverUrl(
-          result.igdbGame.cover.image_id,
-          'cover_small'
-        );
-        el.createEl('img', { attr: { src: coverUrl } });
+      if (result.thumbnailUrl) {
+        el.createEl('img', { attr: { src: result.thumbnailUrl } });
       }
 
       const info = el.createDiv({ cls: 'game-search-result-info' });
       info.createDiv({
         cls: 'game-search-result-name',
-        text: result.igdbGame.name,
+        text: result.name,
       });
 
       const meta: string[] = [];
-      if (result.igdbGame.first_release_date) {
-        const year = new Date(result.igdbGame.first_release_date * 1000).getFullYear();
-        meta.push(year.toString());
+      if (result.releaseYear) {
+        meta.push(result.releaseYear.toString());
       }
-      if (result.igdbGame.aggregated_rating) {
-        meta.push(`${translate(this.language, 'rating_label')}: ${Math.round(result.igdbGame.aggregated_rating)}`);
+      if (result.rating) {
+        meta.push(`${translate(this.language, 'rating_label')}: ${result.rating}`);
       }
-      if (result.igdbGame.genres?.length) {
-        meta.push(result.igdbGame.genres.slice(0, 2).map((g) => g.name).join(', '));
+      if (result.genres.length) {
+        meta.push(result.genres.slice(0, 2).join(', '));
       }
       if (meta.length) {
         info.createDiv({ cls: 'game-search-result-meta', text: meta.join(' • ') });
       }
 
-      el.addEventListener('click', () => this.selectGame(result.igdbGame));
+      el.addEventListener('click', () => this.selectGame(result));
+      el.addEventListener('mousemove', () => this.setActiveResult(index));
+    });
+
+    this.searchInput?.inputEl.setAttribute('aria-expanded', String(this.searchResults.length > 0));
+  }
+
+  /**
+   * Removes the rendered results and their highlight, keeping the results themselves.
+   */
+  private clearResultsList() {
+    this.resultsContainer!.empty();
+    this.resultEls = [];
+    this.activeIndex = -1;
+    this.searchInput?.inputEl.setAttribute('aria-expanded', 'false');
+    this.searchInput?.inputEl.removeAttribute('aria-activedescendant');
+  }
+
+  /**
+   * Highlights a search result and announces it to assistive technology.
+   * Focus stays in the search input, as for a combobox.
+   * @param index - Result index, or -1 to clear the highlight
+   */
+  private setActiveResult(index: number) {
+    this.resultEls[this.activeIndex]?.removeClass('is-active');
+    this.resultEls[this.activeIndex]?.setAttribute('aria-selected', 'false');
+    this.activeIndex = index;
+
+    const el = this.resultEls[index];
+    if (!el) {
+      this.searchInput?.inputEl.removeAttribute('aria-activedescendant');
+      return;
+    }
+    el.addClass('is-active');
+    el.setAttribute('aria-selected', 'true');
+    el.scrollIntoView({ block: 'nearest' });
+    this.searchInput?.inputEl.setAttribute('aria-activedescendant', el.id);
+  }
+
+  /**
+   * Handles keyboard navigation from the search input.
+   * Arrow keys move through the results, Enter selects the highlighted
+   * result and Ctrl/Cmd+Enter selects it and adds the game straight away.
+   * @param event - Keydown event from the search input
+   */
+  private async handleSearchKeydown(event: KeyboardEvent) {
+    const count = this.resultEls.length;
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (count === 0) return;
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        const start = this.activeIndex === -1 && step === -1 ? 0 : this.activeIndex;
+        this.setActiveResult((start + step + count) % count);
+        return;
+      }
+      case 'Escape':
+        if (this.activeIndex === -1) return;
+        // Clear the highlight instead of closing the modal
+        event.preventDefault();
+        event.stopPropagation();
+        this.setActiveResult(-1);
+        return;
+      case 'Enter': {
+        const submit = event.ctrlKey || event.metaKey;
+        const game = this.searchResults[this.activeIndex] ?? (count > 0 ? this.searchResults[0] : null);
+        if (!game && !(submit && this.selectedGame)) return;
+        event.preventDefault();
+        if (game) await this.selectGame(game);
+        if (submit) await this.handleSubmit();
+        return;
+      }
     }
   }
 
   /**
    * Handles game selection from search results.
-   * @param game - Selected IGDB game
+   * Completion-time candidates load in the background.
+   * @param game - Selected game
+   * @param pinned - Data pinned by a pasted URL, if the game came from one
    */
-  private async selectGame(game: IgdbGame) {
+  private async selectGame(game: GameSummary, pinned: UrlMatch | null = null) {
     this.selectedGame = game;
-    this.resultsContainer!.empty();
+    this.pinned = pinned;
+    // Results still in flight must not cover the selection
+    this.searchSeq++;
+    this.clearResultsList();
     this.searchInput!.setValue(game.name);
 
     // Update selected game display
     this.selectedGameDisplay!.empty();
     this.selectedGameDisplay!.style.display = 'flex';
 
-    if (game.cover?.image_id) {
-      const coverUrl = this.igdbClient.getCoverUrl(game.cover.image_id, 'cover_big');
+    if (game.coverUrl) {
       this.selectedGameDisplay!.createEl('img', {
-        attr: { src: coverUrl },
+        attr: { src: game.coverUrl },
       });
     }
 
@@ -355,19 +910,275 @@ export class AddGameModal extends Modal {
     info.createEl('h3', { text: game.name });
 
     const meta: string[] = [];
-    if (game.first_release_date) {
-      const year = new Date(game.first_release_date * 1000).getFullYear();
-      meta.push(year.toString());
+    if (game.releaseYear) {
+      meta.push(game.releaseYear.toString());
     }
-    if (game.aggregated_rating) {
-      meta.push(`${translate(this.language, 'critic_rating')}: ${Math.round(game.aggregated_rating)}`);
+    if (game.rating) {
+      meta.push(`${translate(this.language, 'critic_rating')}: ${game.rating}`);
     }
-    if (game.genres?.length) {
-      meta.push(game.genres.map((g) => g.name).join(', '));
+    if (game.genres.length) {
+      meta.push(game.genres.join(', '));
     }
     info.createEl('p', { text: meta.join(' • ') });
 
     this.submitButton!.disabled = false;
+    this.timeToBeatLoad = this.loadTimeToBeat(game);
+
+    // Artwork of the previous game no longer applies
+    this.resetArtwork();
+    this.artworkToggle!.style.display = canPickArtwork(this.providers) ? '' : 'none';
+    if (this.artworkOpen) await this.loadArtworkGames(game.name);
+  }
+
+  /**
+   * Loads the completion-time candidates for the selected game and preselects the best one.
+   * Times pinned by a pasted HowLongToBeat link are used as the only candidate.
+   * @param game - Selected game
+   */
+  private async loadTimeToBeat(game: GameSummary) {
+    if (this.pinned?.timeToBeat) {
+      this.timeToBeatCandidates = [{ ...this.pinned.timeToBeat, confidence: null }];
+      this.chosenTimeToBeat = this.pinned.timeToBeat;
+      this.renderTimeToBeat();
+      return;
+    }
+
+    this.timeToBeatCandidates = [];
+    this.chosenTimeToBeat = null;
+    this.renderTimeToBeat(true);
+
+    const candidates = await fetchTimeToBeatCandidates(this.providers, game.name);
+    // Another game may have been selected in the meantime
+    if (this.selectedGame !== game) return;
+    this.timeToBeatCandidates = candidates;
+    this.chosenTimeToBeat = candidates[0] ?? null;
+    this.renderTimeToBeat();
+  }
+
+  /**
+   * Renders the completion-time candidates as a radio group, plus an option to use none.
+   * @param loading - True while the candidates are being fetched
+   */
+  private renderTimeToBeat(loading = false) {
+    const el = this.timeToBeatEl!;
+    el.empty();
+    el.style.display = '';
+
+    const heading = translate(this.language, 'hltb_heading');
+    el.createDiv({ cls: 'game-hltb-heading', text: heading });
+    if (loading) {
+      el.createDiv({ cls: 'game-search-status', text: translate(this.language, 'hltb_loading') });
+      return;
+    }
+    if (this.timeToBeatCandidates.length === 0) {
+      el.createDiv({ cls: 'game-search-status', text: translate(this.language, 'hltb_none') });
+      return;
+    }
+
+    const group = el.createDiv({ cls: 'game-hltb-candidates', attr: { role: 'radiogroup', 'aria-label': heading } });
+    const options: Array<TimeToBeatCandidate | null> = [...this.timeToBeatCandidates, null];
+    for (const candidate of options) {
+      const option = this.createRadioOption(group, 'game-hltb-candidate', candidate === this.chosenTimeToBeat, () => {
+        this.chosenTimeToBeat = candidate;
+        this.renderTimeToBeat();
+      });
+
+      if (candidate) {
+        option.createDiv({ cls: 'game-search-result-name', text: candidate.name });
+        option.createDiv({ cls: 'game-search-result-meta', text: this.describeTimes(candidate) });
+      } else {
+        option.createDiv({ cls: 'game-search-result-meta', text: translate(this.language, 'hltb_skip') });
+      }
+    }
+  }
+
+  /**
+   * Adds an option to a radio group, chosen by click, Enter or Space.
+   * @param group - Radio group element
+   * @param cls - Option class; 'is-selected' is added when checked
+   * @param checked - Whether the option is the current choice
+   * @param choose - Called when the option is chosen
+   * @returns The option element, for its content
+   */
+  private createRadioOption(group: HTMLElement, cls: string, checked: boolean, choose: RadioChoose): HTMLElement {
+    const option = group.createDiv({
+      cls: checked ? `${cls} is-selected` : cls,
+      attr: { role: 'radio', tabindex: '0', 'aria-checked': String(checked) },
+    });
+    option.addEventListener('click', choose);
+    option.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        choose();
+      }
+    });
+    return option;
+  }
+
+  /**
+   * Forgets the artwork browsed for the previous game.
+   */
+  private resetArtwork() {
+    this.artworkSeq++;
+    this.artworkGames = [];
+    this.artworkGame = null;
+    this.artwork = null;
+    this.chosenArtwork = { grids: null, heroes: null, logos: null };
+    this.artworkEl?.empty();
+  }
+
+  /**
+   * Shows or hides the artwork step. Artwork loads the first time it is shown for a game.
+   * @param open - True to show the step
+   */
+  private async setArtworkOpen(open: boolean) {
+    this.artworkOpen = open;
+    this.artworkToggle!.setAttribute('aria-expanded', String(open));
+    this.artworkSection!.style.display = open ? '' : 'none';
+    if (open && this.selectedGame && this.artworkGames.length === 0) {
+      await this.loadArtworkGames(this.selectedGame.name);
+    }
+  }
+
+  /**
+   * Finds the artwork provider's games for a title and browses the most likely one.
+   * @param query - Title to look up
+   */
+  private async loadArtworkGames(query: string) {
+    const seq = ++this.artworkSeq;
+    if (this.artworkSearch?.getValue().trim() !== query) this.artworkSearch?.setValue(query);
+    this.renderArtworkStatus(translate(this.language, 'artwork_loading'));
+
+    try {
+      const games = await fetchArtworkGames(this.providers, query);
+      if (seq !== this.artworkSeq) return;
+      this.artworkGames = games;
+      if (games.length === 0) {
+        this.artworkGame = null;
+        this.artwork = null;
+        this.chosenArtwork = { grids: null, heroes: null, logos: null };
+        this.renderArtworkStatus(translate(this.language, 'artwork_no_match'));
+        return;
+      }
+      await this.selectArtworkGame(games[0]);
+    } catch (error) {
+      if (seq !== this.artworkSeq) return;
+      console.warn('Artwork lookup failed:', error);
+      this.renderArtworkStatus(translate(this.language, 'artwork_failed'), true);
+    }
+  }
+
+  /**
+   * Loads the images of an artwork game and preselects its best cover.
+   * Heroes and logos are only written when picked.
+   * @param game - Artwork game to browse
+   */
+  private async selectArtworkGame(game: ArtworkGame) {
+    const seq = ++this.artworkSeq;
+    this.artworkGame = game;
+    this.artwork = null;
+    this.chosenArtwork = { grids: null, heroes: null, logos: null };
+    this.renderArtworkStatus(translate(this.language, 'artwork_loading'));
+
+    try {
+      const artwork = await fetchArtwork(this.providers, game);
+      if (seq !== this.artworkSeq) return;
+      this.artwork = artwork;
+      this.chosenArtwork.grids = artwork.grids[0] ?? null;
+      this.renderArtwork();
+    } catch (error) {
+      if (seq !== this.artworkSeq) return;
+      console.warn('Artwork fetch failed:', error);
+      this.renderArtworkStatus(translate(this.language, 'artwork_failed'), true);
+    }
+  }
+
+  /**
+   * Renders the artwork game picker followed by a status line.
+   * @param text - Status to show
+   * @param isError - True for failures
+   */
+  private renderArtworkStatus(text: string, isError = false) {
+    const el = this.artworkEl!;
+    el.empty();
+    this.renderArtworkGamePicker(el);
+    el.createDiv({
+      cls: isError ? 'game-search-status mod-error' : 'game-search-status',
+      text,
+      attr: { role: isError ? 'alert' : 'status' },
+    });
+  }
+
+  /**
+   * Renders a dropdown of the artwork games found, to switch to another one.
+   * @param el - Element to render into
+   */
+  private renderArtworkGamePicker(el: HTMLElement) {
+    if (this.artworkGames.length < 2) return;
+    const dropdown = new DropdownComponent(el);
+    this.artworkGames.forEach((game, i) => {
+      const year = game.releaseYear ? ` (${game.releaseYear})` : '';
+      dropdown.addOption(String(i), `${game.name}${year}`);
+    });
+    dropdown.setValue(String(this.artworkGame ? this.artworkGames.indexOf(this.artworkGame) : 0));
+    dropdown.onChange((value) => this.selectArtworkGame(this.artworkGames[Number(value)]));
+  }
+
+  /**
+   * Renders a thumbnail gallery per artwork kind, each a radio group with an option to use none.
+   */
+  private renderArtwork() {
+    const el = this.artworkEl!;
+    el.empty();
+    this.renderArtworkGamePicker(el);
+
+    for (const kind of ARTWORK_KINDS) {
+      const heading = translate(this.language, `artwork_${kind}`);
+      el.createDiv({ cls: 'game-artwork-heading', text: heading });
+      const images = this.artwork?.[kind] ?? [];
+      if (images.length === 0) {
+        el.createDiv({ cls: 'game-search-status', text: translate(this.language, 'artwork_empty') });
+        continue;
+      }
+
+      const group = el.createDiv({ cls: 'game-artwork-gallery', attr: { role: 'radiogroup', 'aria-label': heading } });
+      const options: Array<ArtworkImage | null> = [null, ...images];
+      for (const image of options) {
+        const option = this.createRadioOption(group, 'game-artwork-option', image === this.chosenArtwork[kind], () => {
+          this.chosenArtwork[kind] = image;
+          this.renderArtwork();
+        });
+
+        if (image) {
+          option.setAttribute('aria-label', `${image.width}×${image.height}`);
+          option.createEl('img', { attr: { src: image.thumbnailUrl, alt: '' } });
+        } else {
+          option.setText(translate(this.language, kind === 'grids' ? 'artwork_auto_cover' : 'artwork_none'));
+        }
+      }
+    }
+  }
+
+  /**
+   * Summarizes a candidate's completion times and how well its title matches.
+   * @param candidate - Completion-time candidate
+   * @returns Localized description
+   */
+  private describeTimes(candidate: TimeToBeatCandidate): string {
+    const hours = (value: number) => (value > 0 ? `${value}h` : '—');
+    const times = translate(this.language, 'hltb_times')
+      .replace('{main}', hours(candidate.mainStoryHours))
+      .replace('{extras}', hours(candidate.mainPlusExtrasHours))
+      .replace('{completionist}', hours(candidate.completionistHours));
+
+    if (candidate.confidence === null) {
+      return this.pinned?.timeToBeat ? `${times} • ${translate(this.language, 'hltb_pinned')}` : times;
+    }
+    const match = translate(this.language, 'hltb_confidence').replace(
+      '{percent}',
+      String(Math.round(candidate.confidence * 100))
+    );
+    return `${times} • ${match}`;
   }
 
   /**
@@ -375,6 +1186,11 @@ export class AddGameModal extends Modal {
    * Fetches additional data and creates the game note.
    */
   private async handleSubmit() {
+    if (this.manualMode) {
+      await this.handleManualSubmit();
+      return;
+    }
+
     if (!this.selectedGame) {
       new Notice(translate(this.language, 'please_select_game'));
       return;
@@ -385,48 +1201,52 @@ export class AddGameModal extends Modal {
     this.submitButton!.setText(translate(this.language, 'adding_button'));
 
     try {
-      // Fetch full game details from IGDB
-      const gameDetails = await this.igdbClient.getGameById(this.selectedGame.id);
-      if (!gameDetails) {
-        throw new Error('Failed to fetch game details');
-      }
+      // Fetch full game details from the provider that found the game
+      const gameDetails = await fetchDetails(this.providers, this.selectedGame);
 
-      // Fetch additional data in parallel
-      const [hltbData, coverUrl] = await Promise.all([
-        this.fetchHltbData(this.selectedGame.name),
-        this.fetchCoverUrl(gameDetails),
+      // Wait for the completion-time candidates, then use the one the user kept
+      // A cover picked by hand, then one pinned by a pasted URL, win over the artwork lookup
+      const [coverUrl] = await Promise.all([
+        this.chosenArtwork.grids?.url ??
+          this.pinned?.coverUrl ??
+          fetchCoverUrl(this.providers, gameDetails.name, gameDetails.coverUrl),
+        this.timeToBeatLoad,
       ]);
+      const hours = toPlanningHours(this.chosenTimeToBeat);
 
-      // Calculate efficiency score
-      const rating = gameDetails.aggregated_rating
-        ? Math.round(gameDetails.aggregated_rating)
-        : null;
-      const hltbHours = hltbData?.mainStoryHours || null;
-      const efficiency = this.calculateEfficiency(rating, hltbHours);
-
-      const releaseYear = gameDetails.first_release_date
-        ? new Date(gameDetails.first_release_date * 1000).getFullYear()
-        : null;
+      // Calculate efficiency score from the planning time
+      const rating = gameDetails.rating;
+      const efficiency = calculateEfficiency(rating, this.getPlanningHours(hours));
 
       const gameData: GameData = {
         title: gameDetails.name,
         platform: this.platform,
         priority: this.priority,
         rating: rating,
-        hltbHours: hltbHours,
+        hltbHours: hours.main,
+        hltbExtrasHours: hours.extras,
+        hltbCompletionistHours: hours.completionist,
+        planningMetric: this.planningMetric,
         efficiency: efficiency,
         coverUrl: coverUrl,
-        description: gameDetails.summary || gameDetails.storyline || null,
+        heroUrl: this.chosenArtwork.heroes?.url ?? null,
+        logoUrl: this.chosenArtwork.logos?.url ?? null,
+        description: gameDetails.description,
         igdbId: gameDetails.id,
-        genres: gameDetails.genres?.map((g) => g.name) || [],
-        releaseYear: releaseYear,
+        genres: gameDetails.genres,
+        releaseYear: gameDetails.releaseYear,
+        facets: gameDetails.facets ?? null,
+        links: gameDetails.links ?? [],
+        screenshots: gameDetails.screenshots ?? [],
+        videos: gameDetails.videos ?? [],
       };
 
       this.onSubmit(gameData);
       this.close();
     } catch (error) {
       console.error('Failed to add game:', error);
-      new Notice(translate(this.language, 'fetch_failed_notice'));
+      const key = this.isRateLimited(error) ? 'rate_limited_notice' : 'fetch_failed_notice';
+      new Notice(translate(this.language, key));
       this.loadingEl!.style.display = 'none';
       this.submitButton!.disabled = false;
       this.submitButton!.setText(translate(this.language, 'add_game_button'));
@@ -434,58 +1254,85 @@ export class AddGameModal extends Modal {
   }
 
   /**
-   * Fetches HLTB data for a game.
-   * @param gameName - Name of the game to fetch HLTB data for
-   * @returns HLTB result or null if failed
+   * Handles submission of a manually entered game.
+   * Blank hours and cover are optionally looked up by title.
    */
-  private async fetchHltbData(gameName: string): Promise<HltbResult | null> {
-    try {
-      return await this.hltbClient.searchGame(gameName);
-    } catch (e) {
-      console.warn('HLTB fetch failed:', e);
-      return null;
+  private async handleManualSubmit() {
+    const entry = this.manualEntry;
+    const title = entry.title.trim();
+    if (!title) {
+      new Notice(translate(this.language, 'please_enter_title'));
+      return;
     }
-  }
 
-  /**
-   * Fetches the best cover URL for a game.
-   * @param gameDetails - IGDB game details
-   * @returns Best cover URL or null if not found
-   */
-  private async fetchCoverUrl(gameDetails: IgdbGame): Promise<string | null> {
-    // Try IGDB cover first as fallback
-    let coverUrl: string | null = null;
-    if (gameDetails.cover?.image_id) {
-      coverUrl = this.igdbClient.getCoverUrl(gameDetails.cover.image_id, 'cover_big');
+    const releaseYear = parseOptionalNumber(entry.year, 1950, 2100);
+    const hours = parseOptionalNumber(entry.hours, 0, 10000);
+    const rating = parseOptionalNumber(entry.rating, 0, 100);
+    if ([releaseYear, hours, rating].some((value) => value !== null && isNaN(value))) {
+      new Notice(translate(this.language, 'manual_invalid_number'));
+      return;
     }
 
-    // Try SteamGridDB for higher quality art
-    try {
-      const sgdbGames = await this.steamGridDbClient.searchGames(gameDetails.name);
-      if (sgdbGames.length > 0) {
-        const grid = await this.steamGridDbClient.getBestGrid(sgdbGames[0].id);
-        if (grid) {
-          coverUrl = grid.url;
-        }
-      }
-    } catch (e) {
-      console.warn('SteamGridDB fetch failed, using IGDB cover:', e);
-    }
+    this.loadingEl!.style.display = 'block';
+    this.submitButton!.disabled = true;
+    this.submitButton!.setText(translate(this.language, 'adding_button'));
 
-    return coverUrl;
+    const [timeToBeat, coverUrl] = await Promise.all([
+      hours === null && this.lookupMissing ? fetchTimeToBeat(this.providers, title) : Promise.resolve(null),
+      entry.coverUrl.trim() || (this.lookupMissing ? fetchCoverUrl(this.providers, title, null) : null),
+    ]);
+
+    // Typed hours are the main story time
+    const planning: PlanningHours =
+      hours !== null ? { main: hours, extras: null, completionist: null } : toPlanningHours(timeToBeat);
+    const roundedRating = rating !== null ? Math.round(rating) : null;
+
+    const gameData: GameData = {
+      title,
+      platform: this.platform,
+      priority: this.priority,
+      rating: roundedRating,
+      hltbHours: planning.main,
+      hltbExtrasHours: planning.extras,
+      hltbCompletionistHours: planning.completionist,
+      planningMetric: this.planningMetric,
+      efficiency: calculateEfficiency(roundedRating, this.getPlanningHours(planning)),
+      coverUrl,
+      heroUrl: null,
+      logoUrl: null,
+      description: null,
+      igdbId: null,
+      genres: entry.genres
+        .split(',')
+        .map((genre) => genre.trim())
+        .filter((genre) => genre.length > 0),
+      releaseYear: releaseYear !== null ? Math.floor(releaseYear) : null,
+      facets: null,
+      links: [],
+      screenshots: [],
+      videos: [],
+    };
+
+    this.onSubmit(gameData);
+    this.close();
   }
 
   /**
-   * Calculates efficiency score (rating / hours).
-   * @param rating - Game rating
-   * @param hltbHours - Main story hours
-   * @returns Efficiency score or null if cannot be calculated
+   * Picks the hours that count for planning, honouring this game's override.
+   * @param hours - Hours per metric
+   * @returns Planning hours, or null if unknown
    */
-  private calculateEfficiency(rating: number | null, hltbHours: number | null): number | null {
-    if (rating && hltbHours && hltbHours > 0) {
-      return Math.round((rating / hltbHours) * 100) / 100;
-    }
-    return null;
+  private getPlanningHours(hours: PlanningHours): number | null {
+    return selectPlanningHours(hours, this.planningMetric ?? this.defaultPlanningMetric);
+  }
+
+  /**
+   * Checks whether a request failed because the API rate limit was still exceeded after retries.
+   * @param error - Error thrown by a provider
+   * @returns True for HTTP 429 errors
+   */
+  private isRateLimited(error: unknown): boolean {
+    return error instanceof HttpError && error.status === 429;
   }
 
   /**
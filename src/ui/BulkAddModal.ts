@@ -0,0 +1,545 @@
+import { App, DropdownComponent, Modal, Notice, ToggleComponent } from 'obsidian';
+
+import { HttpError } from '../api/scheduler';
+import { translate, translatePriority } from '../i18n';
+import type { GameSummary, TimeToBeat } from '../providers';
+import {
+  calculateEfficiency,
+  fetchCoverUrl,
+  fetchDetails,
+  fetchTimeToBeat,
+  findExactMatch,
+  ProviderRegistry,
+  selectPlanningHours,
+  toPlanningHours,
+} from '../providers';
+import { PLATFORMS, PRIORITIES, PlanningMetric, Platform, Priority } from '../settings';
+
+import type { GameData } from './AddGameModal';
+
+// Declare global console for ESLint
+declare const console: Console;
+
+// Candidates offered per title in the review table
+const CANDIDATE_LIMIT = 5;
+
+// Translation keys of the review table headers
+const COLUMN_KEYS = [
+  'bulk_col_title',
+  'bulk_col_match',
+  'bulk_col_hours',
+  'platform_label',
+  'priority_label',
+  'bulk_col_skip',
+  'bulk_col_status',
+];
+
+/**
+ * Creates the note for one game. Rejects when the note cannot be created,
+ * so the failure can be reported on the game's row.
+ */
+export type BulkCreate = (data: GameData) => Promise<void>;
+
+export type BulkRowState = 'searching' | 'ready' | 'not_found' | 'adding' | 'added' | 'failed';
+
+// One pasted title and the choices made for it in the review table
+export interface BulkRow {
+  query: string;
+  candidates: GameSummary[];
+  selected: GameSummary | null;
+  timeToBeat: TimeToBeat | null;
+  coverUrl: string | null;
+  platform: Platform;
+  priority: Priority;
+  skip: boolean;
+  state: BulkRowState;
+  error: string | null;
+}
+
+export interface BulkSummary {
+  added: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Splits pasted text into titles, one per line.
+ * Blank lines, list bullets and repeated titles are dropped.
+ * @param text - Pasted text
+ * @returns Titles in their original order
+ */
+export function parseTitles(text: string): string[] {
+  const seen = new Set<string>();
+  const titles: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const title = line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim();
+    const key = title.toLowerCase();
+    if (!title || seen.has(key)) continue;
+    seen.add(key);
+    titles.push(title);
+  }
+  return titles;
+}
+
+/**
+ * Modal for adding many games at once from a pasted list of titles.
+ * Each title is matched against the search provider and shown in a review
+ * table where the match, platform and priority can be changed before the
+ * notes are created.
+ */
+export class BulkAddModal extends Modal {
+  private providers: ProviderRegistry;
+  private onCreate: BulkCreate;
+  private defaultPlatform: Platform;
+  private defaultPriority: Priority;
+  private planningMetric: PlanningMetric;
+  private language: string;
+
+  private rows: BulkRow[] = [];
+  private rowEls: HTMLElement[] = [];
+  private busy = false;
+
+  private inputEl: HTMLTextAreaElement | null = null;
+  private findButton: HTMLButtonElement | null = null;
+  private tableBody: HTMLElement | null = null;
+  private progressEl: HTMLElement | null = null;
+  private addButton: HTMLButtonElement | null = null;
+
+  /**
+   * Creates a new Bulk Add modal.
+   * @param app - Obsidian app instance
+   * @param providers - Registry of metadata providers
+   * @param defaultPlatform - Platform preselected on every row
+   * @param defaultPriority - Priority preselected on every row
+   * @param onCreate - Callback creating the note for each game
+   * @param language - UI language code
+   * @param planningMetric - Completion time used for planning
+   */
+  constructor(
+    app: App,
+    providers: ProviderRegistry,
+    defaultPlatform: Platform,
+    defaultPriority: Priority,
+    onCreate: BulkCreate,
+    language = 'en',
+    planningMetric: PlanningMetric = 'main'
+  ) {
+    super(app);
+    this.providers = providers;
+    this.defaultPlatform = defaultPlatform;
+    this.defaultPriority = defaultPriority;
+    this.onCreate = onCreate;
+    this.language = language;
+    this.planningMetric = planningMetric;
+  }
+
+  /**
+   * Sets up the modal content when opened.
+   */
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('game-backlog-modal');
+    contentEl.addClass('game-bulk-modal');
+
+    contentEl.createEl('h2', { text: translate(this.language, 'bulk_modal_title') });
+    contentEl.createEl('p', { text: translate(this.language, 'bulk_modal_desc') });
+
+    this.inputEl = contentEl.createEl('textarea', {
+      cls: 'game-bulk-input',
+      attr: { rows: '8', placeholder: translate(this.language, 'bulk_placeholder') },
+    });
+
+    const findContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    this.findButton = findContainer.createEl('button', {
+      text: translate(this.language, 'bulk_find_button'),
+    });
+    this.findButton.addEventListener('click', () => this.findGames(this.inputEl!.value));
+
+    const table = contentEl.createEl('table', { cls: 'game-bulk-table' });
+    const header = table.createEl('thead').createEl('tr');
+    for (const key of COLUMN_KEYS) {
+      header.createEl('th', { text: translate(this.language, key) });
+    }
+    this.tableBody = table.createEl('tbody');
+
+    this.progressEl = contentEl.createDiv({ cls: 'game-loading' });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    this.addButton = buttonContainer.createEl('button', { cls: 'mod-cta' });
+    this.addButton.addEventListener('click', () => this.addGames());
+    this.updateAddButton();
+
+    this.addStyles();
+  }
+
+  /**
+   * Adds CSS styles for the review table.
+   */
+  private addStyles() {
+    const styleId = 'game-backlog-bulk-styles';
+    if (document.getElementById(styleId)) return;
+
+    const style = document.createElement('style');
+    style.id = styleId;
+    style.textContent = `
+      .game-bulk-modal {
+        width: 900px;
+        max-width: 95vw;
+      }
+      .game-bulk-input {
+        width: 100%;
+        font-family: var(--font-monospace);
+      }
+      .game-bulk-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin-top: 1rem;
+      }
+      .game-bulk-table th,
+      .game-bulk-table td {
+        padding: 4px 6px;
+        border-bottom: 1px solid var(--background-modifier-border);
+        text-align: left;
+        vertical-align: middle;
+      }
+      .game-bulk-table img {
+        width: 30px;
+        height: 42px;
+        object-fit: cover;
+        border-radius: 3px;
+        margin-right: 6px;
+        vertical-align: middle;
+      }
+      .game-bulk-table select {
+        max-width: 220px;
+      }
+      .game-bulk-skipped {
+        opacity: 0.5;
+      }
+      .game-bulk-error {
+        color: var(--text-error);
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Looks up every pasted title and fills the review table.
+   * Titles are looked up one after the other so the progress stays readable.
+   * @param text - Pasted titles, one per line
+   */
+  async findGames(text: string) {
+    if (this.busy) return;
+    const titles = parseTitles(text);
+    if (titles.length === 0) {
+      new Notice(translate(this.language, 'bulk_no_titles'));
+      return;
+    }
+
+    this.setBusy(true);
+    this.rows = titles.map((query) => ({
+      query,
+      candidates: [],
+      selected: null,
+      timeToBeat: null,
+      coverUrl: null,
+      platform: this.defaultPlatform,
+      priority: this.defaultPriority,
+      skip: false,
+      state: 'searching',
+      error: null,
+    }));
+    this.tableBody!.empty();
+    this.rowEls = this.rows.map(() => this.tableBody!.createEl('tr'));
+    this.rows.forEach((_, index) => this.renderRow(index));
+
+    for (let i = 0; i < this.rows.length; i++) {
+      this.setProgress(
+        translate(this.language, 'bulk_searching_progress')
+          .replace('{current}', String(i + 1))
+          .replace('{total}', String(this.rows.length))
+      );
+      await this.lookupRow(this.rows[i]);
+      this.renderRow(i);
+    }
+
+    this.setProgress('');
+    this.setBusy(false);
+  }
+
+  /**
+   * Searches for a row's title and picks the best candidate.
+   * An exact title match wins; otherwise the top search result is used.
+   * @param row - Row to fill in
+   */
+  private async lookupRow(row: BulkRow) {
+    const provider = this.providers.first('search');
+    try {
+      row.candidates = provider?.search ? await provider.search(row.query, CANDIDATE_LIMIT) : [];
+      row.selected = findExactMatch(row.candidates, row.query) ?? row.candidates[0] ?? null;
+      if (!row.selected) {
+        row.state = 'not_found';
+        return;
+      }
+      await this.loadExtras(row);
+      row.state = 'ready';
+    } catch (error) {
+      console.error(`Bulk lookup failed for "${row.query}":`, error);
+      row.state = 'failed';
+      row.error = this.describeError(error);
+    }
+  }
+
+  /**
+   * Fetches completion time and cover for a row's selected candidate.
+   * @param row - Row with a selected candidate
+   */
+  private async loadExtras(row: BulkRow) {
+    const game = row.selected!;
+    const [timeToBeat, coverUrl] = await Promise.all([
+      fetchTimeToBeat(this.providers, game.name),
+      fetchCoverUrl(this.providers, game.name, game.coverUrl),
+    ]);
+    // The candidate may have changed while this was loading
+    if (row.selected !== game) return;
+    row.timeToBeat = timeToBeat;
+    row.coverUrl = coverUrl;
+  }
+
+  /**
+   * Switches a row to another candidate and refreshes its hours and cover.
+   * @param index - Row index
+   * @param candidateIndex - Index into the row's candidates
+   */
+  async selectCandidate(index: number, candidateIndex: number) {
+    const row = this.rows[index];
+    const candidate = row.candidates[candidateIndex];
+    if (!candidate || candidate === row.selected) return;
+
+    row.selected = candidate;
+    row.timeToBeat = null;
+    row.coverUrl = null;
+    row.error = null;
+    row.state = 'searching';
+    this.renderRow(index);
+
+    try {
+      await this.loadExtras(row);
+      row.state = 'ready';
+    } catch (error) {
+      console.error(`Bulk lookup failed for "${candidate.name}":`, error);
+      row.state = 'failed';
+      row.error = this.describeError(error);
+    }
+    this.renderRow(index);
+  }
+
+  /**
+   * Renders one row of the review table.
+   * @param index - Row index
+   */
+  private renderRow(index: number) {
+    const row = this.rows[index];
+    const el = this.rowEls[index];
+    el.empty();
+    el.toggleClass('game-bulk-skipped', row.skip);
+
+    el.createEl('td', { text: row.query });
+
+    const matchCell = el.createEl('td');
+    const thumbnail = row.coverUrl ?? row.selected?.thumbnailUrl;
+    if (thumbnail) {
+      matchCell.createEl('img', { attr: { src: thumbnail } });
+    }
+    if (row.candidates.length > 0 && row.state !== 'added') {
+      const dropdown = new DropdownComponent(matchCell);
+      row.candidates.forEach((candidate, i) => {
+        const year = candidate.releaseYear ? ` (${candidate.releaseYear})` : '';
+        dropdown.addOption(String(i), `${candidate.name}${year}`);
+      });
+      dropdown.setValue(String(row.selected ? row.candidates.indexOf(row.selected) : 0));
+      dropdown.onChange((value) => this.selectCandidate(index, Number(value)));
+    } else {
+      matchCell.setText(row.selected?.name ?? '—');
+    }
+
+    const hours = selectPlanningHours(toPlanningHours(row.timeToBeat), this.planningMetric);
+    el.createEl('td', { text: hours ? `${hours}h` : '—' });
+
+    const platform = new DropdownComponent(el.createEl('td'));
+    PLATFORMS.forEach((p) => platform.addOption(p, p));
+    platform.setValue(row.platform);
+    platform.onChange((value) => {
+      row.platform = value as Platform;
+    });
+
+    const priority = new DropdownComponent(el.createEl('td'));
+    PRIORITIES.forEach((p) => priority.addOption(p, translatePriority(this.language, p)));
+    priority.setValue(row.priority);
+    priority.onChange((value) => {
+      row.priority = value as Priority;
+    });
+
+    const skip = new ToggleComponent(el.createEl('td'));
+    skip.setValue(row.skip);
+    skip.onChange((value) => {
+      row.skip = value;
+      el.toggleClass('game-bulk-skipped', value);
+      this.updateAddButton();
+    });
+
+    const status = el.createEl('td', { text: translate(this.language, `bulk_status_${row.state}`) });
+    if (row.error) {
+      status.createEl('div', { cls: 'game-bulk-error', text: row.error });
+    }
+
+    this.updateAddButton();
+  }
+
+  /**
+   * Lists the rows that will be created on the next click of the add button.
+   * @returns Rows with a match that are neither skipped nor added yet
+   */
+  private pendingRows(): BulkRow[] {
+    return this.rows.filter(
+      (row) => !row.skip && row.selected && (row.state === 'ready' || row.state === 'failed')
+    );
+  }
+
+  /**
+   * Creates notes for every pending row, reporting failures on their row.
+   * Failed rows stay pending, so clicking the button again retries them.
+   * @returns Counts of added, skipped and failed games
+   */
+  async addGames(): Promise<BulkSummary> {
+    const summary: BulkSummary = { added: 0, skipped: 0, failed: 0 };
+    if (this.busy) return summary;
+
+    const pending = this.pendingRows();
+    summary.skipped = this.rows.filter((row) => row.skip || !row.selected).length;
+    if (pending.length === 0) {
+      new Notice(translate(this.language, 'bulk_nothing_to_add'));
+      return summary;
+    }
+
+    this.setBusy(true);
+    for (let i = 0; i < pending.length; i++) {
+      const row = pending[i];
+      const index = this.rows.indexOf(row);
+      this.setProgress(
+        translate(this.language, 'bulk_adding_progress')
+          .replace('{current}', String(i + 1))
+          .replace('{total}', String(pending.length))
+          .replace('{title}', row.selected!.name)
+      );
+      row.state = 'adding';
+      row.error = null;
+      this.renderRow(index);
+
+      try {
+        await this.onCreate(await this.buildGameData(row));
+        row.state = 'added';
+        summary.added++;
+      } catch (error) {
+        console.error(`Failed to add "${row.selected!.name}":`, error);
+        row.state = 'failed';
+        row.error = this.describeError(error);
+        summary.failed++;
+      }
+      this.renderRow(index);
+    }
+
+    const message = translate(this.language, 'bulk_summary')
+      .replace('{added}', String(summary.added))
+      .replace('{skipped}', String(summary.skipped))
+      .replace('{failed}', String(summary.failed));
+    this.setProgress(message);
+    new Notice(message);
+    this.setBusy(false);
+    return summary;
+  }
+
+  /**
+   * Fetches full details for a row's match and assembles the note data.
+   * @param row - Row with a selected candidate
+   * @returns Game data for the note
+   */
+  private async buildGameData(row: BulkRow): Promise<GameData> {
+    const details = await fetchDetails(this.providers, row.selected!);
+    const rating = details.rating;
+    const hours = toPlanningHours(row.timeToBeat);
+
+    return {
+      title: details.name,
+      platform: row.platform,
+      priority: row.priority,
+      rating,
+      hltbHours: hours.main,
+      hltbExtrasHours: hours.extras,
+      hltbCompletionistHours: hours.completionist,
+      planningMetric: null,
+      efficiency: calculateEfficiency(rating, selectPlanningHours(hours, this.planningMetric)),
+      coverUrl: row.coverUrl ?? details.coverUrl,
+      heroUrl: null,
+      logoUrl: null,
+      description: details.description,
+      igdbId: details.id,
+      genres: details.genres,
+      releaseYear: details.releaseYear,
+      facets: details.facets ?? null,
+      links: details.links ?? [],
+      screenshots: details.screenshots ?? [],
+      videos: details.videos ?? [],
+    };
+  }
+
+  /**
+   * Turns an error into a short message for the row's status cell.
+   * @param error - Error thrown by a provider or the create callback
+   * @returns Localized or original error message
+   */
+  private describeError(error: unknown): string {
+    if (error instanceof HttpError && error.status === 429) {
+      return translate(this.language, 'rate_limited_notice');
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Shows a progress or summary line under the table.
+   * @param text - Text to show; empty hides the line
+   */
+  private setProgress(text: string) {
+    this.progressEl!.setText(text);
+    this.progressEl!.style.display = text ? 'block' : 'none';
+  }
+
+  /**
+   * Disables the buttons while titles are looked up or notes are created.
+   * @param busy - True while work is in progress
+   */
+  private setBusy(busy: boolean) {
+    this.busy = busy;
+    this.findButton!.disabled = busy;
+    this.updateAddButton();
+  }
+
+  /**
+   * Updates the add button's label with the number of games to create.
+   */
+  private updateAddButton() {
+    if (!this.addButton) return;
+    const count = this.pendingRows().length;
+    this.addButton.setText(translate(this.language, 'bulk_add_button').replace('{count}', String(count)));
+    this.addButton.disabled = this.busy || count === 0;
+  }
+
+  /**
+   * Cleans up the modal when closed.
+   */
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,115 @@
+import { App, Modal, Setting } from 'obsidian';
+
+import { translate } from '../i18n';
+import type { DuplicateMatch } from '../library/GameLibrary';
+
+// What to do about a game that may already be in the vault
+export type DuplicateChoice = 'open' | 'merge' | 'add';
+
+/**
+ * Called with the user's choice and the note it applies to.
+ */
+export type DuplicateResolve = (choice: DuplicateChoice, match: DuplicateMatch) => void;
+
+/**
+ * Modal shown when a game being added may already have a note, letting the
+ * user open that note, merge the new data into it, or add a separate note.
+ */
+export class DuplicateGameModal extends Modal {
+  private title: string;
+  private matches: DuplicateMatch[];
+  private selected: DuplicateMatch;
+  private onChoose: DuplicateResolve;
+  private language: string;
+
+  /**
+   * Creates a new duplicate modal.
+   * @param app - Obsidian app instance
+   * @param title - Title of the game being added
+   * @param matches - Existing notes that may describe it, most likely first
+   * @param onChoose - Callback with the user's choice
+   * @param language - UI language code
+   */
+  constructor(app: App, title: string, matches: DuplicateMatch[], onChoose: DuplicateResolve, language = 'en') {
+    super(app);
+    this.title = title;
+    this.matches = matches;
+    this.selected = matches[0];
+    this.onChoose = onChoose;
+    this.language = language;
+  }
+
+  /**
+   * Sets up the modal content when opened.
+   */
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('game-backlog-modal');
+
+    contentEl.createEl('h2', { text: translate(this.language, 'duplicate_modal_title') });
+    contentEl.createEl('p', {
+      text: translate(this.language, 'duplicate_modal_desc').replace('{title}', this.title),
+    });
+
+    if (this.matches.length === 1) {
+      const item = contentEl.createEl('ul').createEl('li');
+      item.createEl('strong', { text: this.selected.entry.file.path });
+      item.createEl('span', { text: ` (${this.describeMatch(this.selected)})` });
+    } else {
+      new Setting(contentEl).setName(translate(this.language, 'duplicate_note')).addDropdown((dropdown) => {
+        this.matches.forEach((match, index) => {
+          dropdown.addOption(String(index), `${match.entry.file.path} (${this.describeMatch(match)})`);
+        });
+        dropdown.setValue('0').onChange((value) => {
+          this.selected = this.matches[Number(value)];
+        });
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) => {
+        btn.setButtonText(translate(this.language, 'duplicate_add_button')).onClick(() => this.choose('add'));
+      })
+      .addButton((btn) => {
+        btn.setButtonText(translate(this.language, 'duplicate_merge_button')).onClick(() => this.choose('merge'));
+      })
+      .addButton((btn) => {
+        btn
+          .setButtonText(translate(this.language, 'duplicate_open_button'))
+          .setCta()
+          .onClick(() => this.choose('open'));
+      });
+  }
+
+  /**
+   * Cleans up the modal content when closed.
+   */
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  /**
+   * Closes the modal and reports the choice for the selected note.
+   * @param choice - What to do about the duplicate
+   */
+  private choose(choice: DuplicateChoice) {
+    this.close();
+    this.onChoose(choice, this.selected);
+  }
+
+  /**
+   * Explains why a note was matched.
+   * @param match - Duplicate match
+   * @returns Localized reason
+   */
+  private describeMatch(match: DuplicateMatch): string {
+    return match.reason === 'igdb'
+      ? translate(this.language, 'duplicate_reason_igdb')
+      : translate(this.language, 'duplicate_reason_title').replace(
+          '{percent}',
+          String(Math.round(match.similarity * 100))
+        );
+  }
+}
@@ -0,0 +1,112 @@
+import { App, Modal, Setting } from 'obsidian';
+
+import { translate } from '../i18n';
+import type { FieldChange, NoteUpgrade } from '../migrations/schema';
+
+// Notes listed in the preview; the rest are summarized as a count
+const MAX_LISTED_NOTES = 50;
+
+/**
+ * Called when the user confirms the upgrade.
+ */
+export type UpgradeConfirm = () => void;
+
+/**
+ * Formats a frontmatter value for display.
+ * @param value - Frontmatter value
+ * @returns Short textual representation
+ */
+function formatValue(value: unknown): string {
+  return value === undefined ? '' : JSON.stringify(value);
+}
+
+/**
+ * Modal previewing frontmatter schema upgrades before they are applied.
+ */
+export class UpgradeNotesModal extends Modal {
+  private upgrades: NoteUpgrade[];
+  private onConfirm: UpgradeConfirm;
+  private language: string;
+
+  /**
+   * Creates a new upgrade preview modal.
+   * @param app - Obsidian app instance
+   * @param upgrades - Planned upgrades, one per outdated note
+   * @param onConfirm - Callback when the user applies the upgrade
+   * @param language - UI language code
+   */
+  constructor(app: App, upgrades: NoteUpgrade[], onConfirm: UpgradeConfirm, language = 'en') {
+    super(app);
+    this.upgrades = upgrades;
+    this.onConfirm = onConfirm;
+    this.language = language;
+  }
+
+  /**
+   * Sets up the modal content when opened.
+   */
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('game-backlog-modal');
+
+    contentEl.createEl('h2', { text: translate(this.language, 'upgrade_modal_title') });
+    contentEl.createEl('p', {
+      text: translate(this.language, 'upgrade_modal_desc').replace('{count}', String(this.upgrades.length)),
+    });
+
+    const list = contentEl.createEl('ul');
+    for (const upgrade of this.upgrades.slice(0, MAX_LISTED_NOTES)) {
+      const item = list.createEl('li');
+      item.createEl('strong', { text: upgrade.file.path });
+      item.createEl('span', { text: ` (v${upgrade.fromVersion} → v${upgrade.toVersion})` });
+
+      const changes = item.createEl('ul');
+      for (const change of upgrade.changes) {
+        changes.createEl('li', { text: this.describeChange(change) });
+      }
+    }
+    if (this.upgrades.length > MAX_LISTED_NOTES) {
+      contentEl.createEl('p', {
+        text: translate(this.language, 'upgrade_more_notes').replace(
+          '{count}',
+          String(this.upgrades.length - MAX_LISTED_NOTES)
+        ),
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) => {
+        btn.setButtonText(translate(this.language, 'cancel_button')).onClick(() => this.close());
+      })
+      .addButton((btn) => {
+        btn
+          .setButtonText(translate(this.language, 'upgrade_apply_button'))
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          });
+      });
+  }
+
+  /**
+   * Cleans up the modal content when closed.
+   */
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  /**
+   * Describes a single field change.
+   * @param change - Field change
+   * @returns Localized description
+   */
+  private describeChange(change: FieldChange): string {
+    return translate(this.language, `upgrade_change_${change.type}`)
+      .replace('{field}', change.field)
+      .replace('{before}', formatValue(change.before))
+      .replace('{after}', formatValue(change.after));
+  }
+}
@@ -14,6 +14,12 @@ export const requestUrl = vi.fn().mockImplementation((options) => {
   });
 });
 
+// Mirrors Obsidian's path normalization: forward slashes, no duplicate or edge slashes
+export const normalizePath = (path: string): string => {
+  const normalized = path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+  return normalized || '/';
+};
+
 // Mock Notice for notifications - using vi.fn() so we can spy on calls
 export const Notice = vi.fn().mockImplementation((message: string, timeout?: number) => {
   return {
@@ -22,6 +28,20 @@ export const Notice = vi.fn().mockImplementation((message: string, timeout?: num
   };
 });
 
+// Mock Events, with trigger() so tests can simulate vault and metadata events
+export class Events {
+  private handlers: Record<string, Array<(...args: any[]) => void>> = {};
+
+  on(name: string, callback: (...args: any[]) => void): EventRef {
+    (this.handlers[name] ??= []).push(callback);
+    return { name, callback } as EventRef;
+  }
+
+  trigger(name: string, ...args: any[]): void {
+    (this.handlers[name] ?? []).forEach((callback) => callback(...args));
+  }
+}
+
 // Mock Plugin base class
 export class Plugin {
   app: App;
@@ -53,6 +73,8 @@ export class FileManager {
       return Promise.resolve();
     }
   );
+
+  renameFile = vi.fn().mockResolvedValue(undefined);
 }
 
 // Mock App
@@ -85,24 +107,41 @@ export class TFile {
   }
 }
 
+// Mock DataAdapter
+export class DataAdapter {
+  exists = vi.fn().mockResolvedValue(false);
+  read = vi.fn();
+  write = vi.fn().mockResolvedValue(undefined);
+}
+
 // Mock Vault
-export class Vault {
+export class Vault extends Events {
+  configDir = '.obsidian';
+  adapter = new DataAdapter();
   getAbstractFileByPath = vi.fn();
+  getMarkdownFiles = vi.fn().mockReturnValue([]);
   create = vi.fn();
+  createBinary = vi.fn();
+  createFolder = vi.fn();
   read = vi.fn();
+  readBinary = vi.fn();
   modify = vi.fn();
+  process = vi.fn();
 }
 
 // Mock Workspace
 export class Workspace {
   getActiveFile = vi.fn();
+  onLayoutReady(callback: () => void): void {
+    callback();
+  }
   getLeaf = vi.fn().mockReturnValue({
     openFile: vi.fn(),
   });
 }
 
 // Mock MetadataCache
-export class MetadataCache {
+export class MetadataCache extends Events {
   getFileCache = vi.fn();
 }
 
@@ -180,6 +219,34 @@ export class Setting {
     cb(new ButtonComponent(createMockElement()));
     return this;
   }
+
+  addToggle(cb: (toggle: ToggleComponent) => void): this {
+    cb(new ToggleComponent(createMockElement()));
+    return this;
+  }
+}
+
+// Mock ToggleComponent
+export class ToggleComponent {
+  toggleEl: HTMLElement;
+  private value = false;
+
+  constructor(containerEl: HTMLElement) {
+    this.toggleEl = createMockElement();
+  }
+
+  setValue(value: boolean): this {
+    this.value = value;
+    return this;
+  }
+
+  getValue(): boolean {
+    return this.value;
+  }
+
+  onChange(callback: (value: boolean) => void): this {
+    return this;
+  }
 }
 
 // Mock TextComponent
@@ -331,6 +398,7 @@ function createMockElement(): HTMLElement {
     setText: vi.fn(),
     addClass: vi.fn(),
     removeClass: vi.fn(),
+    toggleClass: vi.fn(),
     style: {},
     classList: {
       add: vi.fn(),
@@ -341,6 +409,7 @@ function createMockElement(): HTMLElement {
     getAttribute: vi.fn(),
     setAttribute: vi.fn(),
     removeAttribute: vi.fn(),
+    scrollIntoView: vi.fn(),
     querySelector: vi.fn(),
     querySelectorAll: vi.fn().mockReturnValue([]),
     innerHTML: '',
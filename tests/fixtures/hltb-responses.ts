@@ -94,3 +94,27 @@ export const mockHltbSearchResponseWithAccents = {
     },
   ],
 };
+
+export const mockHltbGamePageHtml = `<!DOCTYPE html><html><head><title>The Witcher 3: Wild Hunt | HowLongToBeat</title></head><body>
+<script id="__NEXT_DATA__" type="application/json">${JSON.stringify({
+  props: {
+    pageProps: {
+      game: {
+        data: {
+          game: [
+            {
+              game_id: 10270,
+              game_name: 'The Witcher 3: Wild Hunt',
+              game_image: 'witcher3.jpg',
+              comp_main: 185400, // 51.5 hours
+              comp_plus: 370800, // 103 hours
+              comp_100: 622800, // 173 hours
+              comp_all: 370800,
+              comp_all_count: 5000,
+            },
+          ],
+        },
+      },
+    },
+  },
+})}</script></body></html>`;
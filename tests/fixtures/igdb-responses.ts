@@ -79,6 +79,38 @@ export const mockIgdbGameById: IgdbGame = {
       category: 13,
     },
   ],
+  screenshots: [
+    { id: 1, image_id: 'em1y2ugcwy2myuhvb9db' },
+    { id: 2, image_id: 'mnljdjtrh44x4snmierh' },
+  ],
+  artworks: [{ id: 3, image_id: 'ar5l8' }],
+  videos: [
+    { id: 1, name: 'Gameplay video', video_id: 'XHrskkHf958' },
+    { id: 2, name: 'Launch Trailer', video_id: 'c0i88t0Kacs' },
+  ],
+  external_games: [
+    { id: 1, category: 1, uid: '292030' },
+    { id: 2, category: 5, uid: '1207664663', url: 'https://www.gog.com/game/the_witcher_3_wild_hunt' },
+  ],
+  involved_companies: [
+    { id: 1, company: { id: 908, name: 'CD Projekt RED' }, developer: true, publisher: false },
+    { id: 2, company: { id: 1633, name: 'CD Projekt' }, developer: false, publisher: true },
+    { id: 3, company: { id: 2187, name: 'Bandai Namco Entertainment' }, developer: false, publisher: true },
+  ],
+  franchises: [{ id: 452, name: 'The Witcher' }],
+  collections: [{ id: 245, name: 'The Witcher' }],
+  game_modes: [{ id: 1, name: 'Single player' }],
+  themes: [
+    { id: 1, name: 'Action' },
+    { id: 17, name: 'Fantasy' },
+    { id: 38, name: 'Open world' },
+  ],
+  player_perspectives: [{ id: 2, name: 'Third person' }],
+  game_engines: [{ id: 94, name: 'REDengine 3' }],
+  keywords: [
+    { id: 296, name: 'monsters' },
+    { id: 1033, name: 'magic' },
+  ],
 };
 
 export const mockIgdbGameMinimal: IgdbGame = {
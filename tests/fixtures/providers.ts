@@ -0,0 +1,111 @@
+import type {
+  ArtworkGame,
+  ArtworkSet,
+  GameDetails,
+  GameSummary,
+  MetadataProvider,
+  ProviderCapability,
+  TimeToBeat,
+  TimeToBeatCandidate,
+  UrlMatch,
+} from '../../src/providers';
+import type { GameUrl } from '../../src/api/urls';
+
+export interface InMemoryProviderData {
+  games?: GameDetails[];
+  timeToBeat?: Record<string, TimeToBeat>;
+  timeToBeatCandidates?: Record<string, TimeToBeatCandidate[]>; // defaults to the timeToBeat entry
+  covers?: Record<string, string>;
+  artworkGames?: Record<string, ArtworkGame[]>; // keyed by title
+  artwork?: Record<number, ArtworkSet>; // keyed by artwork game id
+  urls?: Record<string, UrlMatch>; // keyed by urlKey()
+}
+
+/**
+ * Builds the key used to register canned URL matches.
+ * @param url - Parsed game URL
+ * @returns Key such as 'steam:292030'
+ */
+export function urlKey(url: GameUrl): string {
+  return `${url.source}:${'slug' in url ? url.slug : 'appId' in url ? url.appId : url.gameId}`;
+}
+
+/**
+ * Provider serving canned data, used to exercise flows without HTTP mocks.
+ */
+export class InMemoryProvider implements MetadataProvider {
+  readonly id: string;
+  readonly capabilities: readonly ProviderCapability[];
+  private data: InMemoryProviderData;
+
+  constructor(id: string, capabilities: ProviderCapability[], data: InMemoryProviderData) {
+    this.id = id;
+    this.capabilities = capabilities;
+    this.data = data;
+  }
+
+  async search(query: string, limit: number): Promise<GameSummary[]> {
+    const q = query.toLowerCase();
+    return (this.data.games ?? [])
+      .filter((g) => g.name.toLowerCase().includes(q))
+      .slice(0, limit)
+      .map(({ description: _description, ...summary }) => summary);
+  }
+
+  async getDetails(id: number): Promise<GameDetails | null> {
+    return (this.data.games ?? []).find((g) => g.id === id) ?? null;
+  }
+
+  async getTimeToBeat(title: string): Promise<TimeToBeat | null> {
+    return this.data.timeToBeat?.[title] ?? null;
+  }
+
+  async getTimeToBeatCandidates(title: string, limit: number): Promise<TimeToBeatCandidate[]> {
+    const candidates = this.data.timeToBeatCandidates?.[title];
+    if (candidates) return candidates.slice(0, limit);
+    const single = this.data.timeToBeat?.[title];
+    return single ? [{ ...single, confidence: 1 }] : [];
+  }
+
+  async getCoverArt(title: string): Promise<string | null> {
+    return this.data.covers?.[title] ?? null;
+  }
+
+  async findArtworkGames(title: string): Promise<ArtworkGame[]> {
+    return this.data.artworkGames?.[title] ?? [];
+  }
+
+  async getArtwork(id: number, limit: number): Promise<ArtworkSet> {
+    const artwork = this.data.artwork?.[id];
+    return {
+      grids: artwork?.grids.slice(0, limit) ?? [],
+      heroes: artwork?.heroes.slice(0, limit) ?? [],
+      logos: artwork?.logos.slice(0, limit) ?? [],
+    };
+  }
+
+  async resolveUrl(url: GameUrl): Promise<UrlMatch | null> {
+    return this.data.urls?.[urlKey(url)] ?? null;
+  }
+}
+
+export const memoryWitcher: GameDetails = {
+  providerId: 'memory',
+  id: 1942,
+  name: 'The Witcher 3: Wild Hunt',
+  releaseYear: 2015,
+  rating: 93,
+  genres: ['Role-playing (RPG)', 'Adventure'],
+  thumbnailUrl: 'https://example.com/thumb.jpg',
+  coverUrl: 'https://example.com/cover.jpg',
+  description: 'A monster hunter for hire.',
+};
+
+export const memoryWitcherTimes: TimeToBeat = {
+  providerId: 'memory-times',
+  id: 10270,
+  name: 'The Witcher 3: Wild Hunt',
+  mainStoryHours: 51.5,
+  mainPlusExtrasHours: 103,
+  completionistHours: 173,
+};
@@ -1,10 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import { HltbClient } from '../../src/api/hltb';
-import { IgdbClient } from '../../src/api/igdb';
+import { IgdbClient, TwitchAuthError } from '../../src/api/igdb';
 import { SteamGridDbClient } from '../../src/api/steamgriddb';
+import {
+  HltbProvider,
+  IgdbProvider,
+  ProviderRegistry,
+  SteamGridDbProvider,
+} from '../../src/providers';
 import { AddGameModal, type GameData } from '../../src/ui/AddGameModal';
-import { App, requestUrl } from '../__mocks__/obsidian';
+import { App, Notice, requestUrl } from '../__mocks__/obsidian';
 import {
   mockHltbInitResponse,
   mockHltbHomepageHtml,
@@ -16,6 +22,7 @@ import {
   mockIgdbSearchResults,
   mockIgdbGameById,
 } from '../fixtures/igdb-responses';
+import { InMemoryProvider, memoryWitcher, memoryWitcherTimes, urlKey } from '../fixtures/providers';
 import {
   mockSgdbSearchResults,
   mockSgdbGrids,
@@ -30,6 +37,7 @@ describe('AddGameModal', () => {
   let igdbClient: IgdbClient;
   let hltbClient: HltbClient;
   let steamGridDbClient: SteamGridDbClient;
+  let providers: ProviderRegistry;
   let onSubmitCallback: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
@@ -39,13 +47,15 @@ describe('AddGameModal', () => {
     igdbClient = new IgdbClient('test-client-id', 'test-client-secret');
     hltbClient = new HltbClient();
     steamGridDbClient = new SteamGridDbClient('test-api-key');
+    providers = new ProviderRegistry();
+    providers.register(new IgdbProvider(igdbClient));
+    providers.register(new HltbProvider(hltbClient));
+    providers.register(new SteamGridDbProvider(steamGridDbClient));
     onSubmitCallback = vi.fn();
 
     modal = new AddGameModal(
       app,
-      igdbClient,
-      hltbClient,
-      steamGridDbClient,
+      providers,
       'Steam Deck',
       'Must Play',
       onSubmitCallback
@@ -66,9 +76,7 @@ describe('AddGameModal', () => {
     it('should accept different default platform', () => {
       const customModal = new AddGameModal(
         app,
-        igdbClient,
-        hltbClient,
-        steamGridDbClient,
+        providers,
         'Full PC',
         'Will Get Around To',
         onSubmitCallback
@@ -297,9 +305,7 @@ describe('AddGameModal', () => {
       platforms.forEach((platform) => {
         const testModal = new AddGameModal(
           app,
-          igdbClient,
-          hltbClient,
-          steamGridDbClient,
+          providers,
           platform as any,
           'Must Play',
           onSubmitCallback
@@ -314,9 +320,7 @@ describe('AddGameModal', () => {
       priorities.forEach((priority) => {
         const testModal = new AddGameModal(
           app,
-          igdbClient,
-          hltbClient,
-          steamGridDbClient,
+          providers,
           'Steam Deck',
           priority as any,
           onSubmitCallback
@@ -325,4 +329,721 @@ describe('AddGameModal', () => {
       });
     });
   });
+  describe('with in-memory providers', () => {
+    let memoryProviders: ProviderRegistry;
+
+    beforeEach(() => {
+      // Styles are already injected; skips document.createElement in node
+      vi.spyOn(document, 'getElementById').mockReturnValue({} as HTMLElement);
+
+      memoryProviders = new ProviderRegistry();
+      memoryProviders.register(
+        new InMemoryProvider('memory', ['search', 'details'], { games: [memoryWitcher] })
+      );
+      memoryProviders.register(
+        new InMemoryProvider('memory-times', ['timeToBeat'], {
+          timeToBeat: { [memoryWitcher.name]: memoryWitcherTimes },
+        })
+      );
+      memoryProviders.register(
+        new InMemoryProvider('memory-art', ['artwork'], {
+          covers: { [memoryWitcher.name]: 'https://example.com/grid.png' },
+        })
+      );
+    });
+
+    it('should search, select and submit through providers', async () => {
+      const memoryModal = new AddGameModal(
+        app,
+        memoryProviders,
+        'Steam Deck',
+        'Must Play',
+        onSubmitCallback
+      );
+      memoryModal.onOpen();
+
+      await (memoryModal as any).performSearch('witcher');
+      const results = (memoryModal as any).searchResults;
+      expect(results).toHaveLength(1);
+
+      await (memoryModal as any).selectGame(results[0]);
+      await (memoryModal as any).handleSubmit();
+
+      const submitted: GameData = onSubmitCallback.mock.calls[0][0];
+      expect(submitted.title).toBe('The Witcher 3: Wild Hunt');
+      expect(submitted.rating).toBe(93);
+      expect(submitted.hltbHours).toBe(51.5);
+      expect(submitted.efficiency).toBe(1.81);
+      expect(submitted.coverUrl).toBe('https://example.com/grid.png');
+      expect(submitted.description).toBe('A monster hunter for hire.');
+      expect(submitted.igdbId).toBe(1942);
+    });
+
+    it('should fall back to the details cover without artwork providers', async () => {
+      memoryProviders.unregister('memory-art');
+      const memoryModal = new AddGameModal(
+        app,
+        memoryProviders,
+        'Steam Deck',
+        'Must Play',
+        onSubmitCallback
+      );
+      memoryModal.onOpen();
+
+      await (memoryModal as any).selectGame(memoryWitcher);
+      await (memoryModal as any).handleSubmit();
+
+      expect(onSubmitCallback.mock.calls[0][0].coverUrl).toBe('https://example.com/cover.jpg');
+    });
+  });
+
+  describe('keyboard navigation', () => {
+    let keyboardModal: AddGameModal;
+
+    const keydown = (key: string, modifiers: Partial<KeyboardEvent> = {}) =>
+      ({ key, preventDefault: vi.fn(), stopPropagation: vi.fn(), ...modifiers }) as unknown as KeyboardEvent;
+
+    beforeEach(async () => {
+      // Styles are already injected; skips document.createElement in node
+      vi.spyOn(document, 'getElementById').mockReturnValue({} as HTMLElement);
+
+      const witcherRemaster = { ...memoryWitcher, id: 9999, releaseYear: 2022 };
+      const keyboardProviders = new ProviderRegistry();
+      keyboardProviders.register(
+        new InMemoryProvider('memory', ['search', 'details'], { games: [memoryWitcher, witcherRemaster] })
+      );
+
+      keyboardModal = new AddGameModal(app, keyboardProviders, 'Steam Deck', 'must_play', onSubmitCallback);
+      keyboardModal.onOpen();
+      await (keyboardModal as any).performSearch('witcher');
+    });
+
+    it('should expose the results as an ARIA listbox', () => {
+      const options = (keyboardModal as any).resultEls;
+      expect(options).toHaveLength(2);
+      expect((keyboardModal as any).searchInput.inputEl.setAttribute).toHaveBeenCalledWith('aria-expanded', 'true');
+    });
+
+    it('should move the highlight with the arrow keys and wrap around', async () => {
+      const modal = keyboardModal as any;
+
+      await modal.handleSearchKeydown(keydown('ArrowDown'));
+      expect(modal.activeIndex).toBe(0);
+      expect(modal.resultEls[0].addClass).toHaveBeenCalledWith('is-active');
+      expect(modal.resultEls[0].setAttribute).toHaveBeenCalledWith('aria-selected', 'true');
+
+      await modal.handleSearchKeydown(keydown('ArrowDown'));
+      await modal.handleSearchKeydown(keydown('ArrowDown'));
+      expect(modal.activeIndex).toBe(0);
+
+      await modal.handleSearchKeydown(keydown('ArrowUp'));
+      expect(modal.activeIndex).toBe(1);
+      expect(modal.resultEls[0].removeClass).toHaveBeenCalledWith('is-active');
+    });
+
+    it('should select the highlighted result on Enter without submitting', async () => {
+      const modal = keyboardModal as any;
+      await modal.handleSearchKeydown(keydown('ArrowUp'));
+
+      const event = keydown('Enter');
+      await modal.handleSearchKeydown(event);
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(modal.selectedGame.id).toBe(9999);
+      expect(onSubmitCallback).not.toHaveBeenCalled();
+    });
+
+    it('should select and submit on Ctrl+Enter', async () => {
+      const modal = keyboardModal as any;
+      await modal.handleSearchKeydown(keydown('ArrowDown'));
+
+      await modal.handleSearchKeydown(keydown('Enter', { ctrlKey: true }));
+
+      expect(onSubmitCallback).toHaveBeenCalledTimes(1);
+      expect(onSubmitCallback.mock.calls[0][0].igdbId).toBe(1942);
+    });
+
+    it('should pick the first result on Enter when nothing is highlighted', async () => {
+      await (keyboardModal as any).handleSearchKeydown(keydown('Enter'));
+
+      expect((keyboardModal as any).selectedGame.id).toBe(1942);
+    });
+
+    it('should clear the highlight on Escape instead of closing', async () => {
+      const modal = keyboardModal as any;
+      await modal.handleSearchKeydown(keydown('ArrowDown'));
+
+      const event = keydown('Escape');
+      await modal.handleSearchKeydown(event);
+
+      expect(modal.activeIndex).toBe(-1);
+      expect(event.stopPropagation).toHaveBeenCalled();
+    });
+  });
+
+  describe('search sequencing and states', () => {
+    let sequenceProviders: ProviderRegistry;
+    let memory: InMemoryProvider;
+    let sequenceModal: AddGameModal;
+
+    beforeEach(() => {
+      // Styles are already injected; skips document.createElement in node
+      vi.spyOn(document, 'getElementById').mockReturnValue({} as HTMLElement);
+
+      memory = new InMemoryProvider('memory', ['search', 'details'], { games: [memoryWitcher] });
+      sequenceProviders = new ProviderRegistry();
+      sequenceProviders.register(memory);
+
+      sequenceModal = new AddGameModal(app, sequenceProviders, 'Steam Deck', 'must_play', onSubmitCallback);
+      sequenceModal.onOpen();
+    });
+
+    const statusTexts = () =>
+      (sequenceModal as any).resultsContainer.createDiv.mock.calls
+        .map((call: any[]) => call[0])
+        .filter((options: any) => options.cls?.startsWith('game-search-status'))
+        .map((options: any) => options.text);
+
+    it('should only render the latest query when responses arrive out of order', async () => {
+      let resolveSlow: (results: any[]) => void = () => {};
+      const slow = new Promise<any[]>((resolve) => {
+        resolveSlow = resolve;
+      });
+      const newer = [{ ...memoryWitcher, id: 2 }];
+      vi.spyOn(memory, 'search').mockReturnValueOnce(slow).mockResolvedValueOnce(newer);
+
+      const first = (sequenceModal as any).performSearch('witc');
+      await (sequenceModal as any).performSearch('witcher 3');
+      resolveSlow([{ ...memoryWitcher, id: 1 }]);
+      await first;
+
+      expect((sequenceModal as any).searchResults).toEqual(newer);
+      expect((sequenceModal as any).resultEls).toHaveLength(1);
+    });
+
+    it('should drop results that arrive after a game was selected', async () => {
+      let resolveSlow: (results: any[]) => void = () => {};
+      vi.spyOn(memory, 'search').mockReturnValueOnce(
+        new Promise<any[]>((resolve) => {
+          resolveSlow = resolve;
+        })
+      );
+
+      const search = (sequenceModal as any).performSearch('witcher');
+      await (sequenceModal as any).selectGame(memoryWitcher);
+      resolveSlow([memoryWitcher]);
+      await search;
+
+      expect((sequenceModal as any).resultEls).toHaveLength(0);
+    });
+
+    it('should show a loading state while searching', async () => {
+      const search = (sequenceModal as any).performSearch('witcher');
+
+      expect(statusTexts()).toEqual(['Searching…']);
+      await search;
+    });
+
+    it('should show an empty state when nothing matches', async () => {
+      await (sequenceModal as any).performSearch('zelda');
+
+      expect(statusTexts()).toContain('No games found for "zelda"');
+    });
+
+    it('should explain rejected credentials inline instead of with a notice', async () => {
+      vi.spyOn(memory, 'search').mockRejectedValueOnce(new TwitchAuthError('rejected'));
+
+      await (sequenceModal as any).performSearch('witcher');
+
+      expect(statusTexts()).toContain(
+        'IGDB rejected your Twitch credentials. Check the Client ID and Client Secret in the plugin settings.'
+      );
+      expect(Notice).not.toHaveBeenCalled();
+    });
+
+    it('should pass the active filters to the search provider', async () => {
+      const search = vi.spyOn(memory, 'search');
+      (sequenceModal as any).filters = { platformFamily: 'nintendo', yearFrom: 2017 };
+
+      await (sequenceModal as any).performSearch('zelda');
+
+      expect(search).toHaveBeenCalledWith('zelda', 8, { platformFamily: 'nintendo', yearFrom: 2017 });
+    });
+
+    it('should count active filters on the filters button', () => {
+      const modal = sequenceModal as any;
+      modal.filters = { platformFamily: 'pc', yearFrom: null, gameType: 'main' };
+
+      modal.updateFiltersToggle();
+
+      expect(modal.filtersToggle.setText).toHaveBeenLastCalledWith('Filters (2)');
+    });
+
+    it('should show other search failures inline', async () => {
+      vi.spyOn(memory, 'search').mockRejectedValueOnce(new Error('offline'));
+
+      await (sequenceModal as any).performSearch('witcher');
+
+      expect(statusTexts()).toContain('Search failed. Check your connection and try again.');
+    });
+  });
+
+  describe('completion time candidates', () => {
+    const remakeTimes = {
+      ...memoryWitcherTimes,
+      id: 2,
+      name: 'The Witcher 3: Wild Hunt - Complete Edition',
+      mainStoryHours: 60,
+      confidence: 0.7,
+    };
+    let candidateModal: AddGameModal;
+
+    beforeEach(() => {
+      // Styles are already injected; skips document.createElement in node
+      vi.spyOn(document, 'getElementById').mockReturnValue({} as HTMLElement);
+
+      const candidateProviders = new ProviderRegistry();
+      candidateProviders.register(
+        new InMemoryProvider('memory', ['search', 'details'], { games: [memoryWitcher] })
+      );
+      candidateProviders.register(
+        new InMemoryProvider('memory-times', ['timeToBeat'], {
+          timeToBeatCandidates: {
+            [memoryWitcher.name]: [{ ...memoryWitcherTimes, confidence: 1 }, remakeTimes],
+          },
+        })
+      );
+
+      candidateModal = new AddGameModal(app, candidateProviders, 'Steam Deck', 'must_play', onSubmitCallback);
+      candidateModal.onOpen();
+    });
+
+    it('should load the candidates and preselect the best one', async () => {
+      const modal = candidateModal as any;
+      await modal.selectGame(memoryWitcher);
+      await modal.timeToBeatLoad;
+
+      expect(modal.timeToBeatCandidates).toHaveLength(2);
+      expect(modal.chosenTimeToBeat.id).toBe(memoryWitcherTimes.id);
+      expect(modal.describeTimes(remakeTimes)).toBe('60h main · 103h main + extras · 173h completionist • 70% title match');
+    });
+
+    it('should write the hours of the candidate the user picked', async () => {
+      const modal = candidateModal as any;
+      await modal.selectGame(memoryWitcher);
+      await modal.timeToBeatLoad;
+      modal.chosenTimeToBeat = modal.timeToBeatCandidates[1];
+
+      await modal.handleSubmit();
+
+      expect(onSubmitCallback.mock.calls[0][0].hltbHours).toBe(60);
+    });
+
+    it('should leave the hours empty when no candidate is kept', async () => {
+      const modal = candidateModal as any;
+      await modal.selectGame(memoryWitcher);
+      await modal.timeToBeatLoad;
+      modal.chosenTimeToBeat = null;
+
+      await modal.handleSubmit();
+
+      expect(onSubmitCallback.mock.calls[0][0].hltbHours).toBeNull();
+      expect(onSubmitCallback.mock.calls[0][0].efficiency).toBeNull();
+    });
+
+    it('should write every completion time and rate efficiency by the default planning metric', async () => {
+      const extrasModal = new AddGameModal(
+        app,
+        (candidateModal as any).providers,
+        'Steam Deck',
+        'must_play',
+        onSubmitCallback,
+        'en',
+        'extras'
+      ) as any;
+      extrasModal.onOpen();
+      await extrasModal.selectGame(memoryWitcher);
+      await extrasModal.timeToBeatLoad;
+
+      await extrasModal.handleSubmit();
+
+      expect(onSubmitCallback.mock.calls[0][0]).toMatchObject({
+        hltbHours: 51.5,
+        hltbExtrasHours: 103,
+        hltbCompletionistHours: 173,
+        planningMetric: null,
+        efficiency: 0.9,
+      });
+    });
+
+    it('should rate efficiency by the planning metric chosen for the game', async () => {
+      const modal = candidateModal as any;
+      await modal.selectGame(memoryWitcher);
+      await modal.timeToBeatLoad;
+      modal.planningMetric = 'completionist';
+
+      await modal.handleSubmit();
+
+      expect(onSubmitCallback.mock.calls[0][0]).toMatchObject({ planningMetric: 'completionist', efficiency: 0.54 });
+    });
+
+    it('should use times pinned by a pasted link as the only candidate', async () => {
+      const modal = candidateModal as any;
+      const pinnedTimes = { ...memoryWitcherTimes, mainStoryHours: 40 };
+      await modal.selectGame(memoryWitcher, {
+        game: null,
+        title: memoryWitcher.name,
+        releaseYear: null,
+        timeToBeat: pinnedTimes,
+        coverUrl: null,
+      });
+      await modal.timeToBeatLoad;
+
+      expect(modal.timeToBeatCandidates).toHaveLength(1);
+      expect(modal.chosenTimeToBeat).toBe(pinnedTimes);
+    });
+  });
+
+  describe('artwork picker', () => {
+    const image = (id: number, kind: string) => ({
+      id,
+      url: `https://example.com/${kind}/${id}.png`,
+      thumbnailUrl: `https://example.com/thumb/${id}.png`,
+      width: 600,
+      height: 900,
+    });
+    const sgdbWitcher = { providerId: 'memory-art', id: 4614, name: memoryWitcher.name, releaseYear: 2015 };
+    const sgdbGoty = { providerId: 'memory-art', id: 4615, name: 'The Witcher 3: GOTY', releaseYear: 2016 };
+    let artModal: any;
+    let artProvider: InMemoryProvider;
+
+    beforeEach(() => {
+      // Styles are already injected; skips document.createElement in node
+      vi.spyOn(document, 'getElementById').mockReturnValue({} as HTMLElement);
+
+      const artProviders = new ProviderRegistry();
+      artProviders.register(
+        new InMemoryProvider('memory', ['search', 'details'], { games: [memoryWitcher] })
+      );
+      artProvider = new InMemoryProvider('memory-art', ['artwork'], {
+        covers: { [memoryWitcher.name]: 'https://example.com/auto.png' },
+        artworkGames: { [memoryWitcher.name]: [sgdbWitcher, sgdbGoty] },
+        artwork: {
+          4614: { grids: [image(1, 'grid'), image(2, 'grid')], heroes: [image(3, 'hero')], logos: [image(4, 'logo')] },
+          4615: { grids: [image(5, 'grid')], heroes: [], logos: [] },
+        },
+      });
+      artProviders.register(artProvider);
+
+      artModal = new AddGameModal(app, artProviders, 'Steam Deck', 'must_play', onSubmitCallback);
+      artModal.onOpen();
+    });
+
+    it('should not load artwork until the step is opened', async () => {
+      const find = vi.spyOn(artProvider, 'findArtworkGames');
+      await artModal.selectGame(memoryWitcher);
+
+      expect(find).not.toHaveBeenCalled();
+      expect(artModal.artworkToggle.style.display).toBe('');
+
+      await artModal.setArtworkOpen(true);
+
+      expect(find).toHaveBeenCalledWith(memoryWitcher.name);
+      expect(artModal.artworkGame).toEqual(sgdbWitcher);
+      expect(artModal.chosenArtwork).toEqual({ grids: image(1, 'grid'), heroes: null, logos: null });
+    });
+
+    it('should write the picked cover, hero and logo into the note', async () => {
+      await artModal.selectGame(memoryWitcher);
+      await artModal.setArtworkOpen(true);
+      artModal.chosenArtwork.grids = artModal.artwork.grids[1];
+      artModal.chosenArtwork.heroes = artModal.artwork.heroes[0];
+      artModal.chosenArtwork.logos = artModal.artwork.logos[0];
+
+      await artModal.handleSubmit();
+
+      expect(onSubmitCallback.mock.calls[0][0]).toMatchObject({
+        coverUrl: 'https://example.com/grid/2.png',
+        heroUrl: 'https://example.com/hero/3.png',
+        logoUrl: 'https://example.com/logo/4.png',
+      });
+    });
+
+    it('should fall back to the automatic cover when none is picked', async () => {
+      await artModal.selectGame(memoryWitcher);
+      await artModal.setArtworkOpen(true);
+      artModal.chosenArtwork.grids = null;
+
+      await artModal.handleSubmit();
+
+      expect(onSubmitCallback.mock.calls[0][0]).toMatchObject({
+        coverUrl: 'https://example.com/auto.png',
+        heroUrl: null,
+        logoUrl: null,
+      });
+    });
+
+    it('should browse another SteamGridDB game', async () => {
+      await artModal.selectGame(memoryWitcher);
+      await artModal.setArtworkOpen(true);
+
+      await artModal.selectArtworkGame(sgdbGoty);
+
+      expect(artModal.artwork.grids).toEqual([image(5, 'grid')]);
+      expect(artModal.chosenArtwork.grids).toEqual(image(5, 'grid'));
+    });
+
+    it('should drop artwork that arrives after another game was picked', async () => {
+      await artModal.selectGame(memoryWitcher);
+      await artModal.setArtworkOpen(true);
+      let release: () => void = () => {};
+      vi.spyOn(artProvider, 'getArtwork').mockImplementationOnce(
+        () => new Promise((resolve) => (release = () => resolve({ grids: [image(9, 'grid')], heroes: [], logos: [] })))
+      );
+
+      const slow = artModal.selectArtworkGame(sgdbGoty);
+      await artModal.selectArtworkGame(sgdbWitcher);
+      release();
+      await slow;
+
+      expect(artModal.artworkGame).toEqual(sgdbWitcher);
+      expect(artModal.chosenArtwork.grids).toEqual(image(1, 'grid'));
+    });
+
+    it('should forget the artwork of the previous game', async () => {
+      await artModal.selectGame(memoryWitcher);
+      await artModal.setArtworkOpen(true);
+      await artModal.setArtworkOpen(false);
+
+      await artModal.selectGame({ ...memoryWitcher, id: 2, name: 'Celeste' });
+
+      expect(artModal.artworkGame).toBeNull();
+      expect(artModal.chosenArtwork.grids).toBeNull();
+    });
+
+    it('should report artwork lookups that fail', async () => {
+      vi.spyOn(artProvider, 'findArtworkGames').mockRejectedValueOnce(new Error('SteamGridDB API key not configured'));
+      await artModal.selectGame(memoryWitcher);
+
+      await artModal.setArtworkOpen(true);
+
+      expect(artModal.artworkGame).toBeNull();
+      expect(artModal.artworkEl.createDiv).toHaveBeenCalledWith(
+        expect.objectContaining({ text: expect.stringContaining('Could not load artwork'), attr: { role: 'alert' } })
+      );
+    });
+  });
+
+  describe('manual entry', () => {
+    let memoryProviders: ProviderRegistry;
+
+    beforeEach(() => {
+      // Styles are already injected; skips document.createElement in node
+      vi.spyOn(document, 'getElementById').mockReturnValue({} as HTMLElement);
+
+      memoryProviders = new ProviderRegistry();
+      memoryProviders.register(
+        new InMemoryProvider('memory-times', ['timeToBeat'], {
+          timeToBeat: { [memoryWitcher.name]: memoryWitcherTimes },
+        })
+      );
+      memoryProviders.register(
+        new InMemoryProvider('memory-art', ['artwork'], {
+          covers: { [memoryWitcher.name]: 'https://example.com/grid.png' },
+        })
+      );
+    });
+
+    /**
+     * Opens a modal in manual mode with the given form values.
+     * @param values - Manual entry values
+     * @returns The modal
+     */
+    function openManual(values: Record<string, string>): AddGameModal {
+      const manualModal = new AddGameModal(app, memoryProviders, 'Steam Deck', 'must_play', onSubmitCallback);
+      manualModal.onOpen();
+      (manualModal as any).setManualMode(true);
+      Object.assign((manualModal as any).manualEntry, values);
+      return manualModal;
+    }
+
+    it('should enable submit only once a title is entered', () => {
+      const manualModal = openManual({});
+      expect((manualModal as any).submitButton.disabled).toBe(true);
+
+      (manualModal as any).manualEntry.title = 'Jam Game';
+      (manualModal as any).updateSubmitState();
+
+      expect((manualModal as any).submitButton.disabled).toBe(false);
+    });
+
+    it('should submit the entered values without lookups when complete', async () => {
+      const manualModal = openManual({
+        title: ' Jam Game ',
+        year: '2023',
+        genres: 'Puzzle, , Platformer',
+        hours: '2',
+        rating: '80',
+        coverUrl: 'https://example.com/jam.png',
+      });
+
+      await (manualModal as any).handleSubmit();
+
+      const submitted: GameData = onSubmitCallback.mock.calls[0][0];
+      expect(submitted).toEqual({
+        title: 'Jam Game',
+        platform: 'Steam Deck',
+        priority: 'must_play',
+        rating: 80,
+        hltbHours: 2,
+        hltbExtrasHours: null,
+        hltbCompletionistHours: null,
+        planningMetric: null,
+        efficiency: 40,
+        coverUrl: 'https://example.com/jam.png',
+        heroUrl: null,
+        logoUrl: null,
+        description: null,
+        igdbId: null,
+        genres: ['Puzzle', 'Platformer'],
+        releaseYear: 2023,
+        facets: null,
+        links: [],
+        screenshots: [],
+        videos: [],
+      });
+    });
+
+    it('should look up missing hours and cover by title', async () => {
+      const manualModal = openManual({ title: memoryWitcher.name, rating: '93' });
+
+      await (manualModal as any).handleSubmit();
+
+      const submitted: GameData = onSubmitCallback.mock.calls[0][0];
+      expect(submitted.hltbHours).toBe(51.5);
+      expect(submitted.coverUrl).toBe('https://example.com/grid.png');
+      expect(submitted.efficiency).toBe(1.81);
+    });
+
+    it('should skip lookups when disabled', async () => {
+      const manualModal = openManual({ title: memoryWitcher.name });
+      (manualModal as any).lookupMissing = false;
+
+      await (manualModal as any).handleSubmit();
+
+      const submitted: GameData = onSubmitCallback.mock.calls[0][0];
+      expect(submitted.hltbHours).toBeNull();
+      expect(submitted.coverUrl).toBeNull();
+    });
+
+    it('should reject invalid numbers', async () => {
+      const manualModal = openManual({ title: 'Jam Game', rating: '150' });
+
+      await (manualModal as any).handleSubmit();
+
+      expect(onSubmitCallback).not.toHaveBeenCalled();
+      expect(Notice).toHaveBeenCalledWith('Year, hours and rating must be numbers in a valid range');
+    });
+  });
+
+  describe('pasted URLs', () => {
+    let memoryProviders: ProviderRegistry;
+    let urlModal: AddGameModal;
+
+    beforeEach(() => {
+      // Styles are already injected; skips document.createElement in node
+      vi.spyOn(document, 'getElementById').mockReturnValue({} as HTMLElement);
+
+      const { description: _description, ...witcherSummary } = memoryWitcher;
+      const witcherRemaster = { ...memoryWitcher, id: 9999, name: 'The Witcher 3: Wild Hunt', releaseYear: 2022 };
+      memoryProviders = new ProviderRegistry();
+      memoryProviders.register(
+        new InMemoryProvider('memory', ['search', 'details', 'url'], {
+          games: [memoryWitcher, witcherRemaster],
+          urls: {
+            [urlKey({ source: 'steam', appId: 292030 })]: {
+              game: witcherSummary,
+              title: memoryWitcher.name,
+              releaseYear: 2015,
+              timeToBeat: null,
+              coverUrl: null,
+            },
+          },
+        })
+      );
+      memoryProviders.register(
+        new InMemoryProvider('memory-times', ['timeToBeat', 'url'], {
+          timeToBeat: { [memoryWitcher.name]: memoryWitcherTimes },
+          urls: {
+            [urlKey({ source: 'hltb', gameId: 10270 })]: {
+              game: null,
+              title: memoryWitcher.name,
+              releaseYear: null,
+              timeToBeat: { ...memoryWitcherTimes, mainStoryHours: 40 },
+              coverUrl: null,
+            },
+          },
+        })
+      );
+      memoryProviders.register(
+        new InMemoryProvider('memory-art', ['artwork', 'url'], {
+          covers: { [memoryWitcher.name]: 'https://example.com/grid.png' },
+          urls: {
+            [urlKey({ source: 'sgdb', gameId: 4614 })]: {
+              game: null,
+              title: memoryWitcher.name,
+              releaseYear: 2015,
+              timeToBeat: null,
+              coverUrl: 'https://example.com/pinned.png',
+            },
+          },
+        })
+      );
+
+      urlModal = new AddGameModal(app, memoryProviders, 'Steam Deck', 'must_play', onSubmitCallback);
+      urlModal.onOpen();
+    });
+
+    it('should select the game a Steam URL points to', async () => {
+      await (urlModal as any).performSearch('https://store.steampowered.com/app/292030/');
+
+      expect((urlModal as any).selectedGame.id).toBe(1942);
+      expect((urlModal as any).submitButton.disabled).toBe(false);
+    });
+
+    it('should match the title and year of a SteamGridDB URL and keep its cover', async () => {
+      await (urlModal as any).performSearch('https://www.steamgriddb.com/game/4614');
+      await (urlModal as any).handleSubmit();
+
+      const submitted: GameData = onSubmitCallback.mock.calls[0][0];
+      expect(submitted.igdbId).toBe(1942);
+      expect(submitted.coverUrl).toBe('https://example.com/pinned.png');
+      expect(submitted.hltbHours).toBe(51.5);
+    });
+
+    it('should list results instead of guessing when the title is ambiguous', async () => {
+      await (urlModal as any).performSearch('https://howlongtobeat.com/game/10270');
+
+      expect((urlModal as any).selectedGame).toBeNull();
+      expect((urlModal as any).searchResults).toHaveLength(2);
+      expect(Notice).toHaveBeenCalledWith(
+        'No exact IGDB match for "The Witcher 3: Wild Hunt". Pick the right game from the results.'
+      );
+    });
+
+    it('should drop pinned data when another game is picked', async () => {
+      await (urlModal as any).performSearch('https://www.steamgriddb.com/game/4614');
+      await (urlModal as any).selectGame((urlModal as any).searchResults[0]);
+      await (urlModal as any).handleSubmit();
+
+      expect(onSubmitCallback.mock.calls[0][0].coverUrl).toBe('https://example.com/grid.png');
+    });
+
+    it('should report links no provider recognises', async () => {
+      await (urlModal as any).performSearch('https://www.igdb.com/games/unknown-game');
+
+      expect(Notice).toHaveBeenCalledWith('No game found for this link');
+      expect((urlModal as any).selectedGame).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { HttpError } from '../../src/api/scheduler';
+import type { GameDetails } from '../../src/providers';
+import { ProviderRegistry } from '../../src/providers';
+import type { GameData } from '../../src/ui/AddGameModal';
+import { BulkAddModal, parseTitles } from '../../src/ui/BulkAddModal';
+import { App, Notice } from '../__mocks__/obsidian';
+import { InMemoryProvider, memoryWitcher, memoryWitcherTimes } from '../fixtures/providers';
+
+vi.mock('obsidian', () => import('../__mocks__/obsidian'));
+
+const witcherExpansion: GameDetails = {
+  ...memoryWitcher,
+  id: 22439,
+  name: 'The Witcher 3: Wild Hunt - Blood and Wine',
+  releaseYear: 2016,
+  coverUrl: 'https://example.com/blood-and-wine.jpg',
+  description: 'Toussaint awaits.',
+};
+
+const celeste: GameDetails = {
+  providerId: 'memory',
+  id: 26226,
+  name: 'Celeste',
+  releaseYear: 2018,
+  rating: 90,
+  genres: ['Platform'],
+  thumbnailUrl: null,
+  coverUrl: 'https://example.com/celeste.jpg',
+  description: 'Climb the mountain.',
+};
+
+describe('parseTitles', () => {
+  it('should split lines and drop blanks, bullets and duplicates', () => {
+    expect(parseTitles('Celeste\n\n- Hades\r\n2. Outer Wilds\n  celeste  \n* Tunic')).toEqual([
+      'Celeste',
+      'Hades',
+      'Outer Wilds',
+      'Tunic',
+    ]);
+  });
+
+  it('should return no titles for blank input', () => {
+    expect(parseTitles('  \n\n')).toEqual([]);
+  });
+});
+
+describe('BulkAddModal', () => {
+  let app: App;
+  let providers: ProviderRegistry;
+  let onCreate: ReturnType<typeof vi.fn>;
+  let modal: BulkAddModal;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(document, 'getElementById').mockReturnValue({} as HTMLElement);
+
+    app = new App();
+    providers = new ProviderRegistry();
+    providers.register(
+      new InMemoryProvider('memory', ['search', 'details'], {
+        games: [witcherExpansion, memoryWitcher, celeste],
+      })
+    );
+    providers.register(
+      new InMemoryProvider('memory-times', ['timeToBeat'], {
+        timeToBeat: { [memoryWitcher.name]: memoryWitcherTimes },
+      })
+    );
+    onCreate = vi.fn().mockResolvedValue(undefined);
+
+    modal = new BulkAddModal(app, providers, 'Steam Deck', 'must_play', onCreate);
+    modal.onOpen();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should prefer an exact title match over the first result', async () => {
+    await modal.findGames('The Witcher 3: Wild Hunt');
+
+    const row = (modal as any).rows[0];
+    expect(row.candidates).toHaveLength(2);
+    expect(row.selected.id).toBe(memoryWitcher.id);
+    expect(row.timeToBeat).toEqual(memoryWitcherTimes);
+    expect(row.coverUrl).toBe(memoryWitcher.coverUrl);
+    expect(row.state).toBe('ready');
+  });
+
+  it('should fall back to the first result without an exact match', async () => {
+    await modal.findGames('Witcher');
+
+    const row = (modal as any).rows[0];
+    expect(row.selected.id).toBe(witcherExpansion.id);
+    expect(row.state).toBe('ready');
+  });
+
+  it('should mark titles without results as not found', async () => {
+    await modal.findGames('Celeste\nUnknown Game');
+
+    const rows = (modal as any).rows;
+    expect(rows.map((row: any) => row.state)).toEqual(['ready', 'not_found']);
+  });
+
+  it('should warn when no titles were pasted', async () => {
+    await modal.findGames('\n  \n');
+
+    expect(Notice).toHaveBeenCalledWith('Paste at least one game title');
+    expect((modal as any).rows).toHaveLength(0);
+  });
+
+  it('should report a failed lookup on its row', async () => {
+    const memory = providers.get('memory')!;
+    vi.spyOn(memory, 'search').mockRejectedValueOnce(new HttpError(429, 'Too Many Requests'));
+
+    await modal.findGames('Celeste\nHades');
+
+    const rows = (modal as any).rows;
+    expect(rows[0].state).toBe('failed');
+    expect(rows[0].error).toContain('rate limiting');
+    expect(rows[1].state).toBe('not_found');
+  });
+
+  it('should refresh hours and cover when another candidate is chosen', async () => {
+    await modal.findGames('Witcher');
+
+    await modal.selectCandidate(0, 1);
+
+    const row = (modal as any).rows[0];
+    expect(row.selected.id).toBe(memoryWitcher.id);
+    expect(row.timeToBeat).toEqual(memoryWitcherTimes);
+    expect(row.state).toBe('ready');
+  });
+
+  it('should create notes with each row’s platform and priority', async () => {
+    await modal.findGames('The Witcher 3: Wild Hunt\nCeleste');
+    const rows = (modal as any).rows;
+    rows[1].platform = 'Nintendo Switch';
+    rows[1].priority = 'playing';
+
+    const summary = await modal.addGames();
+
+    expect(summary).toEqual({ added: 2, skipped: 0, failed: 0 });
+    const created: GameData[] = onCreate.mock.calls.map((call) => call[0]);
+    expect(created[0]).toMatchObject({
+      title: memoryWitcher.name,
+      platform: 'Steam Deck',
+      priority: 'must_play',
+      hltbHours: 51.5,
+      efficiency: 1.81,
+      description: memoryWitcher.description,
+      igdbId: memoryWitcher.id,
+    });
+    expect(created[1]).toMatchObject({ title: 'Celeste', platform: 'Nintendo Switch', priority: 'playing', hltbHours: null });
+    expect(rows.map((row: any) => row.state)).toEqual(['added', 'added']);
+    expect(Notice).toHaveBeenCalledWith('Added 2 game(s), skipped 0, 0 failed');
+  });
+
+  it('should rate efficiency by the planning metric', async () => {
+    const extrasModal = new BulkAddModal(app, providers, 'Steam Deck', 'must_play', onCreate, 'en', 'extras');
+    extrasModal.onOpen();
+    await extrasModal.findGames('The Witcher 3: Wild Hunt');
+
+    await extrasModal.addGames();
+
+    expect(onCreate.mock.calls[0][0]).toMatchObject({
+      hltbHours: 51.5,
+      hltbExtrasHours: 103,
+      hltbCompletionistHours: 173,
+      planningMetric: null,
+      efficiency: 0.9,
+    });
+  });
+
+  it('should leave out skipped rows and rows without a match', async () => {
+    await modal.findGames('The Witcher 3: Wild Hunt\nCeleste\nUnknown Game');
+    (modal as any).rows[0].skip = true;
+
+    const summary = await modal.addGames();
+
+    expect(summary).toEqual({ added: 1, skipped: 2, failed: 0 });
+    expect(onCreate).toHaveBeenCalledTimes(1);
+    expect(onCreate.mock.calls[0][0].title).toBe('Celeste');
+  });
+
+  it('should report creation errors per row and retry them on the next run', async () => {
+    onCreate.mockRejectedValueOnce(new Error('A note for "The Witcher 3: Wild Hunt" already exists'));
+    await modal.findGames('The Witcher 3: Wild Hunt\nCeleste');
+
+    const first = await modal.addGames();
+
+    const rows = (modal as any).rows;
+    expect(first).toEqual({ added: 1, skipped: 0, failed: 1 });
+    expect(rows[0].state).toBe('failed');
+    expect(rows[0].error).toBe('A note for "The Witcher 3: Wild Hunt" already exists');
+    expect(rows[1].state).toBe('added');
+
+    const retry = await modal.addGames();
+
+    expect(retry).toEqual({ added: 1, skipped: 0, failed: 0 });
+    expect(onCreate).toHaveBeenCalledTimes(3);
+    expect(rows[0].state).toBe('added');
+  });
+
+  it('should tell the user when there is nothing to add', async () => {
+    await modal.findGames('Unknown Game');
+
+    const summary = await modal.addGames();
+
+    expect(summary.added).toBe(0);
+    expect(onCreate).not.toHaveBeenCalled();
+    expect(Notice).toHaveBeenCalledWith('No games to add');
+  });
+});
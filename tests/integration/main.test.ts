@@ -7,7 +7,8 @@ import GameBacklogPlugin from '../../main.ts';
 import { DEFAULT_SETTINGS } from '../../src/settings';
 import { generateGameNote, generateFileName } from '../../src/templates/gameNote';
 import type { GameData } from '../../src/ui/AddGameModal';
-import { App, Plugin, Notice, requestUrl } from '../__mocks__/obsidian';
+import { UpgradeNotesModal } from '../../src/ui/UpgradeNotesModal';
+import { App, Plugin, Notice, TFile, requestUrl } from '../__mocks__/obsidian';
 
 describe('GameBacklogPlugin', () => {
   let plugin: GameBacklogPlugin;
@@ -65,7 +66,7 @@ describe('GameBacklogPlugin', () => {
       expect(plugin.settings.twitchClientId).toBe('saved-id');
       expect(plugin.settings.defaultPlatform).toBe('Full PC');
         expect(plugin.settings.twitchClientSecret).toBe(''); // Default
-        expect(plugin.settings.defaultPriority).toBe('Plus tard'); // Default
+        expect(plugin.settings.defaultPriority).toBe('will_get_around_to'); // Default
     });
 
     it('should handle null saved data', async () => {
@@ -75,6 +76,14 @@ describe('GameBacklogPlugin', () => {
 
       expect(plugin.settings).toEqual(DEFAULT_SETTINGS);
     });
+
+    it('should convert a legacy localized default priority', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({ defaultPriority: 'À jouer absolument' });
+
+      await plugin.loadSettings();
+
+      expect(plugin.settings.defaultPriority).toBe('must_play');
+    });
   });
 
   describe('saveSettings', () => {
@@ -104,7 +113,7 @@ describe('GameBacklogPlugin', () => {
 
       await plugin.onload();
 
-      expect(addCommandSpy).toHaveBeenCalledTimes(3);
+      expect(addCommandSpy).toHaveBeenCalledTimes(9);
     });
 
     it('should add settings tab', async () => {
@@ -170,6 +179,47 @@ describe('GameBacklogPlugin', () => {
       expect(dashboard).toContain('completed');
     });
 
+    it('should total the backlog by the planning time of each game', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({ planningMetric: 'completionist' });
+      await plugin.onload();
+
+      const generateDashboard = (plugin as any).generateBacklogDashboard.bind(plugin);
+      const dashboard = generateDashboard();
+
+      expect(dashboard).toContain('"extras":"hltb_extras_hours"');
+      expect(dashboard).toContain('planning_metric: completionist\n---');
+      expect(dashboard).toContain('dv.current().planning_metric ?? "completionist"');
+      expect(dashboard).not.toContain('app.plugins');
+      expect(dashboard).toContain('p.planning_metric');
+      expect(dashboard).toContain('sum + planningHours(p)');
+    });
+
+    it('should write a changed planning time into the dashboard', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({ planningMetric: 'extras' });
+      await plugin.onload();
+      const dashboard = new TFile();
+      dashboard.path = 'Video Game Backlog.md';
+      app.vault.getAbstractFileByPath = vi.fn((path: string) => (path === dashboard.path ? dashboard : null));
+      const frontmatter: Record<string, unknown> = { planning_metric: 'main' };
+      app.fileManager.processFrontMatter = vi.fn(async (_file, fn) => fn(frontmatter));
+
+      await plugin.updateDashboardPlanningMetric();
+
+      expect(app.fileManager.processFrontMatter).toHaveBeenCalledWith(dashboard, expect.any(Function));
+      expect(frontmatter.planning_metric).toBe('extras');
+    });
+
+    it('should leave the note template out of the queries', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({ noteTemplate: 'Templates/Game' });
+      await plugin.onload();
+
+      const dashboard: string = (plugin as any).generateBacklogDashboard();
+
+      expect(dashboard).toContain(`dv.pages("#game AND -\\"Templates/Game.md\\"")`);
+      expect(dashboard).toContain('FROM #game AND -"Templates/Game.md"\nWHERE');
+      expect(dashboard).not.toMatch(/FROM #game\n/);
+    });
+
     it('should include frontmatter with dashboard tag', async () => {
       plugin.loadData = vi.fn().mockResolvedValue({});
       await plugin.onload();
@@ -189,7 +239,7 @@ describe('GameBacklogPlugin', () => {
       const gameData: GameData = {
         title: 'Test Game',
         platform: 'Steam Deck',
-          priority: 'À jouer absolument',
+          priority: 'must_play',
         rating: 85,
         hltbHours: 20,
         efficiency: 4.25,
@@ -206,7 +256,7 @@ describe('GameBacklogPlugin', () => {
       expect(fileName).toBe('🎮 Test Game.md');
       expect(noteContent).toContain('title: "Test Game"');
       expect(noteContent).toContain('platform: "Steam Deck"');
-      expect(noteContent).toContain('priority: "À jouer absolument"');
+      expect(noteContent).toContain('priority: "must_play"');
       expect(noteContent).toContain('rating: 85');
       expect(noteContent).toContain('hltb_hours: 20');
       expect(noteContent).toContain('efficiency: 4.25');
@@ -250,6 +300,36 @@ describe('GameBacklogPlugin', () => {
       expect(addGameCmd.name).toBe('Add game to backlog');
     });
 
+    it('should register bulk-add-games command', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({});
+      const commands: any[] = [];
+      plugin.addCommand = vi.fn((cmd) => {
+        commands.push(cmd);
+        return cmd;
+      });
+
+      await plugin.onload();
+
+      const bulkAddCmd = commands.find((c) => c.id === 'bulk-add-games');
+      expect(bulkAddCmd).toBeDefined();
+      expect(bulkAddCmd.name).toBe('Bulk add games');
+    });
+
+    it('should register localize-game-artwork command', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({});
+      const commands: any[] = [];
+      plugin.addCommand = vi.fn((cmd) => {
+        commands.push(cmd);
+        return cmd;
+      });
+
+      await plugin.onload();
+
+      const localizeCmd = commands.find((c) => c.id === 'localize-game-artwork');
+      expect(localizeCmd).toBeDefined();
+      expect(localizeCmd.name).toBe('Download artwork of existing game notes');
+    });
+
     it('should register open-game-backlog command', async () => {
       plugin.loadData = vi.fn().mockResolvedValue({});
       const commands: any[] = [];
@@ -280,6 +360,24 @@ describe('GameBacklogPlugin', () => {
       expect(updateStatusCmd.name).toBe('Update current game status');
       expect(updateStatusCmd.checkCallback).toBeDefined();
     });
+
+    it('should register migrate-game-priorities command', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({});
+      const commands: any[] = [];
+      plugin.addCommand = vi.fn((cmd) => {
+        commands.push(cmd);
+        return cmd;
+      });
+
+      await plugin.onload();
+
+      const migrateCmd = commands.find((c) => c.id === 'migrate-game-priorities');
+      expect(migrateCmd).toBeDefined();
+
+      await migrateCmd.callback();
+
+      expect(Notice).toHaveBeenCalledWith('Converted the priority of 0 game note(s)');
+    });
   });
 
   describe('add game command', () => {
@@ -328,6 +426,7 @@ describe('GameBacklogPlugin', () => {
         return cmd;
       });
       app.workspace.getActiveFile = vi.fn().mockReturnValue({ path: 'test.md' });
+      app.vault.getMarkdownFiles = vi.fn().mockReturnValue([{ path: 'test.md' }]);
       app.metadataCache.getFileCache = vi.fn().mockReturnValue({
         frontmatter: { tags: ['other'] },
       });
@@ -348,6 +447,7 @@ describe('GameBacklogPlugin', () => {
         return cmd;
       });
       app.workspace.getActiveFile = vi.fn().mockReturnValue({ path: 'test.md' });
+      app.vault.getMarkdownFiles = vi.fn().mockReturnValue([{ path: 'test.md' }]);
       app.metadataCache.getFileCache = vi.fn().mockReturnValue({
         frontmatter: { tags: ['game', 'backlog'] },
       });
@@ -361,6 +461,70 @@ describe('GameBacklogPlugin', () => {
     });
   });
 
+  describe('upgrade game notes command', () => {
+    it('should report when all notes are up to date', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({});
+      const commands: any[] = [];
+      plugin.addCommand = vi.fn((cmd) => {
+        commands.push(cmd);
+        return cmd;
+      });
+
+      await plugin.onload();
+      commands.find((c) => c.id === 'upgrade-game-notes').callback();
+
+      expect(Notice).toHaveBeenCalledWith('All game notes are up to date');
+    });
+
+    it('should leave the note template alone', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({ noteTemplate: 'Templates/Game' });
+      const commands: any[] = [];
+      plugin.addCommand = vi.fn((cmd) => {
+        commands.push(cmd);
+        return cmd;
+      });
+      const frontmatter = { title: '{{title|yaml}}', tags: ['game', 'backlog'] };
+      app.vault.getMarkdownFiles = vi.fn().mockReturnValue([{ path: 'Templates/Game.md' }]);
+      app.metadataCache.getFileCache = vi.fn().mockReturnValue({ frontmatter });
+
+      await plugin.onload();
+      commands.find((c) => c.id === 'upgrade-game-notes').callback();
+
+      expect(plugin.library.all()).toEqual([]);
+      expect(Notice).toHaveBeenCalledWith('All game notes are up to date');
+    });
+
+    it('should preview outdated notes and upgrade them once confirmed', async () => {
+      plugin.loadData = vi.fn().mockResolvedValue({});
+      const commands: any[] = [];
+      plugin.addCommand = vi.fn((cmd) => {
+        commands.push(cmd);
+        return cmd;
+      });
+      const frontmatter: Record<string, unknown> = { tags: ['game'], priority_localized: 'Plus tard' };
+      app.vault.getMarkdownFiles = vi.fn().mockReturnValue([{ path: 'old.md' }]);
+      app.metadataCache.getFileCache = vi.fn().mockReturnValue({ frontmatter });
+      app.fileManager.processFrontMatter = vi.fn(async (_file, fn) => fn(frontmatter));
+      let preview: any = null;
+      const openSpy = vi.spyOn(UpgradeNotesModal.prototype, 'open').mockImplementation(function (this: any) {
+        preview = this;
+      });
+
+      await plugin.onload();
+      commands.find((c) => c.id === 'upgrade-game-notes').callback();
+
+      expect(openSpy).toHaveBeenCalled();
+      expect(preview.upgrades).toHaveLength(1);
+      expect(app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+
+      await preview.onConfirm();
+
+      expect(frontmatter).not.toHaveProperty('priority_localized');
+      expect(Notice).toHaveBeenCalledWith('Upgraded 1 game note(s)');
+      openSpy.mockRestore();
+    });
+  });
+
   describe('client initialization', () => {
     it('should reinitialize clients on settings save', async () => {
       plugin.loadData = vi.fn().mockResolvedValue({});
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { AdapterCacheStorage, ResponseCache, type CacheStorage } from '../../../src/api/cache';
+import { HltbClient } from '../../../src/api/hltb';
+import { IgdbClient, TwitchAuthError } from '../../../src/api/igdb';
+import { HttpError } from '../../../src/api/scheduler';
+import { requestUrl, DataAdapter } from '../../__mocks__/obsidian';
+import { mockHltbSearchResponse } from '../../fixtures/hltb-responses';
+import { mockTwitchTokenResponse, mockIgdbSearchResults } from '../../fixtures/igdb-responses';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function memoryStorage(initial: string | null = null): CacheStorage & { data: string | null } {
+  const storage = {
+    data: initial,
+    read: vi.fn(async () => storage.data),
+    write: vi.fn(async (data: string) => {
+      storage.data = data;
+    }),
+  };
+  return storage;
+}
+
+describe('ResponseCache', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    now = 1_700_000_000_000;
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('getOrFetch', () => {
+    it('should fetch on miss and serve the cached value on hit', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      const fetcher = vi.fn().mockResolvedValue(['result']);
+
+      expect(await cache.getOrFetch('igdb:search', 'zelda', fetcher)).toEqual(['result']);
+      expect(await cache.getOrFetch('igdb:search', 'zelda', fetcher)).toEqual(['result']);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 1, entries: 1 });
+    });
+
+    it('should keep namespaces apart', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      await cache.getOrFetch('igdb:search', 'key', async () => 'search');
+
+      expect(await cache.getOrFetch('igdb:game', 'key', async () => 'game')).toBe('game');
+    });
+
+    it('should refetch once the namespace TTL has passed', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      const fetcher = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+      await cache.getOrFetch('igdb:search', 'zelda', fetcher);
+      now += DAY + 1;
+
+      expect(await cache.getOrFetch('igdb:search', 'zelda', fetcher)).toBe('new');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should apply a longer TTL to game details than to searches', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      const fetcher = vi.fn().mockResolvedValue('value');
+
+      await cache.getOrFetch('igdb:game', '1942', fetcher);
+      now += 3 * DAY;
+      await cache.getOrFetch('igdb:game', '1942', fetcher);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honour TTL overrides', async () => {
+      const cache = new ResponseCache(null, { now: clock, ttls: { 'igdb:game': HOUR } });
+      const fetcher = vi.fn().mockResolvedValue('value');
+
+      await cache.getOrFetch('igdb:game', '1942', fetcher);
+      now += 2 * HOUR;
+      await cache.getOrFetch('igdb:game', '1942', fetcher);
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve a stale entry when the fetch fails', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      await cache.getOrFetch('hltb:search', 'witcher', async () => 'cached');
+      now += 30 * DAY;
+
+      const value = await cache.getOrFetch('hltb:search', 'witcher', async () => {
+        throw new Error('offline');
+      });
+
+      expect(value).toBe('cached');
+    });
+
+    it('should serve a stale entry when the server fails or rate limits', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      await cache.getOrFetch('igdb:game', '1942', async () => 'cached');
+      now += 30 * DAY;
+
+      for (const status of [429, 503]) {
+        const value = await cache.getOrFetch('igdb:game', '1942', async () => {
+          throw new HttpError(status, 'failed');
+        });
+        expect(value).toBe('cached');
+      }
+    });
+
+    it('should rethrow auth and client errors instead of serving a stale entry', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      await cache.getOrFetch('igdb:search', 'witcher', async () => 'cached');
+      now += 30 * DAY;
+
+      await expect(
+        cache.getOrFetch('igdb:search', 'witcher', async () => {
+          throw new TwitchAuthError('IGDB rejected the credentials with status 401');
+        })
+      ).rejects.toBeInstanceOf(TwitchAuthError);
+      await expect(
+        cache.getOrFetch('igdb:search', 'witcher', async () => {
+          throw new HttpError(400, 'bad request');
+        })
+      ).rejects.toThrow('bad request');
+    });
+
+    it('should rethrow fetch errors without a cached entry', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+
+      await expect(
+        cache.getOrFetch('hltb:search', 'witcher', async () => {
+          throw new Error('offline');
+        })
+      ).rejects.toThrow('offline');
+      expect(cache.getStats().entries).toBe(0);
+    });
+
+    it('should evict least recently used entries beyond the cap', async () => {
+      const cache = new ResponseCache(null, { now: clock, maxEntries: 2 });
+      await cache.getOrFetch('igdb:game', 'a', async () => 'a');
+      now += 1;
+      await cache.getOrFetch('igdb:game', 'b', async () => 'b');
+      now += 1;
+      await cache.getOrFetch('igdb:game', 'a', async () => 'a'); // touch a
+      now += 1;
+      await cache.getOrFetch('igdb:game', 'c', async () => 'c');
+
+      const fetcher = vi.fn().mockResolvedValue('b2');
+      expect(await cache.getOrFetch('igdb:game', 'b', fetcher)).toBe('b2');
+      expect(fetcher).toHaveBeenCalled();
+      expect(cache.getStats().entries).toBe(2);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should round-trip entries and stats through storage', async () => {
+      const storage = memoryStorage();
+      const cache = new ResponseCache(storage, { now: clock });
+      await cache.getOrFetch('igdb:search', 'zelda', async () => ['botw']);
+      await cache.flush();
+
+      const reloaded = new ResponseCache(storage, { now: clock });
+      await reloaded.load();
+      const fetcher = vi.fn();
+
+      expect(await reloaded.getOrFetch('igdb:search', 'zelda', fetcher)).toEqual(['botw']);
+      expect(fetcher).not.toHaveBeenCalled();
+      expect(reloaded.getStats()).toEqual({ hits: 1, misses: 1, entries: 1 });
+    });
+
+    it('should start empty when the stored cache is corrupt', async () => {
+      const cache = new ResponseCache(memoryStorage('{not json'), { now: clock });
+      await cache.load();
+
+      expect(cache.getStats().entries).toBe(0);
+    });
+
+    it('should clear entries, reset stats and persist', async () => {
+      const storage = memoryStorage();
+      const cache = new ResponseCache(storage, { now: clock });
+      await cache.getOrFetch('igdb:search', 'zelda', async () => ['botw']);
+
+      await cache.clear();
+
+      expect(cache.getStats()).toEqual({ hits: 0, misses: 0, entries: 0 });
+      expect(JSON.parse(storage.data!).entries).toEqual({});
+    });
+  });
+
+  describe('AdapterCacheStorage', () => {
+    it('should return null when the cache file does not exist', async () => {
+      const adapter = new DataAdapter();
+      adapter.exists.mockResolvedValue(false);
+
+      const storage = new AdapterCacheStorage(adapter as any, '.obsidian/plugins/game-backlog/cache.json');
+
+      expect(await storage.read()).toBeNull();
+      expect(adapter.read).not.toHaveBeenCalled();
+    });
+
+    it('should read and write the cache file', async () => {
+      const adapter = new DataAdapter();
+      adapter.exists.mockResolvedValue(true);
+      adapter.read.mockResolvedValue('{}');
+      adapter.write.mockResolvedValue(undefined);
+      const storage = new AdapterCacheStorage(adapter as any, 'cache.json');
+
+      expect(await storage.read()).toBe('{}');
+      await storage.write('{"entries":{}}');
+      expect(adapter.write).toHaveBeenCalledWith('cache.json', '{"entries":{}}');
+    });
+  });
+
+  describe('client integration', () => {
+    it('should answer repeated IGDB searches from the cache', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      const client = new IgdbClient('id', 'secret', cache);
+      requestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: mockIgdbSearchResults } as any);
+
+      await client.searchGames('The Witcher 3');
+      const results = await client.searchGames('The Witcher 3');
+
+      expect(requestUrl).toHaveBeenCalledTimes(2);
+      expect(results).toHaveLength(2);
+    });
+
+    it('should answer HLTB searches from the cache without initializing', async () => {
+      const cache = new ResponseCache(null, { now: clock });
+      await cache.getOrFetch('hltb:search', 'the witcher 3', async () => mockHltbSearchResponse);
+      const client = new HltbClient(cache);
+
+      const result = await client.searchGame('The Witcher 3');
+
+      expect(requestUrl).not.toHaveBeenCalled();
+      expect(result?.mainStoryHours).toBe(50);
+    });
+  });
+});
@@ -1,11 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import { HltbClient } from '../../../src/api/hltb';
+import { titleSimilarity } from '../../../src/providers/lookup';
 import { requestUrl } from '../../__mocks__/obsidian';
 import {
   mockHltbInitResponse,
   mockHltbHomepageHtml,
   mockHltbAppScript,
+  mockHltbGamePageHtml,
   mockHltbSearchResponse,
   mockHltbSearchResponseNoResults,
   mockHltbSearchResponseSingleResult,
@@ -284,6 +286,82 @@ describe('HltbClient', () => {
     });
   });
 
+  describe('searchCandidates', () => {
+    beforeEach(() => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockHltbInitResponse } as any)
+        .mockResolvedValueOnce({ text: mockHltbHomepageHtml } as any)
+        .mockResolvedValueOnce({ text: mockHltbAppScript } as any);
+    });
+
+    it('should rank results by title similarity with a confidence score', async () => {
+      mockRequestUrl.mockResolvedValueOnce({ json: mockHltbSearchResponse } as any);
+
+      const candidates = await client.searchCandidates('The Witcher 3: Wild Hunt');
+
+      expect(candidates.map((c) => c.id)).toEqual([10270, 10271, 10272]);
+      expect(candidates[0].confidence).toBe(1);
+      expect(candidates[0].mainPlusExtrasHours).toBe(100);
+      expect(candidates[1].confidence).toBeLessThan(1);
+      expect(candidates[2].confidence).toBeLessThan(candidates[1].confidence);
+    });
+
+    it('should score titles like the lookup does', async () => {
+      mockRequestUrl.mockResolvedValueOnce({ json: mockHltbSearchResponse } as any);
+
+      const candidates = await client.searchCandidates('The Witcher 3: Wild Hunt');
+
+      // An expansion's title starting with the searched one scores as a prefix match
+      expect(candidates[1].name).toBe('The Witcher 3 Wild Hunt - Hearts of Stone');
+      expect(candidates[1].confidence).toBe(0.9);
+      expect(candidates[1].confidence).toBe(titleSimilarity(candidates[1].name, 'The Witcher 3: Wild Hunt'));
+    });
+
+    it('should limit the number of candidates', async () => {
+      mockRequestUrl.mockResolvedValueOnce({ json: mockHltbSearchResponse } as any);
+
+      const candidates = await client.searchCandidates('Witcher', 2);
+
+      expect(candidates).toHaveLength(2);
+    });
+
+    it('should return no candidates when the search fails', async () => {
+      mockRequestUrl.mockRejectedValueOnce(new Error('Search failed'));
+
+      expect(await client.searchCandidates('Test Game')).toEqual([]);
+    });
+  });
+
+  describe('getGameById', () => {
+    it('should read completion times from the game page', async () => {
+      mockRequestUrl.mockResolvedValueOnce({ text: mockHltbGamePageHtml } as any);
+
+      const result = await client.getGameById(10270);
+
+      expect(mockRequestUrl.mock.calls[0][0].url).toBe('https://howlongtobeat.com/game/10270');
+      expect(result).toEqual({
+        id: 10270,
+        name: 'The Witcher 3: Wild Hunt',
+        imageUrl: 'https://howlongtobeat.com/games/witcher3.jpg',
+        mainStoryHours: 51.5,
+        mainPlusExtrasHours: 103,
+        completionistHours: 173,
+      });
+    });
+
+    it('should return null when the page has no game data', async () => {
+      mockRequestUrl.mockResolvedValueOnce({ text: '<html><body>Not found</body></html>' } as any);
+
+      expect(await client.getGameById(1)).toBeNull();
+    });
+
+    it('should return null on network error', async () => {
+      mockRequestUrl.mockRejectedValueOnce(new Error('Network error'));
+
+      expect(await client.getGameById(10270)).toBeNull();
+    });
+  });
+
   describe('discoverSearchUrl', () => {
     it('should fall back to /api/search when script not found', async () => {
       const htmlWithoutScript = '<html><head></head><body></body></html>';
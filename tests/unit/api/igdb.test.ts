@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
-import { IgdbClient } from '../../../src/api/igdb';
+import { IgdbClient, TwitchAuthError } from '../../../src/api/igdb';
 import { requestUrl } from '../../__mocks__/obsidian';
 import {
   mockTwitchTokenResponse,
@@ -73,6 +73,24 @@ describe('IgdbClient', () => {
       expect(results[0].name).toBe('The Witcher 3: Wild Hunt');
     });
 
+    it('should add conditions as where clauses', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [] } as any);
+
+      await client.searchGames('Final Fantasy VII', 10, [
+        { field: 'category', operator: '=', value: [8, 9] },
+        [
+          { field: 'first_release_date', operator: '>', value: 100 },
+          { field: 'first_release_date', operator: '=', value: null },
+        ],
+      ]);
+
+      expect(mockRequestUrl.mock.calls[1][0].body).toContain(
+        'where category = (8,9) & (first_release_date > 100 | first_release_date = null);'
+      );
+    });
+
     it('should use default limit of 10', async () => {
       mockRequestUrl
         .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
@@ -106,6 +124,17 @@ describe('IgdbClient', () => {
       expect(searchCall[0].body).toContain('search "Dark Souls"');
     });
 
+    it('should escape quotes and backslashes in the search query', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [] } as any);
+
+      await client.searchGames('Say "Hi" \\o/');
+
+      const searchCall = mockRequestUrl.mock.calls[1];
+      expect(searchCall[0].body).toContain('search "Say \\"Hi\\" \\\\o/";');
+    });
+
     it('should return empty array when no results', async () => {
       mockRequestUrl
         .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
@@ -140,6 +169,26 @@ describe('IgdbClient', () => {
       );
     });
 
+    it('should raise a TwitchAuthError when Twitch rejects the credentials', async () => {
+      mockRequestUrl.mockResolvedValueOnce({ status: 403, json: { message: 'invalid client secret' } } as any);
+
+      await expect(client.searchGames('Test')).rejects.toBeInstanceOf(TwitchAuthError);
+    });
+
+    it('should raise a TwitchAuthError and drop the token when IGDB answers 401', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ status: 401, json: {} } as any)
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [] } as any);
+
+      await expect(client.searchGames('Test')).rejects.toBeInstanceOf(TwitchAuthError);
+      await client.searchGames('Test');
+
+      // A new token was requested for the second search
+      expect(mockRequestUrl.mock.calls[2][0].url).toContain('id.twitch.tv');
+    });
+
     it('should cache access token for subsequent requests', async () => {
       mockRequestUrl
         .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
@@ -227,6 +276,50 @@ describe('IgdbClient', () => {
       expect(call.body).toContain('websites.url');
       expect(call.body).toContain('websites.category');
     });
+
+    it('should request companies, franchises, modes and tags', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [mockIgdbGameById] } as any);
+
+      await client.getGameById(1942);
+
+      const call = mockRequestUrl.mock.calls[1][0];
+      expect(call.body).toContain('involved_companies.company.name');
+      expect(call.body).toContain('involved_companies.developer');
+      expect(call.body).toContain('franchises.name');
+      expect(call.body).toContain('collections.name');
+      expect(call.body).toContain('game_modes.name');
+      expect(call.body).toContain('player_perspectives.name');
+      expect(call.body).toContain('game_engines.name');
+      expect(call.body).toContain('keywords.name');
+    });
+
+    it('should request the store entries of the game', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [mockIgdbGameById] } as any);
+
+      await client.getGameById(1942);
+
+      const call = mockRequestUrl.mock.calls[1][0];
+      expect(call.body).toContain('external_games.category');
+      expect(call.body).toContain('external_games.uid');
+      expect(call.body).toContain('external_games.url');
+    });
+
+    it('should request screenshots, artworks and videos', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [mockIgdbGameById] } as any);
+
+      await client.getGameById(1942);
+
+      const call = mockRequestUrl.mock.calls[1][0];
+      expect(call.body).toContain('screenshots.image_id');
+      expect(call.body).toContain('artworks.image_id');
+      expect(call.body).toContain('videos.video_id');
+    });
   });
 
   describe('getGameBySlug', () => {
@@ -261,6 +354,46 @@ describe('IgdbClient', () => {
       const call = mockRequestUrl.mock.calls[1][0];
       expect(call.body).toContain('where slug = "test-slug"');
     });
+
+    it('should escape quotes in the slug', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [] } as any);
+
+      await client.getGameBySlug('bad"; limit 500');
+
+      const call = mockRequestUrl.mock.calls[1][0];
+      expect(call.body).toContain('where slug = "bad\\"; limit 500";');
+    });
+  });
+
+  describe('getGameBySteamAppId', () => {
+    it('should look the app up through external games', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [{ id: 15, game: 1942 }] } as any)
+        .mockResolvedValueOnce({ json: [mockIgdbGameById] } as any);
+
+      const game = await client.getGameBySteamAppId(292030);
+
+      expect(game?.id).toBe(1942);
+      const lookup = mockRequestUrl.mock.calls[1][0];
+      expect(lookup.url).toBe('https://api.igdb.com/v4/external_games');
+      expect(lookup.body).toContain('fields game;');
+      expect(lookup.body).toContain('where category = 1 & uid = "292030";');
+      const details = mockRequestUrl.mock.calls[2][0];
+      expect(details.url).toBe('https://api.igdb.com/v4/games');
+      expect(details.body).toContain('where id = 1942;');
+    });
+
+    it('should return null when IGDB does not link the app', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ json: [] } as any);
+
+      expect(await client.getGameBySteamAppId(1)).toBeNull();
+      expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('token expiry handling', () => {
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+
+import { escapeIgdbString, IgdbQuery } from '../../../src/api/igdbQuery';
+
+/**
+ * Extracts the search literal from a query body and unescapes it,
+ * failing if the literal is not properly terminated.
+ */
+function parseSearchLiteral(body: string): string {
+  const match = body.match(/^search "((?:[^"\\]|\\.)*)";$/m);
+  if (!match) throw new Error(`Malformed search clause in:\n${body}`);
+  return match[1].replace(/\\(.)/g, '$1');
+}
+
+describe('IgdbQuery', () => {
+  describe('build', () => {
+    it('should build a full query', () => {
+      const body = new IgdbQuery()
+        .search('zelda')
+        .fields('id', 'name', 'cover.image_id')
+        .where('category', '=', 0)
+        .sort('total_rating', 'desc')
+        .limit(10)
+        .offset(20)
+        .build();
+
+      expect(body).toBe(
+        [
+          'search "zelda";',
+          'fields id, name, cover.image_id;',
+          'where category = 0;',
+          'sort total_rating desc;',
+          'limit 10;',
+          'offset 20;',
+        ].join('\n')
+      );
+    });
+
+    it('should default to all fields', () => {
+      expect(new IgdbQuery().build()).toBe('fields *;');
+    });
+
+    it('should combine conditions with AND', () => {
+      const body = new IgdbQuery().where('id', '=', 1).where('slug', '!=', 'x').build();
+      expect(body).toContain('where id = 1 & slug != "x";');
+    });
+
+    it('should format arrays as sets', () => {
+      const body = new IgdbQuery().where('platforms', '=', [6, 48]).build();
+      expect(body).toContain('where platforms = (6,48);');
+    });
+
+    it('should group alternatives with OR', () => {
+      const body = new IgdbQuery()
+        .where('category', '=', 0)
+        .whereAny([
+          { field: 'first_release_date', operator: '>', value: 1000 },
+          { field: 'first_release_date', operator: '=', value: null },
+        ])
+        .build();
+      expect(body).toContain(
+        'where category = 0 & (first_release_date > 1000 | first_release_date = null);'
+      );
+    });
+
+    it('should ignore an empty OR group', () => {
+      expect(new IgdbQuery().whereAny([]).build()).not.toContain('where');
+    });
+
+    it('should format booleans', () => {
+      expect(new IgdbQuery().where('cover.animated', '=', false).build()).toContain(
+        'cover.animated = false'
+      );
+    });
+
+    it('should clamp limit and offset', () => {
+      const body = new IgdbQuery().limit(9999).offset(-5).build();
+      expect(body).toContain('limit 500;');
+      expect(body).toContain('offset 0;');
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(() => new IgdbQuery().where('id', '=', NaN)).toThrow('Invalid IGDB number');
+      expect(() => new IgdbQuery().limit(Infinity)).toThrow('Invalid IGDB count');
+    });
+  });
+
+  describe('field validation', () => {
+    it('should accept dotted and wildcard fields', () => {
+      expect(() => new IgdbQuery().fields('*', 'cover.*', 'involved_companies.company.name')).not.toThrow();
+    });
+
+    it.each(['name; where id = 1', 'name,slug', 'Name', '', 'cover..url', 'id desc'])(
+      'should reject field %j',
+      (field) => {
+        expect(() => new IgdbQuery().fields(field)).toThrow('Invalid IGDB field name');
+        expect(() => new IgdbQuery().sort(field)).toThrow('Invalid IGDB field name');
+        expect(() => new IgdbQuery().where(field, '=', 1)).toThrow('Invalid IGDB field name');
+      }
+    );
+  });
+
+  describe('hostile titles', () => {
+    const titles = [
+      'Say "Hello"',
+      'Back\\slash',
+      'Trailing backslash\\',
+      '\\"',
+      '"; fields *; where id = 1; limit 500; "',
+      'Line\nbreak',
+      'Tab\tand\r\ncarriage',
+      'Null\u0000byte',
+      '""""',
+      '\\\\\\',
+      'Pokémon™: Ünïcödé 🎮',
+      'search "nested"; sort id desc;',
+    ];
+
+    it.each(titles)('should keep %j inside a single search literal', (title) => {
+      const body = new IgdbQuery().search(title).fields('id').limit(5).build();
+
+      const lines = body.split('\n');
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toBe('fields id;');
+      expect(lines[2]).toBe('limit 5;');
+
+      const expected = title.replace(/[\u0000-\u001f\u007f]+/g, ' ');
+      expect(parseSearchLiteral(body)).toBe(expected);
+    });
+
+    it.each(titles)('should keep %j inside a single where literal', (title) => {
+      const body = new IgdbQuery().fields('id').where('slug', '=', title).build();
+
+      expect(body.split('\n')).toHaveLength(2);
+      expect(body.startsWith('fields id;\nwhere slug = "')).toBe(true);
+      expect(body.endsWith('";')).toBe(true);
+    });
+  });
+
+  describe('escapeIgdbString', () => {
+    it('should escape quotes and backslashes', () => {
+      expect(escapeIgdbString('a"b\\c')).toBe('a\\"b\\\\c');
+    });
+
+    it('should replace control characters with spaces', () => {
+      expect(escapeIgdbString('a\n\r\tb')).toBe('a b');
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { IgdbClient } from '../../../src/api/igdb';
+import { HttpError, parseRetryAfter, RequestScheduler } from '../../../src/api/scheduler';
+import { requestUrl } from '../../__mocks__/obsidian';
+import { mockTwitchTokenResponse, mockIgdbSearchResults } from '../../fixtures/igdb-responses';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+describe('RequestScheduler', () => {
+  let now: number;
+  let sleeps: number[];
+  const clock = () => now;
+  const sleep = async (ms: number) => {
+    sleeps.push(ms);
+    now += ms;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    now = 0;
+    sleeps = [];
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function createScheduler(options = {}) {
+    return new RequestScheduler({ now: clock, sleep, random: () => 0.5, ...options });
+  }
+
+  describe('token bucket', () => {
+    it('should let a burst through without waiting', async () => {
+      const scheduler = createScheduler({ requestsPerSecond: 4 });
+
+      for (let i = 0; i < 4; i++) {
+        await scheduler.run(async () => i);
+      }
+
+      expect(sleeps).toEqual([]);
+    });
+
+    it('should throttle requests beyond the rate', async () => {
+      const scheduler = createScheduler({ requestsPerSecond: 4 });
+
+      for (let i = 0; i < 6; i++) {
+        await scheduler.run(async () => i);
+      }
+
+      expect(sleeps).toEqual([250, 250]);
+      expect(now).toBe(500);
+    });
+
+    it('should refill tokens over time', async () => {
+      const scheduler = createScheduler({ requestsPerSecond: 4 });
+      for (let i = 0; i < 4; i++) {
+        await scheduler.run(async () => i);
+      }
+
+      now += 1000;
+      await scheduler.run(async () => 'refilled');
+
+      expect(sleeps).toEqual([]);
+    });
+  });
+
+  describe('concurrency', () => {
+    it('should limit requests in flight', async () => {
+      const scheduler = createScheduler({ requestsPerSecond: 100, maxConcurrent: 2 });
+      let inFlight = 0;
+      let peak = 0;
+      const releases: Array<() => void> = [];
+      const task = () =>
+        new Promise<void>((resolve) => {
+          inFlight++;
+          peak = Math.max(peak, inFlight);
+          releases.push(() => {
+            inFlight--;
+            resolve();
+          });
+        });
+
+      const runs = [scheduler.run(task), scheduler.run(task), scheduler.run(task)];
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(releases).toHaveLength(2);
+
+      releases[0]();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(releases).toHaveLength(3);
+      releases[1]();
+      releases[2]();
+      await Promise.all(runs);
+
+      expect(peak).toBe(2);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry 429 responses with backoff', async () => {
+      const scheduler = createScheduler({ baseDelayMs: 100 });
+      const task = vi
+        .fn()
+        .mockRejectedValueOnce(new HttpError(429, 'Too Many Requests'))
+        .mockRejectedValueOnce(new HttpError(429, 'Too Many Requests'))
+        .mockResolvedValueOnce('ok');
+
+      expect(await scheduler.run(task)).toBe('ok');
+      expect(task).toHaveBeenCalledTimes(3);
+      // random() = 0.5 gives three quarters of the exponential ceiling
+      expect(sleeps).toEqual([75, 150]);
+    });
+
+    it('should retry 5xx responses', async () => {
+      const scheduler = createScheduler();
+      const task = vi
+        .fn()
+        .mockRejectedValueOnce(new HttpError(503, 'Service Unavailable'))
+        .mockResolvedValueOnce('ok');
+
+      expect(await scheduler.run(task)).toBe('ok');
+    });
+
+    it('should honour Retry-After', async () => {
+      const scheduler = createScheduler();
+      const task = vi
+        .fn()
+        .mockRejectedValueOnce(new HttpError(429, 'Too Many Requests', 2000))
+        .mockResolvedValueOnce('ok');
+
+      await scheduler.run(task);
+
+      expect(sleeps).toEqual([2000]);
+    });
+
+    it('should cap delays at maxDelayMs', async () => {
+      const scheduler = createScheduler({ maxDelayMs: 1000 });
+      const task = vi
+        .fn()
+        .mockRejectedValueOnce(new HttpError(429, 'Too Many Requests', 60000))
+        .mockResolvedValueOnce('ok');
+
+      await scheduler.run(task);
+
+      expect(sleeps).toEqual([1000]);
+    });
+
+    it('should not retry client errors', async () => {
+      const scheduler = createScheduler();
+      const task = vi.fn().mockRejectedValue(new HttpError(401, 'Unauthorized'));
+
+      await expect(scheduler.run(task)).rejects.toThrow('Unauthorized');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry network errors', async () => {
+      const scheduler = createScheduler();
+      const task = vi.fn().mockRejectedValue(new Error('offline'));
+
+      await expect(scheduler.run(task)).rejects.toThrow('offline');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const scheduler = createScheduler({ maxRetries: 2 });
+      const task = vi.fn().mockRejectedValue(new HttpError(500, 'Server Error'));
+
+      await expect(scheduler.run(task)).rejects.toBeInstanceOf(HttpError);
+      expect(task).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delays in seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).toBe(5000);
+    });
+
+    it('should return null for missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('IgdbClient integration', () => {
+    it('should retry a rate-limited IGDB request', async () => {
+      const client = new IgdbClient('id', 'secret', null, createScheduler());
+      requestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ status: 429, headers: { 'retry-after': '1' }, json: {} } as any)
+        .mockResolvedValueOnce({ status: 200, json: mockIgdbSearchResults } as any);
+
+      const results = await client.searchGames('The Witcher 3');
+
+      expect(results).toHaveLength(2);
+      expect(sleeps).toEqual([1000]);
+    });
+
+    it('should surface an HttpError once retries are exhausted', async () => {
+      const client = new IgdbClient('id', 'secret', null, createScheduler({ maxRetries: 0 }));
+      requestUrl
+        .mockResolvedValueOnce({ json: mockTwitchTokenResponse } as any)
+        .mockResolvedValueOnce({ status: 429, headers: {}, json: {} } as any);
+
+      await expect(client.searchGames('Test')).rejects.toMatchObject({ status: 429 });
+    });
+  });
+});
@@ -110,6 +110,19 @@ describe('SteamGridDbClient', () => {
     });
   });
 
+  describe('getGameById', () => {
+    it('should fetch a game by SteamGridDB ID', async () => {
+      mockRequestUrl.mockResolvedValueOnce({
+        json: mockSgdbSuccessWrapper(mockSgdbSearchResults[0]),
+      } as any);
+
+      const game = await client.getGameById(4614);
+
+      expect(game.name).toBe('The Witcher 3: Wild Hunt');
+      expect(mockRequestUrl.mock.calls[0][0].url).toBe('https://www.steamgriddb.com/api/v2/games/id/4614');
+    });
+  });
+
   describe('getGrids', () => {
     it('should fetch grids for game ID', async () => {
       mockRequestUrl.mockResolvedValueOnce({
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+
+import { parseGameUrl } from '../../../src/api/urls';
+
+describe('parseGameUrl', () => {
+  describe('IGDB', () => {
+    it('should parse game page slugs', () => {
+      expect(parseGameUrl('https://www.igdb.com/games/the-witcher-3-wild-hunt')).toEqual({
+        source: 'igdb',
+        slug: 'the-witcher-3-wild-hunt',
+      });
+    });
+
+    it('should accept URLs without scheme, trailing slashes and query strings', () => {
+      expect(parseGameUrl('igdb.com/games/hades--1/?tab=media')).toEqual({ source: 'igdb', slug: 'hades--1' });
+    });
+
+    it('should ignore other IGDB pages', () => {
+      expect(parseGameUrl('https://www.igdb.com/games/hades/reviews')).toBeNull();
+      expect(parseGameUrl('https://www.igdb.com/companies/supergiant-games')).toBeNull();
+    });
+  });
+
+  describe('Steam', () => {
+    it('should parse store and community app URLs', () => {
+      expect(parseGameUrl('https://store.steampowered.com/app/1145360/Hades/')).toEqual({
+        source: 'steam',
+        appId: 1145360,
+      });
+      expect(parseGameUrl('https://steamcommunity.com/app/1145360')).toEqual({ source: 'steam', appId: 1145360 });
+    });
+
+    it('should ignore bundles and subscriptions', () => {
+      expect(parseGameUrl('https://store.steampowered.com/bundle/1234/')).toBeNull();
+    });
+  });
+
+  describe('HowLongToBeat', () => {
+    it('should parse game page URLs', () => {
+      expect(parseGameUrl('https://howlongtobeat.com/game/10270')).toEqual({ source: 'hltb', gameId: 10270 });
+    });
+
+    it('should parse legacy query string URLs', () => {
+      expect(parseGameUrl('https://howlongtobeat.com/game?id=10270')).toEqual({ source: 'hltb', gameId: 10270 });
+      expect(parseGameUrl('https://howlongtobeat.com/game.php?id=10270')).toEqual({ source: 'hltb', gameId: 10270 });
+    });
+  });
+
+  describe('SteamGridDB', () => {
+    it('should parse game page URLs', () => {
+      expect(parseGameUrl('https://www.steamgriddb.com/game/5248813/grids')).toEqual({
+        source: 'sgdb',
+        gameId: 5248813,
+      });
+    });
+  });
+
+  it('should return null for plain search text and unknown sites', () => {
+    expect(parseGameUrl('the witcher 3')).toBeNull();
+    expect(parseGameUrl('https://example.com/game/123')).toBeNull();
+    expect(parseGameUrl('  ')).toBeNull();
+  });
+
+  it('should trim surrounding whitespace', () => {
+    expect(parseGameUrl('  https://howlongtobeat.com/game/1  ')).toEqual({ source: 'hltb', gameId: 1 });
+  });
+});
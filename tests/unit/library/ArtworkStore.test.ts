@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+import { ArtworkStore, localizeLibraryArtwork } from '../../../src/library/ArtworkStore';
+import type { GameLibrary } from '../../../src/library/GameLibrary';
+import type { GameData } from '../../../src/ui/AddGameModal';
+import { App, TFile, requestUrl } from '../../__mocks__/obsidian';
+
+/**
+ * Creates a game note file with the given path.
+ * @param path - File path
+ * @returns Mock file
+ */
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.basename = path.replace(/^.*\//, '').replace(/\.md$/, '');
+  file.extension = 'md';
+  return file;
+}
+
+/**
+ * Builds a successful image response.
+ * @param contentType - Content type header
+ * @param bytes - Image content
+ * @returns Mock requestUrl response
+ */
+function imageResponse(contentType = 'image/png', bytes = [1, 2, 3]) {
+  return { arrayBuffer: new Uint8Array(bytes).buffer, headers: { 'content-type': contentType } } as any;
+}
+
+const hades = { title: 'Hades', igdbId: 113112, releaseYear: 2020 };
+
+describe('ArtworkStore', () => {
+  let app: App;
+  let store: ArtworkStore;
+  let existing: Set<string>;
+  let images: Map<string, ArrayBuffer>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = new App();
+    existing = new Set();
+    images = new Map();
+    app.vault.getAbstractFileByPath = vi.fn((path: string) =>
+      images.has(path) ? makeFile(path) : existing.has(path) ? {} : null
+    );
+    app.vault.createFolder = vi.fn(async (path: string) => {
+      existing.add(path);
+    });
+    app.vault.createBinary = vi.fn(async (path: string, data: ArrayBuffer) => {
+      images.set(path, data);
+    });
+    app.vault.readBinary = vi.fn(async (file: TFile) => images.get(file.path)!);
+    store = new ArtworkStore(app as any, 'Attachments/Games/');
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('download', () => {
+    it('should save the image under the game title and id, creating missing folders', async () => {
+      existing.add('Attachments');
+      vi.mocked(requestUrl).mockResolvedValueOnce(imageResponse());
+
+      const path = await store.download(
+        { ...hades, title: 'Hades: Battle Out of Hell' },
+        'cover',
+        'https://cdn.example.com/grid/1.png?v=2'
+      );
+
+      expect(path).toBe('Attachments/Games/Hades Battle Out of Hell (113112) - cover.png');
+      expect(app.vault.createFolder).toHaveBeenCalledTimes(1);
+      expect(app.vault.createFolder).toHaveBeenCalledWith('Attachments/Games');
+      expect(app.vault.createBinary).toHaveBeenCalledWith(path, expect.any(ArrayBuffer));
+    });
+
+    it('should fall back to the release year, then to the title alone', () => {
+      expect(store.pathFor({ ...hades, igdbId: null }, 'hero', 'jpg')).toBe('Attachments/Games/Hades (2020) - hero.jpg');
+      expect(store.pathFor({ title: 'Hades', igdbId: null, releaseYear: null }, 'hero', 'jpg')).toBe(
+        'Attachments/Games/Hades - hero.jpg'
+      );
+    });
+
+    it('should reuse a file holding the same image', async () => {
+      images.set('Attachments/Games/Hades (113112) - hero.jpg', new Uint8Array([1, 2, 3]).buffer);
+      vi.mocked(requestUrl).mockResolvedValueOnce(imageResponse('image/jpeg'));
+
+      const path = await store.download(hades, 'hero', 'https://cdn.example.com/hero/2.JPG');
+
+      expect(path).toBe('Attachments/Games/Hades (113112) - hero.jpg');
+      expect(app.vault.createBinary).not.toHaveBeenCalled();
+    });
+
+    it('should save a different image of the same game as a numbered copy', async () => {
+      images.set('Attachments/Games/Hades (113112) - cover.png', new Uint8Array([1, 2, 3]).buffer);
+      vi.mocked(requestUrl).mockResolvedValueOnce(imageResponse('image/png', [4, 5, 6]));
+
+      const path = await store.download(hades, 'cover', 'https://cdn.example.com/picked.png');
+
+      expect(path).toBe('Attachments/Games/Hades (113112) - cover (2).png');
+      expect(images.get('Attachments/Games/Hades (113112) - cover.png')).toEqual(new Uint8Array([1, 2, 3]).buffer);
+    });
+
+    it('should keep the images of same-titled games apart', async () => {
+      const original = { title: 'Resident Evil 4', igdbId: 974, releaseYear: 2005 };
+      const remake = { title: 'Resident Evil 4', igdbId: 132181, releaseYear: 2023 };
+      vi.mocked(requestUrl)
+        .mockResolvedValueOnce(imageResponse('image/png', [1]))
+        .mockResolvedValueOnce(imageResponse('image/png', [2]));
+
+      const first = await store.download(original, 'cover', 'https://cdn.example.com/re4.png');
+      const second = await store.download(remake, 'cover', 'https://cdn.example.com/re4-remake.png');
+
+      expect(first).toBe('Attachments/Games/Resident Evil 4 (974) - cover.png');
+      expect(second).toBe('Attachments/Games/Resident Evil 4 (132181) - cover.png');
+      expect(app.vault.createBinary).toHaveBeenCalledTimes(2);
+    });
+
+    it('should take the extension from the content type when the URL has none', async () => {
+      vi.mocked(requestUrl).mockResolvedValueOnce(imageResponse('image/webp; charset=binary'));
+
+      expect(await store.download(hades, 'logo', 'https://cdn.example.com/logo/3')).toBe(
+        'Attachments/Games/Hades (113112) - logo.webp'
+      );
+    });
+
+    it('should save to the vault root when no folder is set', async () => {
+      vi.mocked(requestUrl).mockResolvedValueOnce(imageResponse());
+
+      const path = await new ArtworkStore(app as any, '').download(hades, 'cover', 'https://cdn.example.com/1.png');
+
+      expect(path).toBe('Hades (113112) - cover.png');
+      expect(app.vault.createFolder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('localizeGameData', () => {
+    const data = {
+      ...hades,
+      coverUrl: 'https://cdn.example.com/cover.png',
+      heroUrl: 'https://cdn.example.com/hero.png',
+      logoUrl: null,
+    } as GameData;
+
+    it('should point the note at downloaded copies', async () => {
+      vi.mocked(requestUrl).mockResolvedValue(imageResponse());
+
+      const local = await store.localizeGameData(data);
+
+      expect(local.coverUrl).toBe('Attachments/Games/Hades (113112) - cover.png');
+      expect(local.heroUrl).toBe('Attachments/Games/Hades (113112) - hero.png');
+      expect(local.logoUrl).toBeNull();
+    });
+
+    it('should keep the URL of images that fail to download', async () => {
+      vi.mocked(requestUrl).mockRejectedValueOnce(new Error('offline')).mockResolvedValueOnce(imageResponse());
+
+      const local = await store.localizeGameData(data);
+
+      expect(local.coverUrl).toBe('https://cdn.example.com/cover.png');
+      expect(local.heroUrl).toBe('Attachments/Games/Hades (113112) - hero.png');
+    });
+  });
+
+  describe('localizeScreenshots', () => {
+    /**
+     * Builds a screenshot with a URL per size.
+     * @param id - Image id
+     * @returns Screenshot URLs
+     */
+    const shot = (id: string) => ({
+      medium: `https://images.igdb.com/t_screenshot_med/${id}.jpg`,
+      large: `https://images.igdb.com/t_screenshot_big/${id}.jpg`,
+      huge: `https://images.igdb.com/t_screenshot_huge/${id}.jpg`,
+    });
+    const data = { ...hades, screenshots: [shot('a'), shot('b'), shot('c')] } as GameData;
+    const media = { screenshots: 2, screenshotSize: 'large' as const, trailers: false };
+
+    it('should download the gallery images at the size the note uses', async () => {
+      vi.mocked(requestUrl).mockResolvedValue(imageResponse('image/jpeg'));
+
+      const local = await store.localizeScreenshots(data, media);
+
+      expect(local.screenshots).toEqual([
+        { ...shot('a'), large: 'Attachments/Games/Hades (113112) - screenshot 1.jpg' },
+        { ...shot('b'), large: 'Attachments/Games/Hades (113112) - screenshot 2.jpg' },
+      ]);
+      expect(requestUrl).toHaveBeenCalledWith({ url: 'https://images.igdb.com/t_screenshot_big/a.jpg' });
+      expect(requestUrl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the URL of screenshots that fail to download', async () => {
+      vi.mocked(requestUrl).mockRejectedValueOnce(new Error('offline')).mockResolvedValueOnce(imageResponse());
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const local = await store.localizeScreenshots(data, media);
+
+      expect(local.screenshots?.map((s) => s.large)).toEqual([
+        'https://images.igdb.com/t_screenshot_big/a.jpg',
+        'Attachments/Games/Hades (113112) - screenshot 2.jpg',
+      ]);
+    });
+  });
+
+  describe('localizeNote', () => {
+    const url = 'https://cdn.example.com/cover.png';
+
+    it('should rewrite the frontmatter and embeds of an existing note', async () => {
+      vi.mocked(requestUrl).mockResolvedValueOnce(imageResponse());
+      let body = `---\ncover: "${url}"\n---\n![cover](${url})\n\nSee ![alt text](${url}) too`;
+      app.vault.process = vi.fn(async (_file, fn: (content: string) => string) => {
+        body = fn(body);
+        return body;
+      });
+      const written: Record<string, unknown> = {};
+      app.fileManager.processFrontMatter = vi.fn(async (_file, fn) => fn(written));
+
+      const count = await store.localizeNote(makeFile('Hades.md'), hades, { cover: url, logo: '[[Hades - logo.png]]' });
+
+      expect(count).toBe(1);
+      expect(body).toContain('![[Attachments/Games/Hades (113112) - cover.png]]\n\nSee ![[Attachments/Games/Hades (113112) - cover.png]] too');
+      expect(written).toEqual({ cover: '[[Attachments/Games/Hades (113112) - cover.png]]' });
+    });
+
+    it('should leave notes without remote images alone', async () => {
+      expect(await store.localizeNote(makeFile('Hades.md'), hades, { cover: null })).toBe(0);
+      expect(app.vault.process).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('localizeLibraryArtwork', () => {
+    it('should report localized and failed notes', async () => {
+      const library = {
+        all: () => [
+          {
+            file: makeFile('Hades.md'),
+            title: 'Hades',
+            igdbId: null,
+            frontmatter: { cover: 'https://cdn.example.com/hades.png', release_year: 2020 },
+          },
+          {
+            file: makeFile('Celeste.md'),
+            title: 'Celeste',
+            igdbId: 26226,
+            frontmatter: { cover: 'https://cdn.example.com/celeste.png' },
+          },
+          { file: makeFile('Tunic.md'), title: 'Tunic', igdbId: null, frontmatter: {} },
+        ],
+      } as unknown as GameLibrary;
+      vi.mocked(requestUrl).mockResolvedValueOnce(imageResponse()).mockRejectedValueOnce(new Error('404'));
+
+      const report = await localizeLibraryArtwork(store, library);
+
+      expect(report).toEqual({ notes: 1, images: 1, failed: ['Celeste.md'] });
+      expect(app.vault.createBinary).toHaveBeenCalledWith('Attachments/Games/Hades (2020) - cover.png', expect.any(ArrayBuffer));
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+import { GameLibrary, isGameNote } from '../../../src/library/GameLibrary';
+import { App, Plugin, TFile } from '../../__mocks__/obsidian';
+
+/**
+ * Creates a markdown file with the given path.
+ * @param path - File path
+ * @returns Mock file
+ */
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.basename = path.replace(/^.*\//, '').replace(/\.md$/, '');
+  file.extension = 'md';
+  return file;
+}
+
+describe('isGameNote', () => {
+  it('should accept list and string tags', () => {
+    expect(isGameNote({ tags: ['game', 'backlog'] })).toBe(true);
+    expect(isGameNote({ tags: 'backlog, #game' })).toBe(true);
+  });
+
+  it('should reject notes without the game tag', () => {
+    expect(isGameNote({ tags: ['gaming', 'dashboard'] })).toBe(false);
+    expect(isGameNote({})).toBe(false);
+    expect(isGameNote(undefined)).toBe(false);
+  });
+});
+
+describe('GameLibrary', () => {
+  let app: App;
+  let library: GameLibrary;
+  let files: TFile[];
+  let frontmatters: Record<string, Record<string, unknown> | undefined>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = new App();
+    files = [makeFile('games/Hades.md'), makeFile('games/Celeste.md'), makeFile('Dashboard.md')];
+    frontmatters = {
+      'games/Hades.md': {
+        title: 'Hades',
+        tags: ['game', 'backlog'],
+        priority: 'playing',
+        platform: 'Steam Deck',
+        igdb_id: 113112,
+        genres: ['Roguelike', 'Action'],
+      },
+      'games/Celeste.md': {
+        tags: ['game'],
+        priority: 'À jouer absolument',
+        platform: 'Full PC',
+        igdb_id: '26226',
+        genres: ['[[Games/Genres/Platform|Platform]]'],
+      },
+      'Dashboard.md': { tags: ['dashboard', 'gaming'] },
+    };
+
+    app.vault.getMarkdownFiles = vi.fn(() => files);
+    app.metadataCache.getFileCache = vi.fn((file: TFile) => {
+      const frontmatter = frontmatters[file.path];
+      return frontmatter ? { frontmatter } : null;
+    });
+
+    library = new GameLibrary(app as any);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('indexing', () => {
+    it('should index only game notes', () => {
+      library.rebuild();
+
+      expect(library.all().map((e) => e.file.path).sort()).toEqual([
+        'games/Celeste.md',
+        'games/Hades.md',
+      ]);
+      expect(library.get('Dashboard.md')).toBeNull();
+    });
+
+    it('should normalize frontmatter fields', () => {
+      library.rebuild();
+
+      const celeste = library.get('games/Celeste.md');
+      expect(celeste?.title).toBe('Celeste');
+      expect(celeste?.status).toBe('must_play');
+      expect(celeste?.igdbId).toBe(26226);
+    });
+
+    it('should leave excluded notes such as the note template out', () => {
+      files.push(makeFile('Templates/Game.md'));
+      frontmatters['Templates/Game.md'] = { title: '{{title|yaml}}', tags: ['game', 'backlog'] };
+      library.rebuild();
+      expect(library.get('Templates/Game.md')).not.toBeNull();
+
+      library.exclude(['Templates/Game.md']);
+
+      expect(library.get('Templates/Game.md')).toBeNull();
+      expect(library.all()).toHaveLength(2);
+
+      library.exclude([]);
+
+      expect(library.get('Templates/Game.md')).not.toBeNull();
+    });
+
+    it('should build the index when attached', () => {
+      library.attach(new Plugin(app, {} as any) as any);
+
+      expect(library.all()).toHaveLength(2);
+    });
+  });
+
+  describe('queries', () => {
+    beforeEach(() => {
+      library.rebuild();
+    });
+
+    it('should find games by status key or legacy label', () => {
+      expect(library.byStatus('playing').map((e) => e.title)).toEqual(['Hades']);
+      expect(library.byStatus('Must Play').map((e) => e.title)).toEqual(['Celeste']);
+      expect(library.byStatus('unknown')).toEqual([]);
+    });
+
+    it('should find games by platform', () => {
+      expect(library.byPlatform('Full PC').map((e) => e.title)).toEqual(['Celeste']);
+    });
+
+    it('should find games by IGDB id', () => {
+      expect(library.byIgdbId(113112).map((e) => e.title)).toEqual(['Hades']);
+      expect(library.byIgdbId(1)).toEqual([]);
+    });
+
+    it('should find games by genre case-insensitively', () => {
+      expect(library.byGenre('roguelike').map((e) => e.title)).toEqual(['Hades']);
+    });
+
+    it('should read genres written as links to their notes', () => {
+      expect(library.get('games/Celeste.md')?.genres).toEqual(['Platform']);
+      expect(library.byGenre('Platform').map((e) => e.title)).toEqual(['Celeste']);
+    });
+
+    it('should find duplicates by IGDB id whatever the note is called', () => {
+      const matches = library.findDuplicates(113112, 'Hades II');
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ reason: 'igdb', similarity: 1 });
+      expect(matches[0].entry.title).toBe('Hades');
+    });
+
+    it('should not compare titles of notes with another IGDB id', () => {
+      expect(library.findDuplicates(1, 'Hades')).toEqual([]);
+    });
+
+    it('should fall back to similar titles when an IGDB id is missing', () => {
+      const tunic = makeFile('Tunic.md');
+      files.push(tunic);
+      frontmatters[tunic.path] = { tags: ['game'], title: 'TUNIC' };
+      library.rebuild();
+
+      expect(library.findDuplicates(1, 'Tunic').map((m) => [m.entry.title, m.reason])).toEqual([['TUNIC', 'title']]);
+      expect(library.findDuplicates(null, 'Celeste: Farewell').map((m) => m.entry.title)).toEqual(['Celeste']);
+      expect(library.findDuplicates(null, 'Outer Wilds')).toEqual([]);
+    });
+  });
+
+  describe('events', () => {
+    beforeEach(() => {
+      library.attach(new Plugin(app, {} as any) as any);
+    });
+
+    it('should add notes when their metadata changes', () => {
+      const file = makeFile('games/Tunic.md');
+      const frontmatter = { tags: ['game'], priority: 'will_get_around_to' };
+
+      app.metadataCache.trigger('changed', file, '', { frontmatter });
+
+      expect(library.get('games/Tunic.md')?.status).toBe('will_get_around_to');
+    });
+
+    it('should drop notes that lose the game tag', () => {
+      app.metadataCache.trigger('changed', files[0], '', { frontmatter: { tags: ['archive'] } });
+
+      expect(library.get('games/Hades.md')).toBeNull();
+    });
+
+    it('should index created files once their metadata is available', () => {
+      const file = makeFile('games/Tunic.md');
+      frontmatters[file.path] = { tags: ['game'] };
+
+      app.vault.trigger('create', file);
+
+      expect(library.get('games/Tunic.md')).not.toBeNull();
+    });
+
+    it('should follow renames', () => {
+      const renamed = makeFile('archive/Hades.md');
+
+      app.vault.trigger('rename', renamed, 'games/Hades.md');
+
+      expect(library.get('games/Hades.md')).toBeNull();
+      expect(library.get('archive/Hades.md')?.file).toBe(renamed);
+    });
+
+    it('should forget deleted files', () => {
+      app.vault.trigger('delete', files[1]);
+
+      expect(library.get('games/Celeste.md')).toBeNull();
+      expect(library.all()).toHaveLength(1);
+    });
+  });
+});
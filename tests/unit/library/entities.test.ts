@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+import {
+  ensureEntityNotes,
+  entitiesOf,
+  entityLink,
+  entityName,
+  generateEntityNote,
+  linkGameData,
+  linkLibraryEntities,
+} from '../../../src/library/entities';
+import type { GameEntry, GameLibrary } from '../../../src/library/GameLibrary';
+import type { GameData } from '../../../src/ui/AddGameModal';
+import { App, TFile } from '../../__mocks__/obsidian';
+
+const folders = { genre: 'Games/Genres', company: 'Games/Companies', franchise: '' };
+
+const data: GameData = {
+  title: 'Elden Ring',
+  platform: 'Full PC',
+  priority: 'must_play',
+  rating: 95,
+  hltbHours: 58,
+  hltbExtrasHours: null,
+  hltbCompletionistHours: null,
+  planningMetric: null,
+  efficiency: 1.64,
+  coverUrl: null,
+  heroUrl: null,
+  logoUrl: null,
+  description: null,
+  igdbId: 119133,
+  genres: ['Role-playing (RPG)', 'Adventure'],
+  releaseYear: 2022,
+  facets: {
+    developers: ['FromSoftware'],
+    publishers: ['Bandai Namco Entertainment', 'FromSoftware'],
+    franchises: ['Elden Ring'],
+    gameModes: ['Single player', 'Co-operative'],
+    themes: [],
+    perspectives: [],
+    engines: [],
+    keywords: [],
+  },
+};
+
+/**
+ * Creates a library entry for a game note.
+ * @param path - File path
+ * @param frontmatter - Note frontmatter
+ * @returns Library entry
+ */
+function makeEntry(path: string, frontmatter: Record<string, unknown>): GameEntry {
+  const file = new TFile();
+  file.path = path;
+  return { file, title: path, status: null, platform: null, igdbId: null, genres: [], frontmatter } as unknown as GameEntry;
+}
+
+describe('entity links', () => {
+  it('should link to the note in the entity folder, showing the name', () => {
+    expect(entityLink({ kind: 'genre', name: 'Role-playing (RPG)' }, folders)).toBe(
+      '[[Games/Genres/Role-playing (RPG)|Role-playing (RPG)]]'
+    );
+    expect(entityLink({ kind: 'franchise', name: 'Elden Ring' }, folders)).toBe('[[Elden Ring]]');
+  });
+
+  it('should drop characters that break file names or links', () => {
+    expect(entityLink({ kind: 'genre', name: "Hack and slash/Beat 'em up" }, folders)).toBe(
+      "[[Games/Genres/Hack and slashBeat 'em up|Hack and slash/Beat 'em up]]"
+    );
+    expect(entityLink({ kind: 'company', name: '???' }, folders)).toBe('???');
+  });
+
+  it('should read names back from links and plain values', () => {
+    expect(entityName('[[Games/Genres/Role-playing (RPG)|Role-playing (RPG)]]')).toBe('Role-playing (RPG)');
+    expect(entityName('[[Games/Companies/FromSoftware]]')).toBe('FromSoftware');
+    expect(entityName('Adventure')).toBe('Adventure');
+  });
+
+  it('should link genres, companies and franchises but not other facets', () => {
+    const linked = linkGameData(data, folders);
+
+    expect(linked.genres).toEqual([
+      '[[Games/Genres/Role-playing (RPG)|Role-playing (RPG)]]',
+      '[[Games/Genres/Adventure|Adventure]]',
+    ]);
+    expect(linked.facets?.developers).toEqual(['[[Games/Companies/FromSoftware|FromSoftware]]']);
+    expect(linked.facets?.franchises).toEqual(['[[Elden Ring]]']);
+    expect(linked.facets?.gameModes).toEqual(['Single player', 'Co-operative']);
+    expect(data.genres).toEqual(['Role-playing (RPG)', 'Adventure']);
+  });
+
+  it('should list each entity once', () => {
+    expect(entitiesOf(data)).toEqual([
+      { kind: 'genre', name: 'Role-playing (RPG)' },
+      { kind: 'genre', name: 'Adventure' },
+      { kind: 'company', name: 'FromSoftware' },
+      { kind: 'company', name: 'Bandai Namco Entertainment' },
+      { kind: 'franchise', name: 'Elden Ring' },
+    ]);
+  });
+});
+
+describe('entity notes', () => {
+  let app: App;
+  let existing: Set<string>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = new App();
+    existing = new Set(['Games/Genres/Adventure.md']);
+    app.vault.getAbstractFileByPath = vi.fn((path: string) => (existing.has(path) ? {} : null));
+    app.vault.createFolder = vi.fn(async (path: string) => {
+      existing.add(path);
+    });
+    app.vault.create = vi.fn(async (path: string) => {
+      existing.add(path);
+      return { path };
+    });
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should list the game notes linking to the entity', () => {
+    const note = generateEntityNote({ kind: 'franchise', name: 'Elden Ring' });
+
+    expect(note).toContain('entity_type: "franchise"\ntags:\n  - game-entity\n---');
+    expect(note).toContain('## Games');
+    expect(note).toContain('```dataview\nTABLE platform, priority, release_year\nFROM #game AND [[]]');
+  });
+
+  it('should create missing notes and their folders, keeping existing ones', async () => {
+    const created = await ensureEntityNotes(app as any, entitiesOf(data), folders, 'fr');
+
+    expect(created).toBe(4);
+    expect(app.vault.createFolder).toHaveBeenCalledWith('Games/Companies');
+    expect(app.vault.create).toHaveBeenCalledWith('Games/Genres/Role-playing (RPG).md', expect.stringContaining('## Jeux'));
+    expect(app.vault.create).toHaveBeenCalledWith('Elden Ring.md', expect.any(String));
+    expect(app.vault.create).not.toHaveBeenCalledWith('Games/Genres/Adventure.md', expect.anything());
+  });
+
+  it('should keep creating notes after one fails', async () => {
+    vi.mocked(app.vault.create).mockRejectedValueOnce(new Error('disk full'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await ensureEntityNotes(app as any, entitiesOf(data), folders)).toBe(3);
+  });
+
+  it('should link plain values of existing game notes and create their notes', async () => {
+    const frontmatters: Record<string, any> = {
+      'Elden Ring.md': { genres: ['Adventure'], developers: ['FromSoftware'], game_modes: ['Co-operative'] },
+      'Hades.md': { genres: ['[[Games/Genres/Roguelike|Roguelike]]'] },
+    };
+    const library = {
+      all: () => Object.keys(frontmatters).map((path) => makeEntry(path, frontmatters[path])),
+    } as unknown as GameLibrary;
+    app.fileManager.processFrontMatter = vi.fn(async (file: TFile, fn: (fm: any) => void) => {
+      fn(frontmatters[file.path]);
+    });
+
+    const report = await linkLibraryEntities(app as any, library, folders);
+
+    expect(report).toEqual({ notes: 1, created: 1, failed: [] });
+    expect(app.fileManager.processFrontMatter).toHaveBeenCalledTimes(1);
+    expect(frontmatters['Elden Ring.md']).toEqual({
+      genres: ['[[Games/Genres/Adventure|Adventure]]'],
+      developers: ['[[Games/Companies/FromSoftware|FromSoftware]]'],
+      game_modes: ['Co-operative'],
+    });
+    expect(app.vault.create).toHaveBeenCalledWith('Games/Companies/FromSoftware.md', expect.any(String));
+  });
+});
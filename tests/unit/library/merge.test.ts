@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+import { lookupFields, mergeIntoNote } from '../../../src/library/merge';
+import type { GameData } from '../../../src/ui/AddGameModal';
+import { App, TFile } from '../../__mocks__/obsidian';
+
+const data: GameData = {
+  title: 'Hades',
+  platform: 'Steam Deck',
+  priority: 'must_play',
+  rating: 93,
+  hltbHours: 22,
+  hltbExtrasHours: 50,
+  hltbCompletionistHours: null,
+  planningMetric: 'extras',
+  efficiency: 4.23,
+  coverUrl: 'Attachments/Games/Hades - cover.png',
+  heroUrl: 'https://cdn.example.com/hero.png',
+  logoUrl: null,
+  description: 'Defy the god of the dead.',
+  igdbId: 113112,
+  genres: ['Roguelike'],
+  releaseYear: 2020,
+};
+
+describe('lookupFields', () => {
+  it('should map known values to frontmatter fields and drop unknown ones', () => {
+    expect(lookupFields(data)).toEqual({
+      rating: 93,
+      hltb_hours: 22,
+      hltb_extras_hours: 50,
+      efficiency: 4.23,
+      cover: '[[Attachments/Games/Hades - cover.png]]',
+      hero: 'https://cdn.example.com/hero.png',
+      igdb_id: 113112,
+      release_year: 2020,
+      genres: ['Roguelike'],
+    });
+  });
+
+  it('should contribute known facets', () => {
+    const fields = lookupFields({
+      ...data,
+      facets: {
+        developers: ['Supergiant Games'],
+        publishers: ['Supergiant Games'],
+        franchises: [],
+        gameModes: ['Single player'],
+        themes: [],
+        perspectives: [],
+        engines: [],
+        keywords: [],
+      },
+    });
+
+    expect(fields).toMatchObject({
+      developers: ['Supergiant Games'],
+      publishers: ['Supergiant Games'],
+      game_modes: ['Single player'],
+    });
+    expect(fields).not.toHaveProperty('themes');
+  });
+
+  it('should contribute store links', () => {
+    const fields = lookupFields({ ...data, links: [{ kind: 'steam', url: 'https://store.steampowered.com/app/1145360/' }] });
+
+    expect(fields.steam_url).toBe('https://store.steampowered.com/app/1145360/');
+  });
+});
+
+describe('mergeIntoNote', () => {
+  let app: App;
+  let frontmatter: Record<string, unknown>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = new App();
+    app.fileManager.processFrontMatter = vi.fn(async (_file, fn) => fn(frontmatter));
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should fill missing fields and keep the note’s own values', async () => {
+    frontmatter = {
+      title: 'Hades',
+      priority: 'playing',
+      rating: 80,
+      hltb_hours: null,
+      cover: '',
+      genres: [],
+      notes: 'Stuck on Hades himself',
+    };
+
+    const filled = await mergeIntoNote(app as any, new TFile(), data);
+
+    expect(filled).toEqual([
+      'hltb_hours',
+      'hltb_extras_hours',
+      'efficiency',
+      'cover',
+      'hero',
+      'igdb_id',
+      'release_year',
+      'genres',
+    ]);
+    expect(frontmatter).toMatchObject({
+      priority: 'playing',
+      rating: 80,
+      hltb_hours: 22,
+      cover: '[[Attachments/Games/Hades - cover.png]]',
+      genres: ['Roguelike'],
+      notes: 'Stuck on Hades himself',
+    });
+    expect(frontmatter).not.toHaveProperty('planning_metric');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+import type { GameEntry, GameLibrary } from '../../../src/library/GameLibrary';
+import { moveGameNotes, targetPathOf } from '../../../src/library/organize';
+import { App, TFile } from '../../__mocks__/obsidian';
+
+const naming = { folder: 'Gaming/Games', pattern: '{title} ({year})', emoji: '🎮' };
+
+/**
+ * Creates a library entry for a game note.
+ * @param path - File path
+ * @param title - Game title
+ * @param year - Release year, if any
+ * @returns Library entry
+ */
+function makeEntry(path: string, title: string, year: number | null = null): GameEntry {
+  const file = new TFile();
+  file.path = path;
+  return {
+    file,
+    title,
+    status: null,
+    platform: 'Steam Deck',
+    igdbId: null,
+    genres: [],
+    frontmatter: { title, release_year: year },
+  } as unknown as GameEntry;
+}
+
+describe('organize', () => {
+  let app: App;
+  let existing: Set<string>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = new App();
+    existing = new Set();
+    app.vault.getAbstractFileByPath = vi.fn((path: string) => (existing.has(path) ? {} : null));
+    app.vault.createFolder = vi.fn(async (path: string) => {
+      existing.add(path);
+    });
+    app.fileManager.renameFile = vi.fn(async (_file, path: string) => {
+      existing.add(path);
+    });
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should name notes from their frontmatter', () => {
+    expect(targetPathOf(makeEntry('🎮 Hades.md', 'Hades', 2020), naming)).toBe('Gaming/Games/🎮 Hades (2020).md');
+    expect(targetPathOf(makeEntry('🎮 Tunic.md', 'Tunic'), naming)).toBe('Gaming/Games/🎮 Tunic.md');
+  });
+
+  it('should move misplaced notes, creating folders and numbering taken names', async () => {
+    const hades = makeEntry('🎮 Hades.md', 'Hades', 2020);
+    const replay = makeEntry('Old/Hades replay.md', 'Hades', 2020);
+    const library = {
+      all: () => [hades, replay, makeEntry('Gaming/Games/🎮 Celeste (2018).md', 'Celeste', 2018)],
+    } as unknown as GameLibrary;
+
+    const report = await moveGameNotes(app as any, library, naming);
+
+    expect(report).toEqual({ moved: 2, failed: [] });
+    expect(app.vault.createFolder).toHaveBeenCalledWith('Gaming');
+    expect(app.vault.createFolder).toHaveBeenCalledWith('Gaming/Games');
+    expect(app.fileManager.renameFile).toHaveBeenCalledWith(hades.file, 'Gaming/Games/🎮 Hades (2020).md');
+    expect(app.fileManager.renameFile).toHaveBeenCalledWith(replay.file, 'Gaming/Games/🎮 Hades (2020) (2).md');
+  });
+
+  it('should leave numbered playthroughs in place and report failed moves', async () => {
+    vi.mocked(app.fileManager.renameFile).mockRejectedValueOnce(new Error('locked'));
+    const library = {
+      all: () => [makeEntry('Gaming/Games/🎮 Hades (2020) (2).md', 'Hades', 2020), makeEntry('Tunic.md', 'Tunic')],
+    } as unknown as GameLibrary;
+
+    const report = await moveGameNotes(app as any, library, naming);
+
+    expect(report).toEqual({ moved: 0, failed: ['Tunic.md'] });
+    expect(app.fileManager.renameFile).toHaveBeenCalledTimes(1);
+  });
+});
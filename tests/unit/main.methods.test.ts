@@ -4,7 +4,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 vi.mock('obsidian', () => import('../__mocks__/obsidian'));
 
 import GameBacklogPlugin from '../../main.ts';
-import { App, Notice, TFile } from '../__mocks__/obsidian';
+import { GameLibrary } from '../../src/library/GameLibrary';
+import { DuplicateGameModal } from '../../src/ui/DuplicateGameModal';
+import { App, Notice, TFile, requestUrl } from '../__mocks__/obsidian';
 
 describe('GameBacklogPlugin methods', () => {
   let plugin: GameBacklogPlugin;
@@ -24,8 +26,24 @@ describe('GameBacklogPlugin methods', () => {
     };
 
     plugin = new GameBacklogPlugin(app, manifest);
+    plugin.library = new GameLibrary(app as any);
   });
 
+  /**
+   * Indexes a game note so the plugin sees it as already in the backlog.
+   * @param path - Note path
+   * @param frontmatter - Note frontmatter
+   * @returns The note file
+   */
+  function indexGameNote(path: string, frontmatter: Record<string, unknown>): TFile {
+    const file = new TFile();
+    file.path = path;
+    app.vault.getMarkdownFiles = vi.fn(() => [file]);
+    app.metadataCache.getFileCache = vi.fn(() => ({ frontmatter: { tags: ['game'], ...frontmatter } }));
+    plugin.library.rebuild();
+    return file;
+  }
+
   describe('createGameNote method', () => {
     it('should create game note with correct filename', async () => {
       plugin.loadData = vi.fn().mockResolvedValue({});
@@ -126,6 +144,230 @@ describe('GameBacklogPlugin methods', () => {
 
       expect(Notice).toHaveBeenCalledWith('Failed to create game note. Check console for details.');
     });
+
+    it('should ask what to do when the game is already in the vault under another name', async () => {
+      await plugin.loadSettings();
+      indexGameNote('Backlog/Old Hades note.md', { title: 'Hades (2020)', igdb_id: 113112 });
+      const open = vi.spyOn(DuplicateGameModal.prototype, 'open');
+
+      await (plugin as any).createGameNote({ title: 'Hades', igdbId: 113112, genres: [] });
+
+      expect(open).toHaveBeenCalled();
+      expect(app.vault.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveDuplicate method', () => {
+    const gameData = {
+      title: 'Hades',
+      platform: 'Steam Deck',
+      priority: 'must_play',
+      rating: 93,
+      hltbHours: 22,
+      hltbExtrasHours: null,
+      hltbCompletionistHours: null,
+      planningMetric: null,
+      efficiency: 4.23,
+      coverUrl: null,
+      heroUrl: null,
+      logoUrl: null,
+      description: null,
+      igdbId: 113112,
+      genres: [],
+      releaseYear: 2020,
+    };
+    let openFile: ReturnType<typeof vi.fn>;
+    let file: TFile;
+
+    beforeEach(async () => {
+      await plugin.loadSettings();
+      file = indexGameNote('🎮 Hades.md', { title: 'Hades', igdb_id: 113112 });
+      openFile = vi.fn().mockResolvedValue(undefined);
+      app.workspace.getLeaf = vi.fn().mockReturnValue({ openFile });
+    });
+
+    it('should open the existing note', async () => {
+      await (plugin as any).resolveDuplicate('open', plugin.library.findDuplicates(113112, 'Hades')[0], gameData);
+
+      expect(openFile).toHaveBeenCalledWith(file);
+      expect(app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+
+    it('should fill the missing fields of the existing note, then open it', async () => {
+      const frontmatter: Record<string, unknown> = { title: 'Hades', igdb_id: 113112, rating: 80 };
+      app.fileManager.processFrontMatter = vi.fn(async (_file, fn) => fn(frontmatter));
+
+      await (plugin as any).resolveDuplicate('merge', plugin.library.findDuplicates(113112, 'Hades')[0], gameData);
+
+      expect(frontmatter).toMatchObject({ rating: 80, hltb_hours: 22, efficiency: 4.23, release_year: 2020 });
+      expect(Notice).toHaveBeenCalledWith('Filled 3 missing field(s) in 🎮 Hades.md');
+      expect(openFile).toHaveBeenCalledWith(file);
+    });
+
+    it('should add a separate note under a numbered name', async () => {
+      app.vault.getAbstractFileByPath = vi.fn((path: string) => (path === '🎮 Hades.md' ? file : null));
+      app.vault.create = vi.fn().mockResolvedValue({ path: '🎮 Hades (2).md' });
+
+      await (plugin as any).resolveDuplicate('add', plugin.library.findDuplicates(113112, 'Hades')[0], gameData);
+
+      expect(app.vault.create).toHaveBeenCalledWith('🎮 Hades (2).md', expect.any(String));
+      expect(Notice).toHaveBeenCalledWith('Added "Hades" to your backlog!');
+    });
+  });
+
+  describe('writeGameNote method', () => {
+    const gameData = {
+      title: 'Bulk Game',
+      platform: 'Steam Deck',
+      priority: 'must_play',
+      rating: 85,
+      hltbHours: 20,
+      efficiency: 4.25,
+      coverUrl: null,
+      description: null,
+      igdbId: 12345,
+      genres: ['Action'],
+      releaseYear: 2023,
+    };
+
+    it('should create the note without opening it', async () => {
+      await plugin.loadSettings();
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+      app.vault.create = vi.fn().mockResolvedValue({ path: '🎮 Bulk Game.md' });
+
+      const file = await (plugin as any).writeGameNote(gameData);
+
+      expect(file.path).toBe('🎮 Bulk Game.md');
+      expect(app.workspace.getLeaf).not.toHaveBeenCalled();
+      expect(Notice).not.toHaveBeenCalled();
+    });
+
+    it('should embed downloaded artwork when downloads are enabled', async () => {
+      await plugin.loadSettings();
+      plugin.settings.downloadArtwork = true;
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+      app.vault.create = vi.fn().mockResolvedValue({ path: '🎮 Bulk Game.md' });
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        arrayBuffer: new ArrayBuffer(4),
+        headers: { 'content-type': 'image/jpeg' },
+      } as any);
+
+      await (plugin as any).writeGameNote({ ...gameData, coverUrl: 'https://cdn.example.com/cover' });
+
+      expect(app.vault.createBinary).toHaveBeenCalledWith('Attachments/Games/Bulk Game (12345) - cover.jpg', expect.any(ArrayBuffer));
+      const content: string = vi.mocked(app.vault.create).mock.calls[0][1];
+      expect(content).toContain('cover: "[[Attachments/Games/Bulk Game (12345) - cover.jpg]]"');
+      expect(content).toContain('![[Attachments/Games/Bulk Game (12345) - cover.jpg]]');
+    });
+
+    it('should link genres and create their notes when entity links are enabled', async () => {
+      await plugin.loadSettings();
+      plugin.settings.linkEntities = true;
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+      app.vault.create = vi.fn(async (path: string) => ({ path }));
+
+      await (plugin as any).writeGameNote(gameData);
+
+      expect(app.vault.create).toHaveBeenCalledWith('Games/Genres/Action.md', expect.stringContaining('FROM #game AND [[]]'));
+      const content: string = vi.mocked(app.vault.create).mock.calls.find(([path]) => path === '🎮 Bulk Game.md')![1];
+      expect(content).toContain('genres:\n  - "[[Games/Genres/Action|Action]]"');
+    });
+
+    it('should add downloaded screenshots and trailers when enabled', async () => {
+      await plugin.loadSettings();
+      Object.assign(plugin.settings, {
+        showScreenshots: true,
+        screenshotCount: 1,
+        screenshotSize: 'medium',
+        downloadScreenshots: true,
+        showTrailers: true,
+      });
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+      app.vault.create = vi.fn().mockResolvedValue({ path: '🎮 Bulk Game.md' });
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        arrayBuffer: new ArrayBuffer(4),
+        headers: { 'content-type': 'image/jpeg' },
+      } as any);
+      const shot = { medium: 'https://img.example.com/med.jpg', large: 'https://img.example.com/big.jpg', huge: 'https://img.example.com/huge.jpg' };
+
+      await (plugin as any).writeGameNote({
+        ...gameData,
+        screenshots: [shot, shot],
+        videos: [{ name: 'Trailer', youtubeId: 'xyz' }],
+      });
+
+      expect(requestUrl).toHaveBeenCalledWith({ url: 'https://img.example.com/med.jpg' });
+      const content: string = vi.mocked(app.vault.create).mock.calls[0][1];
+      expect(content).toContain('![[Attachments/Games/Bulk Game (12345) - screenshot 1.jpg]]');
+      expect(content).toContain('![Trailer](https://www.youtube.com/watch?v=xyz)');
+    });
+
+    it('should throw when the note already exists', async () => {
+      await plugin.loadSettings();
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(new TFile());
+
+      await expect((plugin as any).writeGameNote(gameData)).rejects.toThrow(
+        'A note for "Bulk Game" already exists'
+      );
+      expect(app.vault.create).not.toHaveBeenCalled();
+    });
+
+    it('should name the note from the naming settings, creating its folder', async () => {
+      await plugin.loadSettings();
+      Object.assign(plugin.settings, { notesFolder: 'Gaming/Games', fileNamePattern: '{title} ({year})', fileNameEmoji: '' });
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+      app.vault.create = vi.fn().mockResolvedValue({ path: 'Gaming/Games/Bulk Game (2023).md' });
+
+      await (plugin as any).writeGameNote(gameData);
+
+      expect(app.vault.createFolder).toHaveBeenCalledWith('Gaming/Games');
+      expect(app.vault.create).toHaveBeenCalledWith('Gaming/Games/Bulk Game (2023).md', expect.any(String));
+    });
+
+    it('should write the note from the user template', async () => {
+      await plugin.loadSettings();
+      plugin.settings.noteTemplate = 'Templates/Game';
+      const template = new TFile();
+      template.path = 'Templates/Game.md';
+      app.vault.getAbstractFileByPath = vi.fn((path: string) => (path === template.path ? template : null));
+      app.vault.read = vi.fn().mockResolvedValue('# {{title}} ({{release_year}})');
+      app.vault.create = vi.fn().mockResolvedValue({ path: '🎮 Bulk Game.md' });
+
+      await (plugin as any).writeGameNote(gameData);
+
+      expect(app.vault.read).toHaveBeenCalledWith(template);
+      expect(app.vault.create).toHaveBeenCalledWith('🎮 Bulk Game.md', '# Bulk Game (2023)');
+    });
+
+    it('should throw when the template note is missing', async () => {
+      await plugin.loadSettings();
+      plugin.settings.noteTemplate = 'Templates/Game.md';
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+
+      await expect((plugin as any).writeGameNote(gameData)).rejects.toThrow(
+        'Template note "Templates/Game.md" not found'
+      );
+      expect(app.vault.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw when a note has the same IGDB id', async () => {
+      await plugin.loadSettings();
+      indexGameNote('Games/Bulk.md', { title: 'Bulk', igdb_id: 12345 });
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+
+      await expect((plugin as any).writeGameNote(gameData)).rejects.toThrow(
+        '"Bulk Game" is already in your backlog (Games/Bulk.md)'
+      );
+      expect(app.vault.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the file cannot be created', async () => {
+      await plugin.loadSettings();
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+      app.vault.create = vi.fn().mockRejectedValue(new Error('Create failed'));
+
+      await expect((plugin as any).writeGameNote(gameData)).rejects.toThrow('Create failed');
+    });
   });
 
   describe('openBacklogDashboard method', () => {
@@ -150,6 +392,19 @@ describe('GameBacklogPlugin methods', () => {
       expect(Notice).toHaveBeenCalledWith('Created Video Game Backlog dashboard');
     });
 
+    it('should create the dashboard at the configured path', async () => {
+      await plugin.loadSettings();
+      plugin.settings.dashboardPath = 'Gaming/Backlog';
+      app.vault.getAbstractFileByPath = vi.fn().mockReturnValue(null);
+      app.vault.create = vi.fn().mockResolvedValue({ path: 'Gaming/Backlog.md' });
+      app.workspace.getLeaf = vi.fn().mockReturnValue({ openFile: vi.fn().mockResolvedValue(undefined) });
+
+      await (plugin as any).openBacklogDashboard();
+
+      expect(app.vault.createFolder).toHaveBeenCalledWith('Gaming');
+      expect(app.vault.create).toHaveBeenCalledWith('Gaming/Backlog.md', expect.any(String));
+    });
+
     it('should open existing dashboard', async () => {
       plugin.loadData = vi.fn().mockResolvedValue({});
       await plugin.loadSettings();
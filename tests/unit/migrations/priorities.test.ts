@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+import { canonicalPriority } from '../../../src/i18n';
+import { GameLibrary } from '../../../src/library/GameLibrary';
+import { migrateDashboardPriorities, migratePriorities } from '../../../src/migrations/priorities';
+import { App, TFile } from '../../__mocks__/obsidian';
+
+/**
+ * Creates a markdown file with the given path.
+ * @param path - File path
+ * @returns Mock file
+ */
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  return file;
+}
+
+describe('canonicalPriority', () => {
+  it('should keep canonical keys', () => {
+    expect(canonicalPriority('must_play')).toBe('must_play');
+    expect(canonicalPriority('dropped')).toBe('dropped');
+  });
+
+  it('should resolve English and French labels', () => {
+    expect(canonicalPriority('Will Get Around To')).toBe('will_get_around_to');
+    expect(canonicalPriority('Plus tard')).toBe('will_get_around_to');
+    expect(canonicalPriority('Terminés')).toBe('completed');
+  });
+
+  it('should return null for unknown values', () => {
+    expect(canonicalPriority('Someday')).toBeNull();
+  });
+});
+
+describe('migratePriorities', () => {
+  let app: App;
+  let library: GameLibrary;
+  let frontmatters: Record<string, Record<string, unknown>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = new App();
+    frontmatters = {
+      'english.md': { tags: ['game'], priority: 'Must Play' },
+      'french.md': { tags: ['game'], priority: 'En cours' },
+      'canonical.md': { tags: ['game'], priority: 'completed' },
+      'unknown.md': { tags: ['game'], priority: 'Someday' },
+      'not-a-game.md': { tags: ['book'], priority: 'Must Play' },
+    };
+
+    app.vault.getMarkdownFiles = vi.fn().mockReturnValue(Object.keys(frontmatters).map(makeFile));
+    app.metadataCache.getFileCache = vi.fn((file: TFile) => ({ frontmatter: frontmatters[file.path] }));
+    app.fileManager.processFrontMatter = vi.fn(async (file: TFile, fn: (fm: any) => void) => {
+      fn(frontmatters[file.path]);
+    });
+
+    library = new GameLibrary(app as any);
+    library.rebuild();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should rewrite localized labels to canonical keys', async () => {
+    const count = await migratePriorities(app as any, library);
+
+    expect(count).toBe(2);
+    expect(frontmatters['english.md'].priority).toBe('must_play');
+    expect(frontmatters['french.md'].priority).toBe('playing');
+  });
+
+  it('should leave canonical, unknown and non-game notes untouched', async () => {
+    await migratePriorities(app as any, library);
+
+    expect(frontmatters['canonical.md'].priority).toBe('completed');
+    expect(frontmatters['unknown.md'].priority).toBe('Someday');
+    expect(frontmatters['not-a-game.md'].priority).toBe('Must Play');
+    expect(app.fileManager.processFrontMatter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should be idempotent', async () => {
+    await migratePriorities(app as any, library);
+
+    expect(await migratePriorities(app as any, library)).toBe(0);
+  });
+});
+
+describe('migrateDashboardPriorities', () => {
+  let app: App;
+  let content: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = new App();
+    const dashboard = makeFile('Backlog Dashboard.md');
+    app.vault.getAbstractFileByPath = vi.fn((path: string) => (path === dashboard.path ? dashboard : null));
+    app.vault.process = vi.fn(async (_file: TFile, fn: (data: string) => string) => {
+      content = fn(content);
+      return content;
+    });
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should rewrite the label filters of an old dashboard', async () => {
+    content = [
+      'const backlog = games.where(p => p.priority === "À jouer absolument" || p.priority === "Plus tard");',
+      'FROM #game',
+      'WHERE priority = "Playing"',
+    ].join('\n');
+
+    expect(await migrateDashboardPriorities(app as any, 'Backlog Dashboard.md')).toBe(true);
+
+    expect(content).toBe(
+      [
+        'const backlog = games.where(p => p.priority === "must_play" || p.priority === "will_get_around_to");',
+        'FROM #game',
+        'WHERE priority = "playing"',
+      ].join('\n')
+    );
+  });
+
+  it('should leave canonical and unknown filters alone', async () => {
+    content = 'WHERE priority = "completed"\nWHERE priority = "Someday"';
+
+    expect(await migrateDashboardPriorities(app as any, 'Backlog Dashboard.md')).toBe(false);
+    expect(content).toBe('WHERE priority = "completed"\nWHERE priority = "Someday"');
+  });
+
+  it('should do nothing without a dashboard', async () => {
+    expect(await migrateDashboardPriorities(app as any, 'Missing.md')).toBe(false);
+    expect(app.vault.process).not.toHaveBeenCalled();
+  });
+});
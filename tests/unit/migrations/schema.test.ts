@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+import { GameLibrary } from '../../../src/library/GameLibrary';
+import {
+  applyUpgrades,
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateFrontmatter,
+  planUpgrades,
+  SchemaMigration,
+} from '../../../src/migrations/schema';
+import { generateGameNote } from '../../../src/templates/gameNote';
+import { App, TFile } from '../../__mocks__/obsidian';
+
+/**
+ * Creates a markdown file with the given path.
+ * @param path - File path
+ * @returns Mock file
+ */
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  return file;
+}
+
+// Frontmatter as written by 1.0.4, with localized duplicates and no Note field
+const legacyFrontmatter = (): Record<string, unknown> => ({
+  title: 'Hades',
+  platform: 'Steam Deck',
+  priority: 'Plus tard',
+  platform_localized: 'Steam Deck',
+  priority_localized: 'Plus tard',
+  genres_localized: ['Action'],
+  rating: '93',
+  hltb_hours: 22,
+  igdb_id: '113112',
+  tags: ['game', 'backlog'],
+});
+
+describe('schema migrations', () => {
+  describe('getSchemaVersion', () => {
+    it('should treat unversioned notes as version 0', () => {
+      expect(getSchemaVersion({})).toBe(0);
+      expect(getSchemaVersion({ schema_version: 'junk' })).toBe(0);
+    });
+
+    it('should read the stored version', () => {
+      expect(getSchemaVersion({ schema_version: 2 })).toBe(2);
+    });
+  });
+
+  describe('migrateFrontmatter', () => {
+    it('should bring legacy notes to the current version', () => {
+      const frontmatter = legacyFrontmatter();
+
+      migrateFrontmatter(frontmatter);
+
+      expect(frontmatter).toEqual({
+        title: 'Hades',
+        platform: 'Steam Deck',
+        priority: 'will_get_around_to',
+        rating: 93,
+        hltb_hours: 22,
+        hltb_extras_hours: null,
+        hltb_completionist_hours: null,
+        planning_metric: null,
+        igdb_id: 113112,
+        Note: null,
+        tags: ['game', 'backlog'],
+        schema_version: CURRENT_SCHEMA_VERSION,
+      });
+    });
+
+    it('should report each change', () => {
+      const changes = migrateFrontmatter(legacyFrontmatter());
+
+      expect(changes).toContainEqual({ type: 'drop', field: 'platform_localized', before: 'Steam Deck', after: undefined });
+      expect(changes).toContainEqual({ type: 'default', field: 'Note', before: undefined, after: null });
+      expect(changes).toContainEqual({ type: 'retype', field: 'rating', before: '93', after: 93 });
+      expect(changes.find((c) => c.field === 'hltb_hours')).toBeUndefined();
+    });
+
+    it('should not touch notes already at the current version', () => {
+      const frontmatter = { priority: 'Plus tard', schema_version: CURRENT_SCHEMA_VERSION };
+
+      expect(migrateFrontmatter(frontmatter)).toEqual([]);
+      expect(frontmatter.priority).toBe('Plus tard');
+    });
+
+    it('should keep values it cannot convert', () => {
+      const frontmatter: Record<string, unknown> = { priority: 'Someday', rating: 'n/a', schema_version: 1 };
+
+      migrateFrontmatter(frontmatter);
+
+      expect(frontmatter.priority).toBe('Someday');
+      expect(frontmatter.rating).toBe('n/a');
+    });
+
+    it('should only run migrations newer than the note', () => {
+      const frontmatter: Record<string, unknown> = { platform_localized: 'PC', schema_version: 1 };
+
+      migrateFrontmatter(frontmatter);
+
+      expect(frontmatter.platform_localized).toBe('PC');
+      expect(frontmatter.Note).toBeUndefined();
+    });
+
+    it('should support rename operations', () => {
+      const migrations: SchemaMigration[] = [
+        { version: 1, description: 'rename', operations: [{ type: 'rename', from: 'Note', to: 'note' }] },
+      ];
+      const frontmatter: Record<string, unknown> = { Note: 'Great soundtrack' };
+
+      const changes = migrateFrontmatter(frontmatter, migrations);
+
+      expect(frontmatter).toEqual({ note: 'Great soundtrack', schema_version: 1 });
+      expect(changes).toEqual([{ type: 'rename', field: 'Note', before: 'Note', after: 'note' }]);
+    });
+
+    it('should not rename over an existing field', () => {
+      const migrations: SchemaMigration[] = [
+        { version: 1, description: 'rename', operations: [{ type: 'rename', from: 'Note', to: 'note' }] },
+      ];
+      const frontmatter: Record<string, unknown> = { Note: 'old', note: 'new' };
+
+      migrateFrontmatter(frontmatter, migrations);
+
+      expect(frontmatter.Note).toBe('old');
+      expect(frontmatter.note).toBe('new');
+    });
+
+    it('should leave freshly generated notes unchanged', () => {
+      const note = generateGameNote({
+        title: 'Hades',
+        platform: 'Steam Deck',
+        priority: 'playing',
+        rating: 93,
+        hltbHours: 22,
+        efficiency: 4.23,
+        coverUrl: null,
+        description: null,
+        igdbId: 113112,
+        genres: [],
+        releaseYear: 2020,
+      });
+
+      expect(note).toContain(`schema_version: ${CURRENT_SCHEMA_VERSION}`);
+      expect(migrateFrontmatter({ schema_version: CURRENT_SCHEMA_VERSION })).toEqual([]);
+    });
+  });
+
+  describe('planUpgrades and applyUpgrades', () => {
+    let app: App;
+    let library: GameLibrary;
+    let frontmatters: Record<string, Record<string, unknown>>;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      app = new App();
+      frontmatters = {
+        'old.md': legacyFrontmatter(),
+        'current.md': { tags: ['game'], schema_version: CURRENT_SCHEMA_VERSION },
+      };
+      app.vault.getMarkdownFiles = vi.fn().mockReturnValue(Object.keys(frontmatters).map(makeFile));
+      app.metadataCache.getFileCache = vi.fn((file: TFile) => ({ frontmatter: frontmatters[file.path] }));
+      app.fileManager.processFrontMatter = vi.fn(async (file: TFile, fn: (fm: any) => void) => {
+        fn(frontmatters[file.path]);
+      });
+
+      library = new GameLibrary(app as any);
+      library.rebuild();
+    });
+
+    afterEach(() => {
+      vi.resetAllMocks();
+    });
+
+    it('should plan upgrades for outdated notes without modifying them', () => {
+      const upgrades = planUpgrades(library);
+
+      expect(upgrades).toHaveLength(1);
+      expect(upgrades[0].file.path).toBe('old.md');
+      expect(upgrades[0].fromVersion).toBe(0);
+      expect(upgrades[0].toVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(frontmatters['old.md'].platform_localized).toBe('Steam Deck');
+    });
+
+    it('should apply upgrades through processFrontMatter', async () => {
+      const report = await applyUpgrades(app as any, planUpgrades(library));
+
+      expect(report).toEqual({ upgraded: 1, failed: [] });
+      expect(app.fileManager.processFrontMatter).toHaveBeenCalledTimes(1);
+      expect(frontmatters['old.md'].schema_version).toBe(CURRENT_SCHEMA_VERSION);
+      expect(frontmatters['old.md']).not.toHaveProperty('platform_localized');
+    });
+
+    it('should report notes that fail to upgrade', async () => {
+      app.fileManager.processFrontMatter = vi.fn().mockRejectedValue(new Error('locked'));
+
+      const report = await applyUpgrades(app as any, planUpgrades(library));
+
+      expect(report).toEqual({ upgraded: 0, failed: ['old.md'] });
+    });
+  });
+});
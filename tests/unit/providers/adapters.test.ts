@@ -0,0 +1,421 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { HltbClient } from '../../../src/api/hltb';
+import { IgdbClient } from '../../../src/api/igdb';
+import { SteamGridDbClient } from '../../../src/api/steamgriddb';
+import {
+  HltbProvider,
+  IgdbProvider,
+  SteamGridDbProvider,
+  toFacets,
+  toIgdbConditions,
+  toLinks,
+  toVideos,
+} from '../../../src/providers';
+import { mockIgdbGameById, mockIgdbGameMinimal, mockIgdbSearchResults } from '../../fixtures/igdb-responses';
+import {
+  mockSgdbGrids,
+  mockSgdbGridsUnsorted,
+  mockSgdbHeroes,
+  mockSgdbLogos,
+  mockSgdbSearchResults,
+} from '../../fixtures/steamgriddb-responses';
+
+vi.mock('obsidian', () => import('../../__mocks__/obsidian'));
+
+describe('provider adapters', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('IgdbProvider', () => {
+    it('should map search results to summaries', async () => {
+      const client = new IgdbClient('id', 'secret');
+      vi.spyOn(client, 'searchGames').mockResolvedValue(mockIgdbSearchResults);
+      const provider = new IgdbProvider(client);
+
+      const results = await provider.search('witcher', 8);
+
+      expect(client.searchGames).toHaveBeenCalledWith('witcher', 8, []);
+      expect(results[0]).toEqual({
+        providerId: 'igdb',
+        id: 1942,
+        name: 'The Witcher 3: Wild Hunt',
+        releaseYear: 2015,
+        rating: 93,
+        genres: ['Role-playing (RPG)', 'Adventure'],
+        thumbnailUrl: 'https://images.igdb.com/igdb/image/upload/t_cover_small/co1wyy.jpg',
+        coverUrl: 'https://images.igdb.com/igdb/image/upload/t_cover_big/co1wyy.jpg',
+      });
+    });
+
+    it('should pass search filters to the client as IGDB conditions', async () => {
+      const client = new IgdbClient('id', 'secret');
+      vi.spyOn(client, 'searchGames').mockResolvedValue([]);
+      const provider = new IgdbProvider(client);
+
+      await provider.search('final fantasy vii', 8, { platformFamily: 'playstation', gameType: 'main' });
+
+      expect(client.searchGames).toHaveBeenCalledWith('final fantasy vii', 8, [
+        { field: 'platforms.platform_family', operator: '=', value: 1 },
+        { field: 'category', operator: '=', value: [0] },
+      ]);
+    });
+
+    it('should map details with description', async () => {
+      const client = new IgdbClient('id', 'secret');
+      vi.spyOn(client, 'getGameById').mockResolvedValue(mockIgdbGameById);
+      const provider = new IgdbProvider(client);
+
+      const details = await provider.getDetails(1942);
+
+      expect(details?.name).toBe('The Witcher 3: Wild Hunt');
+      expect(details?.description).toBe(mockIgdbGameById.summary);
+    });
+
+    it('should map companies, franchises and tags to facets', async () => {
+      const client = new IgdbClient('id', 'secret');
+      vi.spyOn(client, 'getGameById').mockResolvedValue(mockIgdbGameById);
+      const provider = new IgdbProvider(client);
+
+      const details = await provider.getDetails(1942);
+
+      expect(details?.facets).toEqual({
+        developers: ['CD Projekt RED'],
+        publishers: ['CD Projekt', 'Bandai Namco Entertainment'],
+        franchises: ['The Witcher'],
+        gameModes: ['Single player'],
+        themes: ['Action', 'Fantasy', 'Open world'],
+        perspectives: ['Third person'],
+        engines: ['REDengine 3'],
+        keywords: ['monsters', 'magic'],
+      });
+    });
+
+    it('should map missing facet data to empty lists', () => {
+      expect(toFacets(mockIgdbGameMinimal)).toEqual({
+        developers: [],
+        publishers: [],
+        franchises: [],
+        gameModes: [],
+        themes: [],
+        perspectives: [],
+        engines: [],
+        keywords: [],
+      });
+    });
+
+    it('should map websites and external games to store links', async () => {
+      const client = new IgdbClient('id', 'secret');
+      vi.spyOn(client, 'getGameById').mockResolvedValue(mockIgdbGameById);
+      const provider = new IgdbProvider(client);
+
+      const details = await provider.getDetails(1942);
+
+      expect(details?.links).toEqual([
+        { kind: 'official', url: 'https://thewitcher.com/' },
+        { kind: 'steam', url: 'https://store.steampowered.com/app/292030/' },
+        { kind: 'gog', url: 'https://www.gog.com/game/the_witcher_3_wild_hunt' },
+      ]);
+    });
+
+    it('should recognise stores without an IGDB category by their host', () => {
+      const links = toLinks({
+        ...mockIgdbGameMinimal,
+        websites: [
+          { id: 1, url: 'https://www.nintendo.com/us/store/products/celeste-switch/', category: 0 },
+          { id: 2, url: 'https://celeste.fandom.com/wiki/Celeste', category: 2 },
+          { id: 3, url: 'https://twitter.com/celeste_game', category: 5 },
+          { id: 4, url: 'https://mattmakesgames.itch.io/celeste', category: 0 },
+        ],
+        external_games: [
+          { id: 5, category: 1, uid: '504230' },
+          { id: 6, category: 26, url: 'https://store.epicgames.com/p/celeste' },
+          { id: 7, category: 1, uid: '1' },
+        ],
+      });
+
+      expect(links).toEqual([
+        { kind: 'steam', url: 'https://store.steampowered.com/app/504230/' },
+        { kind: 'epic', url: 'https://store.epicgames.com/p/celeste' },
+        { kind: 'itch', url: 'https://mattmakesgames.itch.io/celeste' },
+        { kind: 'eshop', url: 'https://www.nintendo.com/us/store/products/celeste-switch/' },
+        { kind: 'wiki', url: 'https://celeste.fandom.com/wiki/Celeste' },
+      ]);
+      expect(toLinks(mockIgdbGameMinimal)).toEqual([]);
+    });
+
+    it('should map screenshots and artworks to image URLs at every size', async () => {
+      const client = new IgdbClient('id', 'secret');
+      vi.spyOn(client, 'getGameById').mockResolvedValue(mockIgdbGameById);
+      const provider = new IgdbProvider(client);
+
+      const details = await provider.getDetails(1942);
+
+      expect(details?.screenshots).toHaveLength(3);
+      expect(details?.screenshots?.[0]).toEqual({
+        medium: 'https://images.igdb.com/igdb/image/upload/t_screenshot_med/em1y2ugcwy2myuhvb9db.jpg',
+        large: 'https://images.igdb.com/igdb/image/upload/t_screenshot_big/em1y2ugcwy2myuhvb9db.jpg',
+        huge: 'https://images.igdb.com/igdb/image/upload/t_screenshot_huge/em1y2ugcwy2myuhvb9db.jpg',
+      });
+      expect(details?.screenshots?.[2].large).toBe('https://images.igdb.com/igdb/image/upload/t_screenshot_big/ar5l8.jpg');
+    });
+
+    it('should list trailers before other videos', () => {
+      expect(toVideos(mockIgdbGameById)).toEqual([
+        { name: 'Launch Trailer', youtubeId: 'c0i88t0Kacs' },
+        { name: 'Gameplay video', youtubeId: 'XHrskkHf958' },
+      ]);
+      expect(toVideos(mockIgdbGameMinimal)).toEqual([]);
+    });
+
+    it('should list a company that both develops and publishes in both lists', () => {
+      const facets = toFacets({
+        ...mockIgdbGameMinimal,
+        involved_companies: [{ id: 1, company: { id: 2, name: 'Nintendo' }, developer: true, publisher: true }],
+      });
+
+      expect(facets.developers).toEqual(['Nintendo']);
+      expect(facets.publishers).toEqual(['Nintendo']);
+    });
+
+    it('should return null when IGDB has no game', async () => {
+      const client = new IgdbClient('id', 'secret');
+      vi.spyOn(client, 'getGameById').mockResolvedValue(null);
+      const provider = new IgdbProvider(client);
+
+      expect(await provider.getDetails(1)).toBeNull();
+    });
+
+    it('should resolve IGDB and Steam URLs to a game', async () => {
+      const client = new IgdbClient('id', 'secret');
+      vi.spyOn(client, 'getGameBySlug').mockResolvedValue(mockIgdbGameById);
+      vi.spyOn(client, 'getGameBySteamAppId').mockResolvedValue(mockIgdbGameById);
+      const provider = new IgdbProvider(client);
+
+      const fromIgdb = await provider.resolveUrl({ source: 'igdb', slug: 'the-witcher-3-wild-hunt' });
+      const fromSteam = await provider.resolveUrl({ source: 'steam', appId: 292030 });
+
+      expect(client.getGameBySlug).toHaveBeenCalledWith('the-witcher-3-wild-hunt');
+      expect(client.getGameBySteamAppId).toHaveBeenCalledWith(292030);
+      expect(fromIgdb?.game?.id).toBe(1942);
+      expect(fromSteam?.title).toBe('The Witcher 3: Wild Hunt');
+    });
+
+    it('should ignore URLs from other sources', async () => {
+      const provider = new IgdbProvider(new IgdbClient('id', 'secret'));
+
+      expect(await provider.resolveUrl({ source: 'hltb', gameId: 10270 })).toBeNull();
+    });
+  });
+
+  describe('HltbProvider', () => {
+    it('should pass ranked HLTB candidates through with their confidence', async () => {
+      const client = new HltbClient();
+      vi.spyOn(client, 'searchCandidates').mockResolvedValue([
+        {
+          id: 10270,
+          name: 'The Witcher 3: Wild Hunt',
+          imageUrl: '',
+          mainStoryHours: 51.5,
+          mainPlusExtrasHours: 103,
+          completionistHours: 173,
+          confidence: 0.82,
+        },
+      ]);
+      const provider = new HltbProvider(client);
+
+      const candidates = await provider.getTimeToBeatCandidates('Witcher 3', 5);
+
+      expect(client.searchCandidates).toHaveBeenCalledWith('Witcher 3', 5);
+      expect(candidates).toEqual([
+        {
+          providerId: 'hltb',
+          id: 10270,
+          name: 'The Witcher 3: Wild Hunt',
+          mainStoryHours: 51.5,
+          mainPlusExtrasHours: 103,
+          completionistHours: 173,
+          confidence: 0.82,
+        },
+      ]);
+    });
+
+    it('should map HLTB results to completion times', async () => {
+      const client = new HltbClient();
+      vi.spyOn(client, 'searchGame').mockResolvedValue({
+        id: 10270,
+        name: 'The Witcher 3: Wild Hunt',
+        imageUrl: '',
+        mainStoryHours: 51.5,
+        mainPlusExtrasHours: 103,
+        completionistHours: 173,
+      });
+      const provider = new HltbProvider(client);
+
+      const times = await provider.getTimeToBeat('The Witcher 3');
+
+      expect(times).toEqual({
+        providerId: 'hltb',
+        id: 10270,
+        name: 'The Witcher 3: Wild Hunt',
+        mainStoryHours: 51.5,
+        mainPlusExtrasHours: 103,
+        completionistHours: 173,
+      });
+    });
+
+    it('should return null when HLTB has no match', async () => {
+      const client = new HltbClient();
+      vi.spyOn(client, 'searchGame').mockResolvedValue(null);
+
+      expect(await new HltbProvider(client).getTimeToBeat('Unknown')).toBeNull();
+    });
+
+    it('should pin completion times from an HLTB URL', async () => {
+      const client = new HltbClient();
+      vi.spyOn(client, 'getGameById').mockResolvedValue({
+        id: 10270,
+        name: 'The Witcher 3: Wild Hunt',
+        imageUrl: '',
+        mainStoryHours: 51.5,
+        mainPlusExtrasHours: 103,
+        completionistHours: 173,
+      });
+      const provider = new HltbProvider(client);
+
+      const match = await provider.resolveUrl({ source: 'hltb', gameId: 10270 });
+
+      expect(client.getGameById).toHaveBeenCalledWith(10270);
+      expect(match?.game).toBeNull();
+      expect(match?.title).toBe('The Witcher 3: Wild Hunt');
+      expect(match?.timeToBeat?.mainStoryHours).toBe(51.5);
+      expect(await provider.resolveUrl({ source: 'steam', appId: 1 })).toBeNull();
+    });
+  });
+
+  describe('SteamGridDbProvider', () => {
+    it('should return the best grid of the first match', async () => {
+      const client = new SteamGridDbClient('key');
+      vi.spyOn(client, 'searchGames').mockResolvedValue(mockSgdbSearchResults);
+      vi.spyOn(client, 'getBestGrid').mockResolvedValue(mockSgdbGrids[0]);
+      const provider = new SteamGridDbProvider(client);
+
+      const url = await provider.getCoverArt('The Witcher 3');
+
+      expect(client.getBestGrid).toHaveBeenCalledWith(4614);
+      expect(url).toBe(mockSgdbGrids[0].url);
+    });
+
+    it('should return null when no game matches', async () => {
+      const client = new SteamGridDbClient('key');
+      vi.spyOn(client, 'searchGames').mockResolvedValue([]);
+
+      expect(await new SteamGridDbProvider(client).getCoverArt('Unknown')).toBeNull();
+    });
+
+    it('should prefer the SteamGridDB game whose title matches exactly', async () => {
+      const client = new SteamGridDbClient('key');
+      vi.spyOn(client, 'searchGames').mockResolvedValue([
+        { ...mockSgdbSearchResults[1], release_date: 1431993600 },
+        mockSgdbSearchResults[0],
+      ]);
+      const provider = new SteamGridDbProvider(client);
+
+      const games = await provider.findArtworkGames('the witcher 3 - wild hunt');
+
+      expect(games).toEqual([
+        { providerId: 'steamgriddb', id: 4614, name: 'The Witcher 3: Wild Hunt', releaseYear: null },
+        {
+          providerId: 'steamgriddb',
+          id: 4615,
+          name: 'The Witcher 3: Wild Hunt - Game of the Year Edition',
+          releaseYear: 2015,
+        },
+      ]);
+    });
+
+    it('should list safe grids, heroes and logos, best scored first', async () => {
+      const client = new SteamGridDbClient('key');
+      vi.spyOn(client, 'getGrids').mockResolvedValue([
+        ...mockSgdbGridsUnsorted,
+        { ...mockSgdbGrids[0], id: 1, score: 999, nsfw: true },
+      ]);
+      vi.spyOn(client, 'getHeroes').mockResolvedValue(mockSgdbHeroes);
+      vi.spyOn(client, 'getLogos').mockResolvedValue([...mockSgdbLogos, { ...mockSgdbLogos[0], id: 2, humor: true }]);
+      const provider = new SteamGridDbProvider(client);
+
+      const artwork = await provider.getArtwork(4614, 2);
+
+      expect(client.getGrids).toHaveBeenCalledWith(4614, { nsfw: false, humor: false });
+      expect(artwork.grids.map((image) => image.id)).toEqual([mockSgdbGrids[0].id, mockSgdbGrids[1].id]);
+      expect(artwork.heroes).toEqual([
+        {
+          id: 234567,
+          url: mockSgdbHeroes[0].url,
+          thumbnailUrl: mockSgdbHeroes[0].thumb,
+          width: 1920,
+          height: 620,
+        },
+      ]);
+      expect(artwork.logos.map((image) => image.id)).toEqual([345678]);
+    });
+
+    it('should pin the best grid from a SteamGridDB URL', async () => {
+      const client = new SteamGridDbClient('key');
+      vi.spyOn(client, 'getGameById').mockResolvedValue({ ...mockSgdbSearchResults[0], release_date: 1431993600 });
+      vi.spyOn(client, 'getBestGrid').mockResolvedValue(mockSgdbGrids[0]);
+      const provider = new SteamGridDbProvider(client);
+
+      const match = await provider.resolveUrl({ source: 'sgdb', gameId: 4614 });
+
+      expect(match).toEqual({
+        game: null,
+        title: 'The Witcher 3: Wild Hunt',
+        releaseYear: 2015,
+        timeToBeat: null,
+        coverUrl: mockSgdbGrids[0].url,
+      });
+    });
+  });
+
+  describe('toIgdbConditions', () => {
+    const now = Date.UTC(2024, 5, 1);
+
+    it('should produce no conditions without filters', () => {
+      expect(toIgdbConditions({}, now)).toEqual([]);
+      expect(toIgdbConditions({ platformFamily: null, yearFrom: null, release: null }, now)).toEqual([]);
+    });
+
+    it('should list platform ids for families IGDB does not model', () => {
+      expect(toIgdbConditions({ platformFamily: 'pc' }, now)).toEqual([
+        { field: 'platforms', operator: '=', value: [6, 14, 3] },
+      ]);
+    });
+
+    it('should turn an inclusive year range into release date bounds', () => {
+      expect(toIgdbConditions({ yearFrom: 1997, yearTo: 1997 }, now)).toEqual([
+        { field: 'first_release_date', operator: '>=', value: Date.UTC(1997, 0, 1) / 1000 },
+        { field: 'first_release_date', operator: '<', value: Date.UTC(1998, 0, 1) / 1000 },
+      ]);
+    });
+
+    it('should match remakes and remasters together', () => {
+      expect(toIgdbConditions({ gameType: 'remake' }, now)).toEqual([
+        { field: 'category', operator: '=', value: [8, 9] },
+      ]);
+    });
+
+    it('should treat games without a release date as unreleased', () => {
+      expect(toIgdbConditions({ release: 'released' }, now)).toEqual([
+        { field: 'first_release_date', operator: '<=', value: now / 1000 },
+      ]);
+      expect(toIgdbConditions({ release: 'unreleased' }, now)).toEqual([
+        [
+          { field: 'first_release_date', operator: '>', value: now / 1000 },
+          { field: 'first_release_date', operator: '=', value: null },
+        ],
+      ]);
+    });
+  });
+});
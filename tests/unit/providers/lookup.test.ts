@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  calculateEfficiency,
+  fetchTimeToBeatCandidates,
+  findExactMatch,
+  ProviderRegistry,
+  selectPlanningHours,
+  titleSimilarity,
+  toPlanningHours,
+} from '../../../src/providers';
+import type { MetadataProvider } from '../../../src/providers';
+import { InMemoryProvider, memoryWitcher, memoryWitcherTimes } from '../../fixtures/providers';
+
+describe('lookup helpers', () => {
+  describe('findExactMatch', () => {
+    const original = { ...memoryWitcher };
+    const remaster = { ...memoryWitcher, id: 2, releaseYear: 2022 };
+
+    it('should ignore case and punctuation', () => {
+      expect(findExactMatch([original], 'the witcher 3 wild hunt')).toBe(original);
+    });
+
+    it('should use the release year to break ties', () => {
+      expect(findExactMatch([original, remaster], memoryWitcher.name, 2022)).toBe(remaster);
+      expect(findExactMatch([original, remaster], memoryWitcher.name)).toBeNull();
+    });
+  });
+
+  describe('titleSimilarity', () => {
+    it('should treat titles differing only in case and punctuation as equal', () => {
+      expect(titleSimilarity('The Witcher 3: Wild Hunt', 'the witcher 3 - wild hunt')).toBe(1);
+    });
+
+    it('should rate editions and subtitles as close', () => {
+      expect(titleSimilarity('Hades', 'Hades: Game of the Year Edition')).toBe(0.9);
+      expect(titleSimilarity('Celest', 'Celeste')).toBeCloseTo(0.86, 2);
+    });
+
+    it('should rate unrelated titles low', () => {
+      expect(titleSimilarity('Hades', 'Hollow Knight')).toBeLessThan(0.5);
+      expect(titleSimilarity('', 'Hades')).toBe(0);
+    });
+  });
+
+  describe('calculateEfficiency', () => {
+    it('should divide rating by hours', () => {
+      expect(calculateEfficiency(93, 51.5)).toBe(1.81);
+      expect(calculateEfficiency(null, 10)).toBeNull();
+      expect(calculateEfficiency(80, 0)).toBeNull();
+    });
+  });
+
+  describe('planning hours', () => {
+    it('should collect the hours of each metric', () => {
+      expect(toPlanningHours(memoryWitcherTimes)).toEqual({ main: 51.5, extras: 103, completionist: 173 });
+      expect(toPlanningHours({ ...memoryWitcherTimes, completionistHours: 0 }).completionist).toBeNull();
+      expect(toPlanningHours(null)).toEqual({ main: null, extras: null, completionist: null });
+    });
+
+    it('should pick the chosen metric and fall back to the main story', () => {
+      const hours = { main: 20, extras: 30, completionist: null };
+
+      expect(selectPlanningHours(hours, 'extras')).toBe(30);
+      expect(selectPlanningHours(hours, 'completionist')).toBe(20);
+      expect(selectPlanningHours(toPlanningHours(null), 'main')).toBeNull();
+    });
+  });
+
+  describe('fetchTimeToBeatCandidates', () => {
+    it('should return the ranked candidates of the first time-to-beat provider', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(
+        new InMemoryProvider('times', ['timeToBeat'], {
+          timeToBeatCandidates: {
+            Witcher: [
+              { ...memoryWitcherTimes, confidence: 0.6 },
+              { ...memoryWitcherTimes, id: 2, confidence: 0.4 },
+            ],
+          },
+        })
+      );
+
+      const candidates = await fetchTimeToBeatCandidates(registry, 'Witcher', 1);
+
+      expect(candidates).toEqual([{ ...memoryWitcherTimes, confidence: 0.6 }]);
+    });
+
+    it('should wrap the single match of providers that do not rank', async () => {
+      const registry = new ProviderRegistry();
+      const provider: MetadataProvider = {
+        id: 'single',
+        capabilities: ['timeToBeat'],
+        getTimeToBeat: async () => memoryWitcherTimes,
+      };
+      registry.register(provider);
+
+      expect(await fetchTimeToBeatCandidates(registry, 'Witcher')).toEqual([
+        { ...memoryWitcherTimes, confidence: null },
+      ]);
+    });
+
+    it('should return no candidates when the provider fails', async () => {
+      const registry = new ProviderRegistry();
+      registry.register({
+        id: 'broken',
+        capabilities: ['timeToBeat'],
+        getTimeToBeatCandidates: async () => {
+          throw new Error('offline');
+        },
+      });
+
+      expect(await fetchTimeToBeatCandidates(registry, 'Witcher')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+
+import { ProviderRegistry } from '../../../src/providers';
+import { InMemoryProvider } from '../../fixtures/providers';
+
+describe('ProviderRegistry', () => {
+  it('should return null when no provider is registered', () => {
+    const registry = new ProviderRegistry();
+    expect(registry.get('igdb')).toBeNull();
+    expect(registry.first('search')).toBeNull();
+    expect(registry.withCapability('artwork')).toEqual([]);
+  });
+
+  it('should find providers by id', () => {
+    const registry = new ProviderRegistry();
+    const provider = new InMemoryProvider('memory', ['search'], {});
+    registry.register(provider);
+
+    expect(registry.get('memory')).toBe(provider);
+  });
+
+  it('should filter providers by capability in registration order', () => {
+    const registry = new ProviderRegistry();
+    const search = new InMemoryProvider('search', ['search', 'details'], {});
+    const artA = new InMemoryProvider('art-a', ['artwork'], {});
+    const artB = new InMemoryProvider('art-b', ['artwork'], {});
+    registry.register(search);
+    registry.register(artA);
+    registry.register(artB);
+
+    expect(registry.withCapability('artwork')).toEqual([artA, artB]);
+    expect(registry.first('details')).toBe(search);
+    expect(registry.first('timeToBeat')).toBeNull();
+  });
+
+  it('should replace a provider registered under the same id', () => {
+    const registry = new ProviderRegistry();
+    const first = new InMemoryProvider('memory', ['search'], {});
+    const second = new InMemoryProvider('memory', ['artwork'], {});
+    registry.register(first);
+    registry.register(second);
+
+    expect(registry.all()).toEqual([second]);
+    expect(registry.first('search')).toBeNull();
+  });
+
+  it('should unregister providers', () => {
+    const registry = new ProviderRegistry();
+    registry.register(new InMemoryProvider('memory', ['search'], {}));
+    registry.unregister('memory');
+
+    expect(registry.all()).toEqual([]);
+  });
+});
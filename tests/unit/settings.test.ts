@@ -29,8 +29,8 @@ describe('settings', () => {
       expect(DEFAULT_SETTINGS.defaultPlatform).toBe('Steam Deck');
     });
 
-    it('should have Plus tard as default priority', () => {
-      expect(DEFAULT_SETTINGS.defaultPriority).toBe('Plus tard');
+    it('should have will_get_around_to as default priority', () => {
+      expect(DEFAULT_SETTINGS.defaultPriority).toBe('will_get_around_to');
     });
 
     it('should match GameBacklogSettings interface structure', () => {
@@ -84,24 +84,24 @@ describe('settings', () => {
       expect(PRIORITIES).toHaveLength(5);
     });
 
-    it('should contain À jouer absolument', () => {
-      expect(PRIORITIES).toContain("À jouer absolument");
+    it('should contain must_play', () => {
+      expect(PRIORITIES).toContain('must_play');
     });
 
-    it('should contain Plus tard', () => {
-      expect(PRIORITIES).toContain('Plus tard');
+    it('should contain will_get_around_to', () => {
+      expect(PRIORITIES).toContain('will_get_around_to');
     });
 
-    it('should contain En cours', () => {
-      expect(PRIORITIES).toContain('En cours');
+    it('should contain playing', () => {
+      expect(PRIORITIES).toContain('playing');
     });
 
-    it('should contain Terminés', () => {
-      expect(PRIORITIES).toContain('Terminés');
+    it('should contain completed', () => {
+      expect(PRIORITIES).toContain('completed');
     });
 
-    it('should contain Abandonné', () => {
-      expect(PRIORITIES).toContain('Abandonné');
+    it('should contain dropped', () => {
+      expect(PRIORITIES).toContain('dropped');
     });
 
     it('should be a readonly array', () => {
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+
+import { renderTemplate, TemplateError } from '../../../src/templates/engine';
+
+describe('renderTemplate', () => {
+  const context = {
+    title: 'Hades',
+    rating: 93,
+    hours: 0,
+    description: null,
+    genres: ['Roguelike', 'Action'],
+    studio: { name: 'Supergiant', country: 'US' },
+  };
+
+  it('should fill placeholders and dotted names', () => {
+    expect(renderTemplate('# {{ title }} by {{studio.name}}', context)).toBe('# Hades by Supergiant');
+  });
+
+  it('should render unknown and null values as empty text', () => {
+    expect(renderTemplate('[{{description}}][{{missing}}][{{studio.city}}]', context)).toBe('[][][]');
+  });
+
+  it('should join lists and quote values for YAML', () => {
+    expect(renderTemplate('{{genres}}', context)).toBe('Roguelike, Action');
+    expect(renderTemplate('title: {{title|yaml}}\ngenres: {{genres|yaml}}\nnote: {{description | yaml}}', context)).toBe(
+      'title: "Hades"\ngenres: ["Roguelike", "Action"]\nnote: null'
+    );
+  });
+
+  it('should render conditionals with an else branch', () => {
+    const template = '{{#if rating}}Rated {{rating}}{{else}}Unrated{{/if}}, {{#if hours}}{{hours}}h{{else}}no time{{/if}}';
+
+    expect(renderTemplate(template, context)).toBe('Rated 93, no time');
+  });
+
+  it('should loop over lists, with the item, its position and outer values', () => {
+    const template = '{{#each genres}}{{@index}}. {{this}} ({{title}})\n{{/each}}{{#each tags}}x{{else}}No tags{{/each}}';
+
+    expect(renderTemplate(template, context)).toBe('1. Roguelike (Hades)\n2. Action (Hades)\nNo tags');
+  });
+
+  it('should nest blocks', () => {
+    expect(renderTemplate('{{#if genres}}{{#each genres}}{{#if this}}[{{this}}]{{/if}}{{/each}}{{/if}}', context)).toBe(
+      '[Roguelike][Action]'
+    );
+  });
+
+  it('should reject malformed templates', () => {
+    expect(() => renderTemplate('{{#if rating}}open', context)).toThrow(TemplateError);
+    expect(() => renderTemplate('{{#if rating}}{{/each}}', context)).toThrow('Unexpected "{{/each}}"');
+    expect(() => renderTemplate('{{#with studio}}{{/with}}', context)).toThrow('Unknown block');
+    expect(() => renderTemplate('{{title|upper}}', context)).toThrow('Unknown filter "upper"');
+  });
+});
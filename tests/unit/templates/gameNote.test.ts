@@ -3,6 +3,7 @@ import { describe, it, expect } from 'vitest';
 import {
   generateGameNote,
   generateFileName,
+  generateNotePath,
 } from '../../../src/templates/gameNote';
 import type { GameData } from '../../../src/ui/AddGameModal';
 
@@ -44,6 +45,29 @@ describe('gameNote', () => {
     });
   });
 
+  describe('generateNotePath', () => {
+    const hades = { title: 'Hades: Battle', releaseYear: 2020, platform: 'Steam Deck', igdbId: 113112 };
+
+    it('should fill placeholders and put the note in the folder', () => {
+      const naming = { folder: 'Gaming/Games/', pattern: '{title} ({year}) [{platform}]', emoji: '' };
+
+      expect(generateNotePath(hades, naming)).toBe('Gaming/Games/Hades Battle (2020) [Steam Deck].md');
+    });
+
+    it('should drop empty placeholders with their brackets and separators', () => {
+      const naming = { folder: '', pattern: '{title} ({year}) - {igdb_id}', emoji: '🎲' };
+
+      expect(generateNotePath({ ...hades, releaseYear: null, igdbId: null }, naming)).toBe('🎲 Hades Battle.md');
+    });
+
+    it('should fall back to the title when the pattern yields nothing', () => {
+      expect(generateNotePath(hades, { folder: '/', pattern: '{year}', emoji: '' })).toBe('2020.md');
+      expect(generateNotePath({ ...hades, releaseYear: null }, { folder: '/', pattern: '{year}', emoji: '' })).toBe(
+        'Hades Battle.md'
+      );
+    });
+  });
+
   describe('generateGameNote', () => {
     const completeGameData: GameData = {
       title: 'The Witcher 3: Wild Hunt',
@@ -51,8 +75,13 @@ describe('gameNote', () => {
       priority: 'À jouer absolument',
       rating: 92,
       hltbHours: 50.5,
+      hltbExtrasHours: 103,
+      hltbCompletionistHours: 173,
+      planningMetric: null,
       efficiency: 1.82,
       coverUrl: 'https://images.igdb.com/igdb/image/upload/t_cover_big/co1wyy.jpg',
+      heroUrl: null,
+      logoUrl: null,
       description: 'An action role-playing game set in an open world environment.',
       igdbId: 1942,
       genres: ['Role-playing (RPG)', 'Adventure'],
@@ -69,6 +98,9 @@ describe('gameNote', () => {
       expect(result).toContain('priority: "À jouer absolument"');
       expect(result).toContain('rating: 92');
       expect(result).toContain('hltb_hours: 50.5');
+      expect(result).toContain('hltb_extras_hours: 103');
+      expect(result).toContain('hltb_completionist_hours: 173');
+      expect(result).toContain('planning_metric: null');
       expect(result).toContain('efficiency: 1.82');
       expect(result).toContain('cover: "https://images.igdb.com/igdb/image/upload/t_cover_big/co1wyy.jpg"');
       expect(result).toContain('igdb_id: 1942');
@@ -99,8 +131,13 @@ describe('gameNote', () => {
         priority: 'Plus tard',
         rating: null,
         hltbHours: null,
+        hltbExtrasHours: null,
+        hltbCompletionistHours: null,
+        planningMetric: null,
         efficiency: null,
         coverUrl: null,
+        heroUrl: null,
+        logoUrl: null,
         description: null,
         igdbId: null,
         genres: [],
@@ -114,8 +151,12 @@ describe('gameNote', () => {
       expect(result).toContain('priority: "Plus tard"');
       expect(result).toContain('rating: null');
       expect(result).toContain('hltb_hours: null');
+      expect(result).toContain('hltb_extras_hours: null');
+      expect(result).toContain('hltb_completionist_hours: null');
       expect(result).toContain('efficiency: null');
       expect(result).not.toContain('cover:');
+      expect(result).not.toContain('hero:');
+      expect(result).not.toContain('logo:');
       expect(result).not.toContain('igdb_id:');
       expect(result).not.toContain('release_year:');
       expect(result).not.toContain('genres:');
@@ -124,6 +165,172 @@ describe('gameNote', () => {
       expect(result).toContain('## Notes');
     });
 
+    it('should write the planning metric chosen for the game', () => {
+      const result = generateGameNote({ ...completeGameData, planningMetric: 'completionist', efficiency: 0.53 });
+
+      expect(result).toContain('planning_metric: "completionist"');
+      expect(result).toContain('efficiency: 0.53');
+    });
+
+    it('should write picked hero and logo artwork', () => {
+      const result = generateGameNote({
+        ...completeGameData,
+        heroUrl: 'https://example.com/hero.png',
+        logoUrl: 'https://example.com/logo.png',
+      });
+
+      expect(result).toContain('hero: "https://example.com/hero.png"');
+      expect(result).toContain('logo: "https://example.com/logo.png"');
+      expect(result.indexOf('![hero](https://example.com/hero.png)')).toBeLessThan(result.indexOf('![cover]'));
+    });
+
+    it('should link and embed artwork stored in the vault', () => {
+      const result = generateGameNote({ ...completeGameData, coverUrl: 'Attachments/Games/The Witcher 3 - cover.jpg' });
+
+      expect(result).toContain('cover: "[[Attachments/Games/The Witcher 3 - cover.jpg]]"');
+      expect(result).toContain('![[Attachments/Games/The Witcher 3 - cover.jpg]]');
+      expect(result).not.toContain('![cover]');
+    });
+
+    it('should write known facets as frontmatter lists after the genres', () => {
+      const result = generateGameNote({
+        ...completeGameData,
+        facets: {
+          developers: ['CD Projekt RED'],
+          publishers: ['CD Projekt', 'Bandai Namco Entertainment'],
+          franchises: ['The Witcher'],
+          gameModes: ['Single player'],
+          themes: [],
+          perspectives: ['Third person'],
+          engines: [],
+          keywords: [],
+        },
+      });
+
+      expect(result).toContain('developers:\n  - "CD Projekt RED"\n');
+      expect(result).toContain('publishers:\n  - "CD Projekt"\n  - "Bandai Namco Entertainment"\n');
+      expect(result).toContain('game_modes:\n  - "Single player"\n');
+      expect(result).toContain('perspectives:\n  - "Third person"\n');
+      expect(result.indexOf('genres:')).toBeLessThan(result.indexOf('developers:'));
+      expect(result).not.toContain('themes:');
+      expect(result).not.toContain('engines:');
+      expect(result).not.toContain('keywords:');
+    });
+
+    it('should omit facets for games without them', () => {
+      const result = generateGameNote({ ...completeGameData, facets: null });
+
+      expect(result).not.toContain('developers:');
+      expect(result).not.toContain('franchises:');
+    });
+
+    it('should write store links as properties and a Links section', () => {
+      const result = generateGameNote(
+        {
+          ...completeGameData,
+          links: [
+            { kind: 'official', url: 'https://thewitcher.com/' },
+            { kind: 'steam', url: 'https://store.steampowered.com/app/292030/' },
+            { kind: 'wiki', url: 'https://witcher.fandom.com/wiki/The_Witcher_3_(Wild_Hunt)' },
+          ],
+        },
+        'fr'
+      );
+
+      expect(result).toContain('official_url: "https://thewitcher.com/"');
+      expect(result).toContain('steam_url: "https://store.steampowered.com/app/292030/"');
+      expect(result).toContain(
+        [
+          '## Liens',
+          '',
+          '- [Site officiel](https://thewitcher.com/)',
+          '- [Steam](https://store.steampowered.com/app/292030/)',
+          '- [Wiki](https://witcher.fandom.com/wiki/The_Witcher_3_%28Wild_Hunt%29)',
+        ].join('\n')
+      );
+      expect(result.indexOf('## Liens')).toBeLessThan(result.indexOf('## Notes'));
+    });
+
+    it('should leave out the Links section without links', () => {
+      const result = generateGameNote({ ...completeGameData, links: [] });
+
+      expect(result).not.toContain('## Links');
+      expect(result).not.toContain('_url:');
+    });
+
+    describe('screenshots and trailers', () => {
+      const mediaData: GameData = {
+        ...completeGameData,
+        screenshots: ['a', 'b', 'c'].map((id) => ({
+          medium: `https://img.example.com/med/${id}.jpg`,
+          large: `https://img.example.com/big/${id}.jpg`,
+          huge: `https://img.example.com/huge/${id}.jpg`,
+        })),
+        videos: [
+          { name: 'Launch Trailer', youtubeId: 'c0i88t0Kacs' },
+          { name: null, youtubeId: 'XHrskkHf958' },
+          { name: 'Gameplay video', youtubeId: 'abc' },
+        ],
+      };
+
+      it('should leave them out by default', () => {
+        const result = generateGameNote(mediaData);
+
+        expect(result).not.toContain('## Screenshots');
+        expect(result).not.toContain('## Trailers');
+      });
+
+      it('should add a gallery of the chosen count and size', () => {
+        const result = generateGameNote(mediaData, 'en', null, {
+          screenshots: 2,
+          screenshotSize: 'medium',
+          trailers: false,
+        });
+
+        expect(result).toContain(
+          '## Screenshots\n\n![screenshot](https://img.example.com/med/a.jpg)\n![screenshot](https://img.example.com/med/b.jpg)\n'
+        );
+        expect(result).not.toContain('/c.jpg');
+        expect(result).not.toContain('## Trailers');
+      });
+
+      it('should embed the first trailers as YouTube players', () => {
+        const result = generateGameNote(mediaData, 'fr', null, { screenshots: 0, screenshotSize: 'large', trailers: true });
+
+        expect(result).toContain('## Bandes-annonces');
+        expect(result).toContain('![Launch Trailer](https://www.youtube.com/watch?v=c0i88t0Kacs)');
+        expect(result).toContain('![Bande-annonce](https://www.youtube.com/watch?v=XHrskkHf958)');
+        expect(result).not.toContain('watch?v=abc');
+        expect(result.indexOf('## Bandes-annonces')).toBeLessThan(result.indexOf('## Notes'));
+      });
+
+      it('should embed downloaded screenshots from the vault', () => {
+        const result = generateGameNote(
+          { ...mediaData, screenshots: [{ ...mediaData.screenshots![0], large: 'Attachments/Games/The Witcher 3 - screenshot 1.jpg' }] },
+          'en',
+          null,
+          { screenshots: 4, screenshotSize: 'large', trailers: false }
+        );
+
+        expect(result).toContain('![[Attachments/Games/The Witcher 3 - screenshot 1.jpg]]');
+      });
+
+      it('should offer them to user templates', () => {
+        const template = '{{#each screenshots}}{{this}}\n{{/each}}{{#each trailers}}[{{name}}]({{url}})\n{{/each}}';
+
+        const result = generateGameNote(mediaData, 'en', template, { screenshots: 1, screenshotSize: 'huge', trailers: true });
+
+        expect(result).toBe(
+          [
+            '![screenshot](https://img.example.com/huge/a.jpg)',
+            '[Launch Trailer](https://www.youtube.com/watch?v=c0i88t0Kacs)',
+            '[Trailer](https://www.youtube.com/watch?v=XHrskkHf958)',
+            '',
+          ].join('\n')
+        );
+      });
+    });
+
     it('should escape quotes in title', () => {
       const dataWithQuotes: GameData = {
         title: 'Game "With" Quotes',
@@ -312,5 +519,91 @@ describe('gameNote', () => {
         expect(result).toContain(`**Platform:** ${platform}`);
       }
     });
+
+    it('should render a user template instead of the built-in layout', () => {
+      const template = [
+        '---',
+        'title: {{title|yaml}}',
+        'cover: {{cover_url|yaml}}',
+        'hltb_hours: {{hltb_main|yaml}}',
+        'genres: {{genres|yaml}}',
+        'tags: [game]',
+        '---',
+        '{{cover}}',
+        '{{#if description}}> {{description}}{{/if}}',
+        '{{#each genres}}- [[{{this}}]]',
+        '{{/each}}',
+      ].join('\n');
+
+      const result = generateGameNote({ ...completeGameData, coverUrl: 'Attachments/Witcher - cover.png' }, 'en', template);
+
+      expect(result).toBe(
+        [
+          '---',
+          'title: "The Witcher 3: Wild Hunt"',
+          'cover: "[[Attachments/Witcher - cover.png]]"',
+          'hltb_hours: 50.5',
+          'genres: ["Role-playing (RPG)", "Adventure"]',
+          'tags: [game]',
+          '---',
+          '![[Attachments/Witcher - cover.png]]',
+          '> An action role-playing game set in an open world environment.',
+          '- [[Role-playing (RPG)]]',
+          '- [[Adventure]]',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should offer store links to user templates', () => {
+      const template = 'steam_url: {{steam_url|yaml}}\n{{#each links}}- [{{label}}]({{url}})\n{{/each}}';
+
+      const result = generateGameNote(
+        {
+          ...completeGameData,
+          links: [
+            { kind: 'steam', url: 'https://store.steampowered.com/app/292030/' },
+            { kind: 'gog', url: 'https://www.gog.com/game/the_witcher_3_wild_hunt' },
+          ],
+        },
+        'en',
+        template
+      );
+
+      expect(result).toBe(
+        [
+          'steam_url: "https://store.steampowered.com/app/292030/"',
+          '- [Steam](https://store.steampowered.com/app/292030/)',
+          '- [GOG](https://www.gog.com/game/the_witcher_3_wild_hunt)',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should offer facets to user templates by frontmatter name', () => {
+      const template = 'developers: {{developers|yaml}}\ngame_modes: {{game_modes|yaml}}\nkeywords: {{keywords|yaml}}';
+
+      const result = generateGameNote(
+        {
+          ...completeGameData,
+          facets: {
+            developers: ['FromSoftware'],
+            publishers: [],
+            franchises: [],
+            gameModes: ['Single player', 'Co-operative'],
+            themes: [],
+            perspectives: [],
+            engines: [],
+            keywords: [],
+          },
+        },
+        'en',
+        template
+      );
+
+      expect(result).toBe(
+        'developers: ["FromSoftware"]\ngame_modes: ["Single player", "Co-operative"]\nkeywords: []'
+      );
+    });
   });
 });
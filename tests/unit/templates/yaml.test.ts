@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from 'yaml';
+
+import { generateGameNote } from '../../../src/templates/gameNote';
+import { formatYamlScalar, stringifyFrontmatter } from '../../../src/templates/yaml';
+import type { GameData } from '../../../src/ui/AddGameModal';
+
+// Characters that break hand-written YAML: indicators, quotes, escapes, breaks and odd code points
+const WEIRD_CHARACTERS = [
+  ...'abcXYZ019 .,:;-?!@*&|>%#\'"`\\/[]{}()=~^$',
+  '\n', '\r', '\t', '\0', '\u0007', '\u001b', '\u007f', '\u0085', '\u00a0', '\u2028', '\u2029', '\ufeff',
+  'é', 'ß', '東', '🎮', '👩\u200d🚀',
+];
+
+// Whole strings that YAML parsers turn into other types when unquoted
+const WEIRD_WORDS = ['null', '~', 'true', 'No', 'on', 'y', '0x1F', '1e3', '.inf', '.NaN', '2024-01-01', '12:30', '- a', '? b', '<<', '---', '...'];
+
+/**
+ * Creates a seeded pseudo-random generator, so failures are reproducible.
+ * @param seed - Initial state
+ * @returns Function returning numbers in [0, 1)
+ */
+function random(seed: number): () => number {
+  let state = seed % 2147483647 || 1;
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+}
+
+/**
+ * Generates a string that YAML is likely to misread.
+ * @param next - Random generator
+ * @returns Weird string
+ */
+function weirdString(next: () => number): string {
+  if (next() < 0.2) return WEIRD_WORDS[Math.floor(next() * WEIRD_WORDS.length)];
+  const length = Math.floor(next() * 24);
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += WEIRD_CHARACTERS[Math.floor(next() * WEIRD_CHARACTERS.length)];
+  }
+  return text;
+}
+
+/**
+ * Parses the frontmatter block at the top of a note.
+ * @param note - Note content
+ * @param version - YAML version to parse with
+ * @returns Parsed frontmatter
+ */
+function parseFrontmatter(note: string, version: '1.1' | '1.2' = '1.2'): Record<string, unknown> {
+  const match = /^---\n([\s\S]*?)\n---(?:\n|$)/.exec(note);
+  if (!match) throw new Error('No frontmatter');
+  return parse(match[1], { version });
+}
+
+const baseData: GameData = {
+  title: 'Hades',
+  platform: 'Steam Deck',
+  priority: 'must_play',
+  rating: 93,
+  hltbHours: 22.5,
+  hltbExtrasHours: null,
+  hltbCompletionistHours: 95,
+  planningMetric: 'extras',
+  efficiency: 4.13,
+  coverUrl: 'https://example.com/cover.png?size=big&x=1',
+  heroUrl: 'Attachments/Games/Hades - hero.png',
+  logoUrl: null,
+  description: null,
+  igdbId: 113112,
+  genres: ['Roguelike', 'Action'],
+  releaseYear: 2020,
+};
+
+describe('yaml', () => {
+  describe('formatYamlScalar', () => {
+    it('should quote and escape strings', () => {
+      expect(formatYamlScalar('Say "hi" \\ bye')).toBe('"Say \\"hi\\" \\\\ bye"');
+      expect(formatYamlScalar('Line\nbreak\ttab')).toBe('"Line\\nbreak\\ttab"');
+      expect(formatYamlScalar('\u0000\u007f\u0085\u2028\ufeff')).toBe('"\\0\\x7F\\N\\L\\uFEFF"');
+    });
+
+    it('should replace unpaired surrogates and keep emoji', () => {
+      expect(formatYamlScalar('a\ud800b🎮')).toBe('"a\ufffdb🎮"');
+    });
+
+    it('should write non-string values in their YAML form', () => {
+      expect(formatYamlScalar(null)).toBe('null');
+      expect(formatYamlScalar(false)).toBe('false');
+      expect(formatYamlScalar(-1.5)).toBe('-1.5');
+      expect(formatYamlScalar(NaN)).toBe('.nan');
+      expect(formatYamlScalar(-Infinity)).toBe('-.inf');
+      expect(formatYamlScalar(new Date('2026-10-19T23:30:00Z'))).toBe('2026-10-19');
+    });
+
+    it('should leave only unambiguous words unquoted in plain mode', () => {
+      expect(formatYamlScalar('game', true)).toBe('game');
+      expect(formatYamlScalar('gaming/rpg', true)).toBe('gaming/rpg');
+      expect(formatYamlScalar('yes', true)).toBe('"yes"');
+      expect(formatYamlScalar('2024', true)).toBe('"2024"');
+      expect(formatYamlScalar('two words', true)).toBe('"two words"');
+    });
+  });
+
+  describe('stringifyFrontmatter', () => {
+    it('should write lists as block sequences and empty lists inline', () => {
+      expect(
+        stringifyFrontmatter(
+          [
+            ['title', 'Celeste'],
+            ['genres', ['Platform']],
+            ['aliases', []],
+            ['tags', ['game']],
+          ],
+          { plainKeys: ['tags'] }
+        )
+      ).toBe('---\ntitle: "Celeste"\ngenres:\n  - "Platform"\naliases: []\ntags:\n  - game\n---');
+    });
+  });
+
+  describe('generated frontmatter', () => {
+    it('should round-trip every field', () => {
+      const frontmatter = parseFrontmatter(generateGameNote(baseData));
+
+      expect(frontmatter).toMatchObject({
+        title: 'Hades',
+        platform: 'Steam Deck',
+        priority: 'must_play',
+        rating: 93,
+        hltb_hours: 22.5,
+        hltb_extras_hours: null,
+        hltb_completionist_hours: 95,
+        planning_metric: 'extras',
+        efficiency: 4.13,
+        cover: 'https://example.com/cover.png?size=big&x=1',
+        hero: '[[Attachments/Games/Hades - hero.png]]',
+        igdb_id: 113112,
+        release_year: 2020,
+        genres: ['Roguelike', 'Action'],
+        Note: null,
+        tags: ['game', 'backlog'],
+      });
+      expect(frontmatter.added).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+
+    it('should round-trip weird titles, platforms, priorities and genres', () => {
+      const next = random(20261019);
+      for (let run = 0; run < 300; run++) {
+        const data = {
+          ...baseData,
+          title: weirdString(next),
+          platform: weirdString(next),
+          priority: weirdString(next),
+          genres: [weirdString(next), weirdString(next)],
+          facets: {
+            developers: [weirdString(next)],
+            publishers: [],
+            franchises: [weirdString(next)],
+            gameModes: [],
+            themes: [],
+            perspectives: [],
+            engines: [],
+            keywords: [weirdString(next), weirdString(next)],
+          },
+        } as GameData;
+
+        const note = generateGameNote(data);
+
+        for (const version of ['1.1', '1.2'] as const) {
+          const frontmatter = parseFrontmatter(note, version);
+          expect(frontmatter.title, JSON.stringify(data.title)).toBe(data.title);
+          expect(frontmatter.platform, JSON.stringify(data.platform)).toBe(data.platform);
+          expect(frontmatter.priority, JSON.stringify(data.priority)).toBe(data.priority);
+          expect(frontmatter.genres, JSON.stringify(data.genres)).toEqual(data.genres);
+          expect(frontmatter.developers, JSON.stringify(data.facets)).toEqual(data.facets?.developers);
+          expect(frontmatter.keywords, JSON.stringify(data.facets)).toEqual(data.facets?.keywords);
+        }
+      }
+    });
+  });
+});